@@ -3,11 +3,15 @@ import { provideServerRendering } from '@angular/platform-server';
 import { provideServerRouting } from '@angular/ssr';
 import { appConfig } from './app.config';
 import { serverRoutes } from './app.routes.server';
+import { CONFIG_APP } from './config/config-app';
+import { configDoAmbiente } from '../server/config-runtime';
 
 const serverConfig: ApplicationConfig = {
   providers: [
     provideServerRendering(),
-    provideServerRouting(serverRoutes)
+    provideServerRouting(serverRoutes),
+    // No servidor a configuração sai direto das variáveis de ambiente (no navegador, do /config.json)
+    { provide: CONFIG_APP, useFactory: () => configDoAmbiente(process.env) }
   ]
 };
 
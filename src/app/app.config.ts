@@ -1,14 +1,15 @@
 import { ApplicationConfig } from '@angular/core';
 import { provideRouter } from '@angular/router';
-import { provideHttpClient, withFetch } from '@angular/common/http';
+import { provideHttpClient, withFetch, withInterceptors } from '@angular/common/http';
 import { provideClientHydration } from '@angular/platform-browser';
 
 import { routes } from './app.routes';
+import { sessaoInterceptor } from './sessao/sessao.interceptor';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideRouter(routes),
-    provideHttpClient(withFetch()), 
+    provideHttpClient(withFetch(), withInterceptors([sessaoInterceptor])), 
     provideClientHydration() 
   ]
 };
\ No newline at end of file
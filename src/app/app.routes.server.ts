@@ -1,8 +1,40 @@
 import { RenderMode, ServerRoute } from '@angular/ssr';
 
+/**
+ * Modo de renderização de cada rota no servidor:
+ * - mapa, frota e reprodução: a página é sempre a mesma (o mapa só existe no navegador), então é pré-renderizada no build
+ * - linha: renderizada a cada requisição, já que o código vem da URL e não dá para listar todas no build;
+ *   o HTML já traz a ficha da linha (terminais, sentidos e paradas), o <title> e as meta tags
+ * - parada: o conteúdo depende só das previsões em tempo real, então fica a cargo do navegador
+ * - demais: renderizadas no servidor para os redirecionamentos funcionarem
+ */
 export const serverRoutes: ServerRoute[] = [
   {
-    path: '**',
+    path: 'mapa',
+    renderMode: RenderMode.Prerender
+  },
+  {
+    path: 'frota',
+    renderMode: RenderMode.Prerender
+  },
+  {
+    path: 'reproducao',
     renderMode: RenderMode.Prerender
+  },
+  {
+    path: 'linha/:codigo',
+    renderMode: RenderMode.Server
+  },
+  {
+    path: 'linha/:codigo/:sentido',
+    renderMode: RenderMode.Server
+  },
+  {
+    path: 'parada/:codigo',
+    renderMode: RenderMode.Client
+  },
+  {
+    path: '**',
+    renderMode: RenderMode.Server
   }
 ];
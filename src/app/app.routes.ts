@@ -1,3 +1,24 @@
 import { Routes } from '@angular/router';
+import { HomeComponent } from './home/home.component';
 
-export const routes: Routes = [];
+/**
+ * O HomeComponent (mapa) fica no topo e as rotas filhas não têm componente:
+ * assim o mapa Leaflet não é recriado ao navegar entre linha, parada e mapa.
+ * O tipo de cada rota vai em `data.tipo` (ver home/rota-mapa.ts).
+ */
+export const routes: Routes = [
+  {
+    path: '',
+    component: HomeComponent,
+    children: [
+      { path: '', pathMatch: 'full', redirectTo: 'mapa' },
+      { path: 'mapa', data: { tipo: 'mapa' }, children: [] },
+      { path: 'frota', data: { tipo: 'frota' }, children: [] },
+      { path: 'reproducao', data: { tipo: 'reproducao' }, children: [] },
+      { path: 'linha/:codigo', data: { tipo: 'linha' }, children: [] },
+      { path: 'linha/:codigo/:sentido', data: { tipo: 'linha' }, children: [] },
+      { path: 'parada/:codigo', data: { tipo: 'parada' }, children: [] }
+    ]
+  },
+  { path: '**', redirectTo: 'mapa' }
+];
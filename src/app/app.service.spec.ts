@@ -0,0 +1,227 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { Subject, of, throwError } from 'rxjs';
+
+import { PosicoesTransmitidas, SptransService } from './app.service';
+import { GtfsService } from './gtfs/gtfs.service';
+import { EVENTO_POSICOES, paraTransmissao } from './models/diferenca-posicoes';
+import { ErroApi } from './models/erros-api';
+import { CacheOfflineService } from './offline/cache-offline.service';
+import { Linha, PosicoesLinha, ProgressoPosicoes, TracadoLinha } from './models/sptrans.model';
+
+describe('SptransService', () => {
+  let service: SptransService;
+  let http: HttpTestingController;
+
+  const linha = (codigo: number): Linha => ({
+    codigo, letreiro: `${codigo}-10`, circular: false, sentido: 1,
+    terminalPrincipal: 'A', terminalSecundario: 'B', destino: 'B'
+  });
+  const posicoes = (quantidade: number): PosicoesLinha => ({
+    horario: '10:00',
+    referencia: null,
+    veiculos: Array.from({ length: quantidade }, (_, i) => ({
+      prefixo: String(i), acessivel: true, atualizadoEm: new Date(), lat: -23.5, lng: -46.6
+    })),
+    rejeitados: 0
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(SptransService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => http.verify());
+
+  describe('buscarLinhas', () => {
+    it('diferencia "nenhuma linha" de erro do servidor', () => {
+      let linhas: Linha[] | undefined;
+      let erro: ErroApi | undefined;
+
+      service.buscarLinhas('xyz').subscribe(l => linhas = l);
+      http.expectOne(r => r.url.includes('/linhas')).flush([]);
+      expect(linhas).toEqual([]);
+
+      service.buscarLinhas('8000').subscribe({ error: e => erro = e });
+      http.expectOne(r => r.url.includes('/linhas')).flush('falhou', { status: 500, statusText: 'Server Error' });
+      expect(erro).toBeInstanceOf(ErroApi);
+      expect(erro?.tipo).toBe('servidor');
+      expect(erro?.operacao).toBe('buscar linhas');
+    });
+
+    it('acusa resposta em formato inesperado', () => {
+      let erro: ErroApi | undefined;
+      service.buscarLinhas('8000').subscribe({ error: e => erro = e });
+      http.expectOne(r => r.url.includes('/linhas')).flush({ mensagem: 'não autorizado' });
+      expect(erro?.tipo).toBe('dados-invalidos');
+    });
+  });
+
+  describe('buscarPosicoesDasLinhas', () => {
+    it('junta sucessos e falhas em um único resultado', () => {
+      spyOn(service, 'buscarPosicoes').and.callFake(codigo =>
+        codigo === 2 ? throwError(() => new Error('offline')) : of(posicoes(Number(codigo))));
+      const andamentos: ProgressoPosicoes[] = [];
+
+      service.buscarPosicoesDasLinhas([linha(1), linha(2), linha(3)]).subscribe(p => andamentos.push(p));
+
+      const final = andamentos[andamentos.length - 1];
+      expect(andamentos[0].concluidas).toBe(0);
+      expect(final.finalizado).toBeTrue();
+      expect(final.concluidas).toBe(3);
+      expect(final.falhas).toBe(1);
+      expect(final.totalVeiculos).toBe(4);
+      expect(final.resultados.find(r => r.status === 'erro')?.linha.codigo).toBe(2);
+    });
+
+    it('não passa do limite de requisições simultâneas', () => {
+      const pendentes = new Map<number, Subject<PosicoesLinha>>();
+      spyOn(service, 'buscarPosicoes').and.callFake(codigo => {
+        const resposta = new Subject<PosicoesLinha>();
+        pendentes.set(Number(codigo), resposta);
+        return resposta;
+      });
+      let ultimo: ProgressoPosicoes | undefined;
+
+      service.buscarPosicoesDasLinhas([1, 2, 3, 4, 5].map(linha), 2).subscribe(p => ultimo = p);
+      expect(service.buscarPosicoes).toHaveBeenCalledTimes(2);
+
+      pendentes.get(1)!.next(posicoes(1));
+      pendentes.get(1)!.complete();
+      expect(service.buscarPosicoes).toHaveBeenCalledTimes(3);
+      expect(ultimo?.concluidas).toBe(1);
+      expect(ultimo?.finalizado).toBeFalse();
+    });
+
+    it('finaliza na hora quando não há linhas', () => {
+      let ultimo: ProgressoPosicoes | undefined;
+      service.buscarPosicoesDasLinhas([]).subscribe(p => ultimo = p);
+      expect(ultimo?.finalizado).toBeTrue();
+      expect(ultimo?.total).toBe(0);
+    });
+  });
+
+  describe('sem conexão', () => {
+    it('usa as últimas posições guardadas, com o hr do dia em que chegaram', () => {
+      const cache = TestBed.inject(CacheOfflineService);
+      const guardadaEm = new Date(2024, 0, 15, 9, 46);
+      spyOn(cache, 'guardar');
+      spyOn(cache, 'ler').and.returnValue({
+        resposta: { hr: '09:45', vs: [{ p: 11111, a: true, ta: '2024-01-15T12:45:00Z', py: -23.5, px: -46.6 }] },
+        guardadaEm
+      });
+      let resultado: PosicoesLinha | undefined;
+
+      service.buscarPosicoes(1273).subscribe(p => resultado = p);
+      http.expectOne(r => r.url.includes('/Posicao/Linha')).flush(null, { status: 0, statusText: 'Unknown Error' });
+
+      expect(cache.ler).toHaveBeenCalledWith('posicoes', '1273');
+      expect(resultado?.guardadaEm).toEqual(guardadaEm);
+      expect(resultado?.referencia).toEqual(new Date(2024, 0, 15, 9, 45));
+      expect(resultado?.veiculos.length).toBe(1);
+    });
+
+    it('guarda as respostas e só recorre a elas quando falta conexão', () => {
+      const cache = TestBed.inject(CacheOfflineService);
+      spyOn(cache, 'guardar');
+      spyOn(cache, 'ler').and.returnValue({ resposta: [], guardadaEm: new Date() });
+      let erro: ErroApi | undefined;
+
+      service.buscarLinhas(' lapa ').subscribe();
+      http.expectOne(r => r.url.includes('/linhas')).flush([]);
+      expect(cache.guardar).toHaveBeenCalledWith('linhas', 'LAPA', []);
+
+      service.buscarLinhas('lapa').subscribe({ error: e => erro = e });
+      http.expectOne(r => r.url.includes('/linhas')).flush('falhou', { status: 500, statusText: 'Server Error' });
+      expect(cache.ler).not.toHaveBeenCalled();
+      expect(erro?.tipo).toBe('servidor');
+    });
+
+    it('busca as linhas no GTFS carregado quando a API não responde', () => {
+      const gtfs = TestBed.inject(GtfsService);
+      spyOnProperty(gtfs, 'carregado').and.returnValue(true);
+      spyOn(gtfs, 'buscarLinhas').and.returnValue([linha(-1)]);
+      let linhas: Linha[] | undefined;
+      let erro: ErroApi | undefined;
+
+      service.buscarLinhas('8000').subscribe(l => linhas = l);
+      http.expectOne(r => r.url.includes('/linhas')).flush(null, { status: 0, statusText: 'Unknown Error' });
+      expect(gtfs.buscarLinhas).toHaveBeenCalledWith('8000');
+      expect(linhas?.map(l => l.codigo)).toEqual([-1]);
+
+      // Resposta inválida não é falta de backend
+      service.buscarLinhas('8000').subscribe({ error: e => erro = e });
+      http.expectOne(r => r.url.includes('/linhas')).flush({ mensagem: 'não autorizado' });
+      expect(erro?.tipo).toBe('dados-invalidos');
+    });
+
+    it('repassa o erro de rede quando não há nada guardado', () => {
+      let erro: ErroApi | undefined;
+      service.buscarPosicoes(1273).subscribe({ error: e => erro = e });
+      http.expectOne(r => r.url.includes('/Posicao/Linha')).flush(null, { status: 0, statusText: 'Unknown Error' });
+      expect(erro?.tipo).toBe('rede');
+    });
+  });
+
+  describe('buscarTracado', () => {
+    it('decodifica os pontos do shapes.txt', () => {
+      let tracado: TracadoLinha | null | undefined;
+      service.buscarTracado(1273).subscribe(t => tracado = t);
+
+      http.expectOne(r => r.url.includes('/Shape/Linha') && r.url.includes('codigoLinha=1273')).flush([
+        { shape_pt_lat: -23.50, shape_pt_lon: -46.60, shape_pt_sequence: 1 },
+        { shape_pt_lat: -23.51, shape_pt_lon: -46.61, shape_pt_sequence: 2 }
+      ]);
+      expect(tracado?.pontos.length).toBe(2);
+    });
+
+    it('retorna null quando a linha não tem traçado', () => {
+      let tracado: TracadoLinha | null | undefined;
+      service.buscarTracado(1273).subscribe(t => tracado = t);
+
+      http.expectOne(r => r.url.includes('/Shape/Linha')).flush('não encontrado', { status: 404, statusText: 'Not Found' });
+      expect(tracado).toBeNull();
+    });
+  });
+
+  describe('transmitirPosicoes', () => {
+    /** EventSource que só recebe o que o teste manda */
+    class FonteFalsa extends EventTarget {
+      static ultima: FonteFalsa;
+      readyState = 1;
+      onerror: (() => void) | null = null;
+      constructor(readonly url: string) {
+        super();
+        FonteFalsa.ultima = this;
+      }
+      close(): void {
+        this.readyState = 2;
+      }
+      enviar(dados: string): void {
+        this.dispatchEvent(new MessageEvent(EVENTO_POSICOES, { data: dados }));
+      }
+    }
+    const original = globalThis.EventSource;
+
+    beforeEach(() => globalThis.EventSource = FonteFalsa as unknown as typeof EventSource);
+    afterEach(() => globalThis.EventSource = original);
+
+    it('termina com erro e fecha a conexão ao receber uma mensagem que não é JSON', () => {
+      const recebidas: PosicoesTransmitidas[] = [];
+      let erro: unknown;
+      service.transmitirPosicoes([1273]).subscribe({ next: p => recebidas.push(p), error: e => erro = e });
+
+      const veiculo = { prefixo: 'A', acessivel: true, atualizadoEm: new Date(), lat: -23.5, lng: -46.6 };
+      FonteFalsa.ultima.enviar(JSON.stringify({ tipo: 'inicial', codigoLinha: 1273, horario: '10:00', veiculos: [paraTransmissao(veiculo)] }));
+      FonteFalsa.ultima.enviar('{"tipo":"difer');
+
+      expect(recebidas.map(p => p.posicoes.veiculos.length)).toEqual([1]);
+      expect(erro).toEqual(jasmine.any(Error));
+      expect(FonteFalsa.ultima.readyState).toBe(2);
+    });
+  });
+});
@@ -1,8 +1,66 @@
-import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable, of } from 'rxjs';
-import { catchError, map, switchMap } from 'rxjs/operators';
+import { Inject, Injectable } from '@angular/core';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Observable, OperatorFunction, from, of, throwError } from 'rxjs';
+import { catchError, map, mergeMap, scan, startWith, switchMap } from 'rxjs/operators';
 import { environment } from '../environments/environment';
+import { CONFIG_APP, ConfigApp } from './config/config-app';
+import { GtfsService } from './gtfs/gtfs.service';
+import { ErroApi, classificarErro } from './models/erros-api';
+import { EVENTO_POSICOES, MensagemPosicoes, aplicarMensagem } from './models/diferenca-posicoes';
+import { CacheOfflineService, RespostaGuardada, TipoRespostaOffline } from './offline/cache-offline.service';
+import { SessaoService } from './sessao/sessao.service';
+import {
+    Linha,
+    LinhaComPosicoes,
+    Parada,
+    PosicoesFrota,
+    PosicoesLinha,
+    PrevisaoDaLinha,
+    PrevisaoParada,
+    ProgressoPosicoes,
+    ResultadoLinha,
+    StatusApi,
+    TracadoLinha,
+    Veiculo
+} from './models/sptrans.model';
+import {
+    ErroDecodificacao,
+    decodificarLinhas,
+    decodificarParadas,
+    decodificarPosicoes,
+    decodificarPosicoesFrota,
+    decodificarPrevisaoDaLinha,
+    decodificarPrevisaoParada,
+    decodificarStatus,
+    decodificarTracado,
+    horarioDeHoje
+} from './models/sptrans.decoders';
+
+/**
+ * Operador que converte qualquer erro em ErroApi e o repassa para quem se inscreveu
+ * @param operacao - ex: 'buscar linhas' (aparece nos logs e em ErroApi.operacao)
+ */
+function repassarErro<T>(operacao: string): OperatorFunction<T, T> {
+    return catchError(erro => {
+        const erroApi = classificarErro(erro, operacao);
+        console.error(`❌ Erro ao ${operacao}: ${erroApi.resumo}`, erroApi.causa);
+        return throwError(() => erroApi);
+    });
+}
+
+/** Quantas linhas têm posições buscadas ao mesmo tempo */
+export const CONCORRENCIA_POSICOES = 4;
+
+/** Erros seguidos do stream, sem nenhuma mensagem no meio, até desistir dele */
+export const TENTATIVAS_STREAM = 3;
+
+/**
+ * Posições de uma linha recebidas pelo stream
+ */
+export interface PosicoesTransmitidas {
+    codigoLinha: number;
+    posicoes: PosicoesLinha;
+}
 
 /**
  * 📚 SERVIÇO DA API SPTRANS
@@ -26,40 +84,60 @@ import { environment } from '../environments/environment';
  *     console.log('Linha:', resultado.linha);
  *     console.log('Posições:', resultado.posicoes);
  * });
+ * 
+ * // Posições ao vivo (stream do servidor)
+ * this.sptransService.transmitirPosicoes([1273]).subscribe(({ posicoes }) => {
+ *     console.log('Ônibus agora:', posicoes.veiculos);
+ * });
+ * 
+ * // Previsão de chegada em uma parada
+ * this.sptransService.buscarPrevisaoParada(4200953).subscribe(previsao => {
+ *     console.log('Linhas chegando:', previsao.linhas);
+ * });
+ * 
+ * // Erros chegam sempre como ErroApi
+ * this.sptransService.buscarLinhas('8000').subscribe({
+ *     error: (erro: ErroApi) => console.log(erro.tipo, erro.message)
+ * });
  */
 @Injectable({ providedIn: 'root' })
 export class SptransService {
 
     /**
-     * URL base para todas as requisições
+     * URL base para todas as requisições (ConfigApp.apiUrl)
      * 
-     * DESENVOLVIMENTO: '/api' (usa proxy para localhost:8080)
-     * PRODUÇÃO: 'https://busmap-back.onrender.com'
+     * Padrão: '/api' (em desenvolvimento o proxy aponta para localhost:8080;
+     * em produção é o gateway do servidor SSR, que repassa para o backend)
+     * Outro backend: variável de ambiente API_URL no servidor, sem novo build
      */
-    private baseURL = environment.apiUrl;
+    private readonly baseURL: string;
 
     /**
      * O HttpClient é uma ferramenta do Angular para fazer requisições HTTP
      * Ele é injetado automaticamente no construtor
      */
-    constructor(private http: HttpClient) {
+    constructor(
+        private http: HttpClient,
+        private gtfs: GtfsService,
+        private sessao: SessaoService,
+        private cacheOffline: CacheOfflineService,
+        @Inject(CONFIG_APP) config: ConfigApp
+    ) {
+        this.baseURL = config.apiUrl;
         console.log('🌍 Ambiente:', environment.production ? 'PRODUÇÃO' : 'DESENVOLVIMENTO');
         console.log('📡 API URL:', this.baseURL);
     }
 
-  
-    //  Faz login na API SPTrans
-   
+    /**
+     * 🔐 Faz login na API SPTrans
+     *
+     * Normalmente não é preciso chamar: o sessaoInterceptor faz login antes da
+     * primeira chamada e de novo quando a sessão expira (ver SessaoService).
+     *
+     * @returns Observable com true se o login foi aceito
+     */
     login(): Observable<boolean> {
-        const url = `${this.baseURL}/login`;
-        console.log('🔐 Fazendo login...');
-
-        return this.http.get<boolean>(url).pipe(
-            catchError(erro => {
-                console.error('❌ Erro ao fazer login:', erro);
-                return of(false);
-            })
-        );
+        return this.sessao.entrar();
     }
 
     /**
@@ -69,39 +147,186 @@ export class SptransService {
      * });
      * ```
      * 
+     * Se a API falhar e houver um GTFS carregado (GtfsService), a busca é feita nele;
+     * essas linhas não têm código do Olho Vivo (ver IndiceGtfs.buscarLinhas).
+     * 
      * @param termo - O texto para buscar (ex: '8000', 'Lapa', 'Pinheiros')
-     * @returns Observable com array de linhas encontradas
+     * @returns Observable com array de linhas encontradas (registros inválidos são descartados)
      */
-    buscarLinhas(termo: string): Observable<any[]> {
+    buscarLinhas(termo: string): Observable<Linha[]> {
         const url = `${this.baseURL}/linhas?termo=${encodeURIComponent(termo)}`;
         console.log('🔍 Buscando linhas:', termo);
 
-        return this.http.get<any[]>(url).pipe(
-            catchError(erro => {
-                console.error('❌ Erro ao buscar linhas:', erro);
-                return of([]);
+        const chave = termo.trim().toUpperCase();
+
+        return this.http.get<unknown>(url).pipe(
+            map(resposta => {
+                const linhas = this.linhasDaResposta(resposta);
+                this.cacheOffline.guardar('linhas', chave, resposta);
+                return linhas;
+            }),
+            this.usarCacheSemConexao('linhas', chave, ({ resposta }) => this.linhasDaResposta(resposta)),
+            repassarErro('buscar linhas'),
+            catchError((erro: ErroApi) => {
+                // Sem backend nem resposta guardada, as linhas ainda podem vir do GTFS carregado
+                if (this.gtfs.carregado && erro.temporario) {
+                    console.log('📦 Usando as linhas do GTFS offline');
+                    return of(this.gtfs.buscarLinhas(termo));
+                }
+                return throwError(() => erro);
             })
         );
     }
 
+    private linhasDaResposta(resposta: unknown): Linha[] {
+        if (!Array.isArray(resposta)) {
+            throw new ErroDecodificacao('Resposta de linhas não é um array', resposta);
+        }
+        const { validos, rejeitados } = decodificarLinhas(resposta);
+        if (rejeitados.length > 0) {
+            console.warn(`⚠️ ${rejeitados.length} linha(s) descartada(s):`, rejeitados);
+        }
+        return validos;
+    }
+
     /**
      * BUSCAR POSIÇÕES DOS ÔNIBUS
      * ```
      * 
-     * @param codigoLinha - Código da linha (ex: '1145', '2506', '8000-10')
-     * @returns Observable com objeto contendo:
-     *          - hr: horário da última atualização
-     *          - vs: array de veículos com coordenadas (px=longitude, py=latitude)
+     * @param codigoLinha - Código da linha (Linha.codigo, ex: 1273)
+     * @returns Observable com PosicoesLinha:
+     *          - horario/referencia: horário da última atualização (hr)
+     *          - veiculos: veículos com lat/lng já convertidos
      */
-    buscarPosicoes(codigoLinha: string | number): Observable<any> {
+    buscarPosicoes(codigoLinha: string | number): Observable<PosicoesLinha> {
         const url = `${this.baseURL}/Posicao/Linha?codigoLinha=${encodeURIComponent(codigoLinha)}`;
         console.log('📍 Buscando posições da linha:', codigoLinha);
 
-        return this.http.get<any>(url).pipe(
-            catchError(erro => {
-                console.error('❌ Erro ao buscar posições:', erro);
-                return of({ hr: '', vs: [] });
-            })
+        const chave = String(codigoLinha);
+
+        return this.http.get<unknown>(url).pipe(
+            map(resposta => {
+                const posicoes = decodificarPosicoes(resposta);
+                this.cacheOffline.guardar('posicoes', chave, resposta);
+                return posicoes;
+            }),
+            // O hr guardado é do dia em que a resposta chegou, não de hoje
+            this.usarCacheSemConexao('posicoes', chave, ({ resposta, guardadaEm }): PosicoesLinha => ({
+                ...decodificarPosicoes(resposta, guardadaEm),
+                guardadaEm
+            })),
+            repassarErro('buscar posições')
+        );
+    }
+
+    /**
+     * 📴 Sem conexão (status 0), responde com a última resposta guardada da mesma consulta.
+     * Os outros erros, ou a falta de resposta guardada, seguem adiante.
+     */
+    private usarCacheSemConexao<T>(
+        tipo: TipoRespostaOffline,
+        chave: string,
+        decodificar: (guardada: RespostaGuardada) => T
+    ): OperatorFunction<T, T> {
+        return catchError(erro => {
+            const semConexao = erro instanceof HttpErrorResponse && erro.status === 0;
+            const guardada = semConexao ? this.cacheOffline.ler(tipo, chave) : null;
+            if (!guardada) return throwError(() => erro);
+
+            console.log(`📴 Sem conexão: usando ${tipo} de ${chave} guardadas em`, guardada.guardadaEm);
+            return of(decodificar(guardada));
+        });
+    }
+
+    /**
+     * 📡 POSIÇÕES AO VIVO (Server-Sent Events)
+     *
+     * Conecta em /stream/posicoes do servidor SSR, que consulta cada linha uma
+     * vez para todas as abas abertas, e emite as posições de uma linha sempre
+     * que mudam. Quedas de conexão são refeitas pelo próprio EventSource.
+     *
+     * Termina com erro quando não há stream (sem EventSource, backend sem a
+     * rota, como no proxy do `ng serve`), depois de TENTATIVAS_STREAM erros
+     * seguidos ou ao receber uma mensagem que não é JSON: quem chama volta a consultar com buscarPosicoes, como faz o
+     * AtualizacaoPosicoesService.
+     *
+     * Exemplo de uso:
+     * ```
+     * this.sptransService.transmitirPosicoes([1273, 34041]).subscribe({
+     *     next: ({ codigoLinha, posicoes }) => console.log(codigoLinha, posicoes.veiculos),
+     *     error: () => console.log('Sem stream: voltando a consultar')
+     * });
+     * ```
+     *
+     * @param codigosLinha - Códigos das linhas (Linha.codigo)
+     */
+    transmitirPosicoes(codigosLinha: number[]): Observable<PosicoesTransmitidas> {
+        if (typeof EventSource === 'undefined') {
+            return throwError(() => new Error('EventSource não disponível'));
+        }
+        const url = `${this.baseURL}/stream/posicoes?linhas=${codigosLinha.join(',')}`;
+        console.log('📡 Conectando ao stream de posições:', codigosLinha);
+
+        return new Observable<PosicoesTransmitidas>(assinante => {
+            const fonte = new EventSource(url);
+            const veiculos = new Map<number, Veiculo[]>();
+            let errosSeguidos = 0;
+
+            fonte.addEventListener(EVENTO_POSICOES, evento => {
+                errosSeguidos = 0;
+                let mensagem: MensagemPosicoes;
+                try {
+                    mensagem = JSON.parse((evento as MessageEvent<string>).data);
+                } catch (erro) {
+                    // Sem a mensagem perdida, as próximas diferenças seriam aplicadas sobre ônibus errados
+                    assinante.error(new ErroDecodificacao('Mensagem do stream de posições não é JSON', (evento as MessageEvent<string>).data));
+                    return;
+                }
+                if (mensagem.tipo === 'falha') {
+                    console.warn(`⚠️ Stream: a linha ${mensagem.codigoLinha} ficou de fora desta rodada`);
+                    return;
+                }
+
+                const atuais = aplicarMensagem(veiculos.get(mensagem.codigoLinha), mensagem);
+                if (!atuais) return;
+                veiculos.set(mensagem.codigoLinha, atuais);
+                assinante.next({
+                    codigoLinha: mensagem.codigoLinha,
+                    posicoes: {
+                        horario: mensagem.horario,
+                        referencia: horarioDeHoje(mensagem.horario),
+                        veiculos: atuais,
+                        rejeitados: 0
+                    }
+                });
+            });
+
+            fonte.onerror = () => {
+                errosSeguidos++;
+                if (fonte.readyState === EventSource.CLOSED || errosSeguidos >= TENTATIVAS_STREAM) {
+                    assinante.error(new Error(`Stream de posições indisponível (${errosSeguidos} erro(s))`));
+                }
+            };
+
+            return () => fonte.close();
+        });
+    }
+
+    /**
+     * 🌐 BUSCAR POSIÇÕES DA FROTA INTEIRA
+     * 
+     * Uma única chamada a /Posicao traz todas as linhas em operação com seus veículos
+     * (alguns milhares de ônibus). Ideal para a visão da cidade inteira.
+     * 
+     * @returns Observable com as linhas e veículos já decodificados
+     */
+    buscarPosicoesFrota(): Observable<PosicoesFrota> {
+        const url = `${this.baseURL}/Posicao`;
+        console.log('🌐 Buscando posições da frota inteira');
+
+        return this.http.get<unknown>(url).pipe(
+            map(resposta => decodificarPosicoesFrota(resposta)),
+            repassarErro('buscar posições da frota')
         );
     }
 
@@ -116,7 +341,7 @@ export class SptransService {
      * this.sptransService.buscarPosicoesInteligente('8000').subscribe({
      *     next: (resultado) => {
      *         console.log('Linha:', resultado.linha);
-     *         console.log('Ônibus:', resultado.posicoes.vs);
+     *         console.log('Ônibus:', resultado.posicoes.veiculos);
      *     },
      *     error: (erro) => {
      *         console.error('Erro:', erro);
@@ -127,9 +352,9 @@ export class SptransService {
      * @param termo - Termo de busca da linha (ex: '8000', 'Lapa')
      * @returns Observable com objeto contendo:
      *          - linha: informações da linha encontrada
-     *          - posicoes: objeto com hr e vs (veículos)
+     *          - posicoes: horário e veículos da linha
      */
-    buscarPosicoesInteligente(termo: string): Observable<any> {
+    buscarPosicoesInteligente(termo: string): Observable<LinhaComPosicoes> {
         console.log('🎯 Busca inteligente para:', termo);
 
         return this.buscarLinhas(termo).pipe(
@@ -142,19 +367,9 @@ export class SptransService {
 
                 // Pega a primeira linha encontrada
                 const linha = linhas[0];
-
-                // Busca o código da linha em diferentes campos possíveis
-                const codigoLinha = linha.cl || linha.c || linha.codigo || linha.codigoLinha;
-
                 console.log('✅ Linha encontrada:', linha);
-                console.log('📌 Código da linha extraído:', codigoLinha);
 
-                if (!codigoLinha) {
-                    console.error('❌ Código da linha não encontrado em:', linha);
-                    throw new Error('Código da linha não encontrado no objeto retornado');
-                }
-
-                return this.buscarPosicoes(codigoLinha).pipe(
+                return this.buscarPosicoes(linha.codigo).pipe(
                     map(posicoes => ({
                         linha: linha,
                         posicoes: posicoes
@@ -168,6 +383,134 @@ export class SptransService {
         );
     }
 
+    // ========================================
+    // PARADAS E PREVISÕES DE CHEGADA
+    // ========================================
+
+    /**
+     * 🚏 BUSCAR PARADAS
+     * 
+     * Se a API falhar e houver um GTFS carregado (GtfsService), a busca é feita nele.
+     * 
+     * @param termo - Nome da parada ou endereço (ex: 'Afonso', 'Paulista')
+     * @returns Observable com as paradas encontradas
+     */
+    buscarParadas(termo: string): Observable<Parada[]> {
+        const url = `${this.baseURL}/Parada/Buscar?termosBusca=${encodeURIComponent(termo)}`;
+        console.log('🚏 Buscando paradas:', termo);
+
+        return this.http.get<unknown>(url).pipe(
+            map(resposta => this.paradasDaResposta(resposta)),
+            repassarErro('buscar paradas'),
+            catchError((erro: ErroApi) => {
+                // Sem backend, as paradas ainda podem vir do GTFS carregado
+                if (this.gtfs.carregado && erro.temporario) {
+                    console.log('📦 Usando as paradas do GTFS offline');
+                    return of(this.gtfs.buscarParadas(termo));
+                }
+                return throwError(() => erro);
+            })
+        );
+    }
+
+    /**
+     * 🚏 BUSCAR PARADAS DE UMA LINHA
+     * 
+     * @param codigoLinha - Código da linha (Linha.codigo)
+     * @returns Observable com as paradas atendidas pela linha
+     */
+    buscarParadasPorLinha(codigoLinha: number): Observable<Parada[]> {
+        const url = `${this.baseURL}/Parada/BuscarParadasPorLinha?codigoLinha=${encodeURIComponent(codigoLinha)}`;
+        console.log('🚏 Buscando paradas da linha:', codigoLinha);
+
+        return this.http.get<unknown>(url).pipe(
+            map(resposta => this.paradasDaResposta(resposta)),
+            repassarErro('buscar paradas da linha')
+        );
+    }
+
+    /**
+     * 🛣️ BUSCAR O TRAÇADO DE UMA LINHA
+     * 
+     * O backend monta o traçado a partir do shapes.txt do GTFS da SPTrans.
+     * Linha sem shape (404) não é erro: vira null.
+     * 
+     * @param codigoLinha - Código da linha (Linha.codigo), que já define o sentido
+     * @returns Observable com o traçado, ou null se não houver
+     */
+    buscarTracado(codigoLinha: number): Observable<TracadoLinha | null> {
+        const url = `${this.baseURL}/Shape/Linha?codigoLinha=${encodeURIComponent(codigoLinha)}`;
+        console.log('🛣️ Buscando traçado da linha:', codigoLinha);
+
+        return this.http.get<unknown>(url).pipe(
+            map((resposta): TracadoLinha | null => decodificarTracado(resposta, codigoLinha)),
+            catchError(erro => {
+                if (erro instanceof HttpErrorResponse && erro.status === 404) {
+                    console.log(`🛣️ Linha ${codigoLinha} sem traçado`);
+                    return of(null);
+                }
+                return throwError(() => erro);
+            }),
+            repassarErro('buscar traçado')
+        );
+    }
+
+    /**
+     * ⏱️ PREVISÃO DE CHEGADA EM UMA PARADA (todas as linhas)
+     * 
+     * Quem atualiza periodicamente pode tratar o erro mantendo a última previsão válida.
+     * 
+     * @param codigoParada - Código da parada (Parada.codigo)
+     */
+    buscarPrevisaoParada(codigoParada: number): Observable<PrevisaoParada> {
+        const url = `${this.baseURL}/Previsao/Parada?codigoParada=${encodeURIComponent(codigoParada)}`;
+        console.log('⏱️ Buscando previsão da parada:', codigoParada);
+
+        return this.http.get<unknown>(url).pipe(
+            map(resposta => decodificarPrevisaoParada(resposta)),
+            repassarErro('buscar previsão da parada')
+        );
+    }
+
+    /**
+     * ⏱️ PREVISÃO DE CHEGADA DE UMA LINHA EM UMA PARADA
+     * 
+     * @param codigoParada - Código da parada (Parada.codigo)
+     * @param codigoLinha - Código da linha (Linha.codigo)
+     */
+    buscarPrevisao(codigoParada: number, codigoLinha: number): Observable<PrevisaoParada> {
+        const url = `${this.baseURL}/Previsao?codigoParada=${encodeURIComponent(codigoParada)}`
+            + `&codigoLinha=${encodeURIComponent(codigoLinha)}`;
+        console.log('⏱️ Buscando previsão:', { codigoParada, codigoLinha });
+
+        return this.http.get<unknown>(url).pipe(
+            map(resposta => decodificarPrevisaoParada(resposta)),
+            repassarErro('buscar previsão')
+        );
+    }
+
+    /**
+     * ⏱️ PREVISÃO DE CHEGADA DE UMA LINHA EM TODAS AS SUAS PARADAS
+     * 
+     * @param codigoLinha - Código da linha (Linha.codigo)
+     */
+    buscarPrevisaoLinha(codigoLinha: number): Observable<PrevisaoDaLinha> {
+        const url = `${this.baseURL}/Previsao/Linha?codigoLinha=${encodeURIComponent(codigoLinha)}`;
+        console.log('⏱️ Buscando previsão da linha:', codigoLinha);
+
+        return this.http.get<unknown>(url).pipe(
+            map(resposta => decodificarPrevisaoDaLinha(resposta)),
+            repassarErro('buscar previsão da linha')
+        );
+    }
+
+    private paradasDaResposta(resposta: unknown): Parada[] {
+        if (!Array.isArray(resposta)) {
+            throw new ErroDecodificacao('Resposta de paradas não é um array', resposta);
+        }
+        return decodificarParadas(resposta).validos;
+    }
+
     /**
      * ✅ VERIFICAR STATUS
      * 
@@ -182,15 +525,13 @@ export class SptransService {
      * 
      * @returns Observable com status da API
      */
-    verificarStatus(): Observable<any> {
+    verificarStatus(): Observable<StatusApi> {
         const url = `${this.baseURL}/status`;
         console.log('✅ Verificando status da API...');
 
-        return this.http.get<any>(url).pipe(
-            catchError(erro => {
-                console.error('❌ Erro ao verificar status:', erro);
-                return of({ autenticado: false, erro: true });
-            })
+        return this.http.get<unknown>(url).pipe(
+            map(resposta => decodificarStatus(resposta)),
+            repassarErro('verificar status')
         );
     }
 
@@ -199,20 +540,23 @@ export class SptransService {
     // ========================================
 
     /**
-     * � DEBUG: Mostra a estrutura de uma linha
-     * Use este método para ver quais campos estão disponíveis
+     * � DEBUG: Mostra a estrutura BRUTA de uma linha
+     * Use este método para ver quais campos a API está devolvendo
+     * antes de passarem pelos decodificadores
      * 
      * @param termo - Termo de busca
      */
-    debugEstruturaDaLinha(termo: string): Observable<any> {
-        return this.buscarLinhas(termo).pipe(
-            map(linhas => {
-                if (!linhas || linhas.length === 0) {
+    debugEstruturaDaLinha(termo: string): Observable<unknown> {
+        const url = `${this.baseURL}/linhas?termo=${encodeURIComponent(termo)}`;
+
+        return this.http.get<unknown>(url).pipe(
+            map(resposta => {
+                if (!Array.isArray(resposta) || resposta.length === 0) {
                     console.log('❌ Nenhuma linha encontrada');
                     return null;
                 }
 
-                const linha = linhas[0];
+                const linha = resposta[0];
                 console.log('🔍 ESTRUTURA DA LINHA:');
                 console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
                 console.log('Objeto completo:', linha);
@@ -222,11 +566,7 @@ export class SptransService {
                     console.log(`  ${key}: ${linha[key]}`);
                 });
                 console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-                console.log('Possíveis códigos:');
-                console.log('  linha.cl:', linha.cl);
-                console.log('  linha.c:', linha.c);
-                console.log('  linha.codigo:', linha.codigo);
-                console.log('  linha.codigoLinha:', linha.codigoLinha);
+                console.log('Decodificada:', decodificarLinhas([linha]));
                 console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
 
                 return linha;
@@ -237,53 +577,60 @@ export class SptransService {
     /**
      * �📊 Buscar todas as posições de múltiplas linhas
      * 
+     * Busca as linhas do termo e depois as posições de todas elas em paralelo
+     * (no máximo `concorrencia` ao mesmo tempo). Uma linha que falha não
+     * derruba as outras: ela aparece nos resultados com status 'erro'.
+     * 
+     * Exemplo de uso:
+     * ```
+     * this.sptransService.buscarTodasPosicoes('Lapa').subscribe(progresso => {
+     *     console.log(`${progresso.concluidas}/${progresso.total} linhas`);
+     *     if (progresso.finalizado) console.log('Falhas:', progresso.falhas);
+     * });
+     * ```
+     * 
      * @param termo - Termo de busca
-     * @returns Observable com array de linhas e suas posições
+     * @returns Observable que emite o andamento a cada linha concluída
      */
-    buscarTodasPosicoes(termo: string): Observable<any[]> {
-        console.log('� Buscando todas as posições para:', termo);
+    buscarTodasPosicoes(termo: string, concorrencia: number = CONCORRENCIA_POSICOES): Observable<ProgressoPosicoes> {
+        console.log('📊 Buscando todas as posições para:', termo);
 
         return this.buscarLinhas(termo).pipe(
-            switchMap(linhas => {
-                if (!linhas || linhas.length === 0) {
-                    return of([]);
-                }
-
-                // Cria um array de observables para buscar posições de cada linha
-                const requisicoesDeposicoes = linhas.map(linha => {
-                    // Busca o código em diferentes campos possíveis
-                    const codigoLinha = linha.cl || linha.c || linha.codigo || linha.codigoLinha;
-
-                    if (!codigoLinha) {
-                        console.warn('⚠️ Linha sem código válido:', linha);
-                        return of({
-                            ...linha,
-                            hr: '',
-                            vs: []
-                        });
-                    }
+            switchMap(linhas => this.buscarPosicoesDasLinhas(linhas, concorrencia))
+        );
+    }
 
-                    return this.buscarPosicoes(codigoLinha).pipe(
-                        map(posicoes => ({
-                            ...linha,
-                            hr: posicoes.hr || '',
-                            vs: posicoes.vs || []
-                        }))
-                    );
-                });
+    /**
+     * 📊 Buscar as posições de várias linhas já conhecidas
+     * 
+     * Emite um andamento inicial (nenhuma linha concluída) e depois um a cada linha.
+     * 
+     * @param linhas - Linhas a consultar
+     * @param concorrencia - Máximo de requisições simultâneas
+     */
+    buscarPosicoesDasLinhas(linhas: Linha[], concorrencia: number = CONCORRENCIA_POSICOES): Observable<ProgressoPosicoes> {
+        const montar = (resultados: ResultadoLinha[]): ProgressoPosicoes => ({
+            linhas,
+            resultados,
+            concluidas: resultados.length,
+            total: linhas.length,
+            totalVeiculos: resultados.reduce((soma, r) => soma + (r.status === 'ok' ? r.posicoes.veiculos.length : 0), 0),
+            falhas: resultados.filter(r => r.status === 'erro').length,
+            finalizado: resultados.length === linhas.length
+        });
 
-                // Retorna todos os resultados
-                // Nota: Para melhor performance, use forkJoin para requisições paralelas
-                // import { forkJoin } from 'rxjs';
-                // return forkJoin(requisicoesDeposicoes);
+        if (linhas.length === 0) {
+            return of(montar([]));
+        }
 
-                // Por enquanto, retorna sequencialmente
-                return of(requisicoesDeposicoes);
-            }),
-            catchError(erro => {
-                console.error('❌ Erro ao buscar todas as posições:', erro);
-                return of([]);
-            })
+        return from(linhas).pipe(
+            mergeMap(linha => this.buscarPosicoes(linha.codigo).pipe(
+                map((posicoes): ResultadoLinha => ({ status: 'ok', linha, posicoes })),
+                catchError(erro => of<ResultadoLinha>({ status: 'erro', linha, erro }))
+            ), concorrencia),
+            scan((resultados: ResultadoLinha[], resultado) => [...resultados, resultado], []),
+            map(montar),
+            startWith(montar([]))
         );
     }
 }
@@ -303,14 +650,16 @@ export class SptransService {
  *    - map() transforma os dados
  *    - of() cria um Observable com um valor fixo
  * 
- * 3. Por que retornar dados vazios no erro?
- *    - Para não quebrar a aplicação
- *    - O componente sempre recebe algo (mesmo que vazio)
- *    - Melhor que deixar a aplicação travar
+ * 3. Por que repassar o erro em vez de retornar dados vazios?
+ *    - Lista vazia quer dizer "nenhum resultado"; erro quer dizer "algo deu errado"
+ *    - Trocar o erro por [] esconde do usuário que o backend está fora do ar
+ *    - Todo erro vira um ErroApi (models/erros-api.ts), com o tipo já identificado
  * 
  * 4. Estrutura de dados da API SPTrans:
  *    - Linhas: array de objetos { c/cl: código, sl: sentido, ... }
  *    - Posições: { hr: horário, vs: [{ px: lng, py: lat, ta: hora, ... }] }
+ *    - Esses campos são convertidos em models/sptrans.decoders.ts para
+ *      Linha, Veiculo e PosicoesLinha (models/sptrans.model.ts)
  * 
  * 5. Como usar Async/Await:
  *    const linhas = await this.sptransService.buscarLinhas('8000').toPromise();
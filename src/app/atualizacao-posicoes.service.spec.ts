@@ -0,0 +1,180 @@
+import { PLATFORM_ID } from '@angular/core';
+import { TestBed, discardPeriodicTasks, fakeAsync, tick } from '@angular/core/testing';
+import { Subject, of, throwError } from 'rxjs';
+import { PosicoesTransmitidas, SptransService } from './app.service';
+import { AtualizacaoPosicoesService, ESPERA_MAXIMA_MS, calcularEspera } from './atualizacao-posicoes.service';
+import { Linha, LinhaComPosicoes, PosicoesLinha } from './models/sptrans.model';
+
+describe('AtualizacaoPosicoesService', () => {
+  let service: AtualizacaoPosicoesService;
+  let sptrans: jasmine.SpyObj<SptransService>;
+
+  const linha: Linha = {
+    codigo: 1273, letreiro: '8000-10', circular: false, sentido: 1,
+    terminalPrincipal: 'PCA.RAMOS DE AZEVEDO', terminalSecundario: 'TERMINAL LAPA', destino: 'TERMINAL LAPA'
+  };
+  const posicoes: PosicoesLinha = { horario: '10:00', referencia: null, veiculos: [], rejeitados: 0 };
+
+  beforeEach(() => {
+    sptrans = jasmine.createSpyObj<SptransService>('SptransService', ['buscarPosicoes']);
+    TestBed.configureTestingModule({
+      providers: [{ provide: SptransService, useValue: sptrans }]
+    });
+    service = TestBed.inject(AtualizacaoPosicoesService);
+  });
+
+  afterEach(() => service.parar());
+
+  it('calcula o backoff dobrando a espera a cada falha, até o máximo', () => {
+    expect(calcularEspera(10_000, 0)).toBe(10_000);
+    expect(calcularEspera(10_000, 1)).toBe(20_000);
+    expect(calcularEspera(10_000, 2)).toBe(40_000);
+    expect(calcularEspera(10_000, 10)).toBe(ESPERA_MAXIMA_MS);
+  });
+
+  it('busca as posições a cada intervalo', fakeAsync(() => {
+    sptrans.buscarPosicoes.and.returnValue(of(posicoes));
+    const recebidos: LinhaComPosicoes[][] = [];
+    service.atualizacoes$.subscribe(resultados => recebidos.push(resultados));
+
+    service.iniciar([linha], 10_000);
+    tick(9_999);
+    expect(sptrans.buscarPosicoes).not.toHaveBeenCalled();
+
+    tick(1);
+    tick(10_000);
+    expect(sptrans.buscarPosicoes).toHaveBeenCalledTimes(2);
+    expect(recebidos.length).toBe(2);
+    expect(recebidos[0][0].linha).toBe(linha);
+
+    service.parar();
+    discardPeriodicTasks();
+  }));
+
+  it('não busca enquanto está pausado e busca logo ao retomar', fakeAsync(() => {
+    sptrans.buscarPosicoes.and.returnValue(of(posicoes));
+
+    service.iniciar([linha], 10_000);
+    service.pausar();
+    tick(30_000);
+    expect(sptrans.buscarPosicoes).not.toHaveBeenCalled();
+
+    service.retomar();
+    tick(0);
+    expect(sptrans.buscarPosicoes).toHaveBeenCalledTimes(1);
+
+    service.parar();
+    discardPeriodicTasks();
+  }));
+
+  it('segue com as outras linhas quando só uma falha', fakeAsync(() => {
+    const outra: Linha = { ...linha, codigo: 34041, letreiro: '8000-10', sentido: 2 };
+    sptrans.buscarPosicoes.and.callFake(codigo =>
+      codigo === outra.codigo ? throwError(() => new Error('offline')) : of(posicoes));
+    const recebidos: LinhaComPosicoes[][] = [];
+    service.atualizacoes$.subscribe(resultados => recebidos.push(resultados));
+    const falhas: number[] = [];
+    service.estado$.subscribe(estado => falhas.push(estado.falhasConsecutivas));
+
+    service.iniciar([linha, outra], 10_000);
+    tick(10_000);
+    expect(recebidos.length).toBe(1);
+    expect(recebidos[0].map(r => r.linha)).toEqual([linha]);
+    expect(falhas[falhas.length - 1]).toBe(0);
+
+    service.parar();
+    discardPeriodicTasks();
+  }));
+
+  it('aumenta a espera quando as requisições falham', fakeAsync(() => {
+    sptrans.buscarPosicoes.and.returnValue(throwError(() => new Error('offline')));
+    const falhas: number[] = [];
+    service.estado$.subscribe(estado => falhas.push(estado.falhasConsecutivas));
+
+    service.iniciar([linha], 10_000);
+    tick(10_000);                 // 1ª falha
+    tick(19_999);                 // ainda esperando o backoff de 20 s
+    expect(sptrans.buscarPosicoes).toHaveBeenCalledTimes(1);
+
+    tick(1);                      // 2ª falha
+    expect(sptrans.buscarPosicoes).toHaveBeenCalledTimes(2);
+    expect(falhas[falhas.length - 1]).toBe(2);
+
+    service.parar();
+    discardPeriodicTasks();
+  }));
+});
+
+describe('AtualizacaoPosicoesService no navegador', () => {
+  let service: AtualizacaoPosicoesService;
+  let sptrans: jasmine.SpyObj<SptransService>;
+  let stream: Subject<PosicoesTransmitidas>;
+
+  const linha: Linha = {
+    codigo: 1273, letreiro: '8000-10', circular: false, sentido: 1,
+    terminalPrincipal: 'PCA.RAMOS DE AZEVEDO', terminalSecundario: 'TERMINAL LAPA', destino: 'TERMINAL LAPA'
+  };
+  const posicoes: PosicoesLinha = { horario: '10:00', referencia: null, veiculos: [], rejeitados: 0 };
+
+  beforeEach(() => {
+    stream = new Subject<PosicoesTransmitidas>();
+    sptrans = jasmine.createSpyObj<SptransService>('SptransService', ['buscarPosicoes', 'transmitirPosicoes']);
+    sptrans.transmitirPosicoes.and.returnValue(stream);
+    sptrans.buscarPosicoes.and.returnValue(of(posicoes));
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: SptransService, useValue: sptrans },
+        { provide: PLATFORM_ID, useValue: 'browser' }
+      ]
+    });
+    service = TestBed.inject(AtualizacaoPosicoesService);
+  });
+
+  afterEach(() => service.parar());
+
+  it('recebe as posições pelo stream, sem consultar', fakeAsync(() => {
+    const recebidos: LinhaComPosicoes[][] = [];
+    service.atualizacoes$.subscribe(resultados => recebidos.push(resultados));
+    let aoVivo = false;
+    service.estado$.subscribe(estado => aoVivo = estado.aoVivo);
+
+    service.iniciar([linha], 10_000);
+    stream.next({ codigoLinha: 1273, posicoes });
+    stream.next({ codigoLinha: 999, posicoes });
+    tick(30_000);
+
+    expect(sptrans.transmitirPosicoes).toHaveBeenCalledWith([1273]);
+    expect(sptrans.buscarPosicoes).not.toHaveBeenCalled();
+    expect(recebidos).toEqual([[{ linha, posicoes }]]);
+    expect(aoVivo).toBeTrue();
+  }));
+
+  it('volta a consultar a cada intervalo quando o stream cai', fakeAsync(() => {
+    service.iniciar([linha], 10_000);
+    stream.error(new Error('404'));
+    tick(0);
+    expect(sptrans.buscarPosicoes).toHaveBeenCalledTimes(1);
+
+    tick(10_000);
+    expect(sptrans.buscarPosicoes).toHaveBeenCalledTimes(2);
+
+    service.retomar();
+    expect(sptrans.transmitirPosicoes).toHaveBeenCalledTimes(1);
+
+    service.parar();
+    discardPeriodicTasks();
+  }));
+
+  it('tenta o stream de novo a cada novo acompanhamento', fakeAsync(() => {
+    service.iniciar([linha], 10_000);
+    stream.error(new Error('400'));
+    tick(0);
+    expect(sptrans.buscarPosicoes).toHaveBeenCalledTimes(1);
+
+    sptrans.transmitirPosicoes.and.returnValue(new Subject<PosicoesTransmitidas>());
+    service.iniciar([linha], 10_000);
+    tick(30_000);
+    expect(sptrans.transmitirPosicoes).toHaveBeenCalledTimes(2);
+    expect(sptrans.buscarPosicoes).toHaveBeenCalledTimes(1);
+  }));
+});
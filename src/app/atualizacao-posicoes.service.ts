@@ -0,0 +1,238 @@
+import { Inject, Injectable, OnDestroy, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { BehaviorSubject, EMPTY, Observable, Subject, Subscription, defer, forkJoin, of, timer } from 'rxjs';
+import { catchError, map, repeat, switchMap, tap } from 'rxjs/operators';
+import { SptransService } from './app.service';
+import { CONFIG_APP, ConfigApp } from './config/config-app';
+import { Linha, LinhaComPosicoes } from './models/sptrans.model';
+
+/** Espera máxima entre tentativas quando a API está falhando (ms) */
+export const ESPERA_MAXIMA_MS = 120_000;
+
+/**
+ * Situação atual da atualização automática (usada na info-bar)
+ */
+export interface EstadoAtualizacao {
+    ativo: boolean;                  // existem linhas sendo acompanhadas
+    pausado: boolean;
+    aoVivo: boolean;                 // recebendo pelo stream do servidor (sem intervalo)
+    intervaloMs: number;
+    falhasConsecutivas: number;
+    ultimaAtualizacao: Date | null;  // quando a última rodada deu certo
+    proximaEm: Date | null;          // quando a próxima rodada vai rodar
+}
+
+/**
+ * Calcula a espera até a próxima rodada.
+ * Sem falhas usa o intervalo normal; a cada falha consecutiva a espera dobra
+ * (backoff exponencial), limitada a `maximoMs`.
+ */
+export function calcularEspera(intervaloMs: number, falhas: number, maximoMs: number = ESPERA_MAXIMA_MS): number {
+    if (falhas <= 0) return intervaloMs;
+    return Math.min(intervaloMs * 2 ** falhas, Math.max(maximoMs, intervaloMs));
+}
+
+/**
+ * 🔄 ATUALIZAÇÃO AUTOMÁTICA DAS POSIÇÕES
+ *
+ * No navegador, recebe as posições das linhas acompanhadas pelo stream do
+ * servidor (SptransService.transmitirPosicoes), que só manda o que mudou.
+ * Sem stream, consulta periodicamente SptransService.buscarPosicoes.
+ * Os resultados saem em `atualizacoes$`.
+ *
+ * Exemplo de uso:
+ * ```
+ * this.atualizacao.atualizacoes$.subscribe(resultados => { ... });
+ * this.atualizacao.iniciar(linhas, 15000);
+ * this.atualizacao.pausar();
+ * this.atualizacao.retomar();
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class AtualizacaoPosicoesService implements OnDestroy {
+
+    private linhas: Linha[] = [];
+    private inscricao?: Subscription;
+    private readonly resultados = new Subject<LinhaComPosicoes[]>();
+    private readonly estado: BehaviorSubject<EstadoAtualizacao>;
+
+    /** Só no navegador existe EventSource */
+    private readonly streamDisponivel: boolean;
+
+    /** Passa a false se o stream falhar: até o próximo iniciar(), só consultas */
+    private usarStream: boolean;
+
+    /** Resultados de cada rodada bem-sucedida */
+    readonly atualizacoes$: Observable<LinhaComPosicoes[]> = this.resultados.asObservable();
+
+    /** Estado atual (ativo, pausado, falhas, próxima rodada...) */
+    readonly estado$: Observable<EstadoAtualizacao>;
+
+    constructor(
+        private sptransService: SptransService,
+        @Inject(CONFIG_APP) config: ConfigApp,
+        @Inject(PLATFORM_ID) platformId: Object
+    ) {
+        this.streamDisponivel = isPlatformBrowser(platformId);
+        this.usarStream = this.streamDisponivel;
+        this.estado = new BehaviorSubject<EstadoAtualizacao>({
+            ativo: false,
+            pausado: false,
+            aoVivo: false,
+            intervaloMs: config.intervaloAtualizacaoMs,
+            falhasConsecutivas: 0,
+            ultimaAtualizacao: null,
+            proximaEm: null
+        });
+        this.estado$ = this.estado.asObservable();
+    }
+
+    /**
+     * Começa a acompanhar as linhas. A primeira rodada acontece após um intervalo,
+     * já que quem chama normalmente acabou de buscar as posições
+     * (pelo stream, o servidor manda as posições assim que a conexão abre).
+     */
+    iniciar(linhas: Linha[], intervaloMs: number = this.estado.value.intervaloMs): void {
+        this.linhas = linhas;
+        // Cada acompanhamento tenta o stream de novo, mesmo que o anterior tenha caído
+        this.usarStream = this.streamDisponivel;
+        this.alterarEstado({ ativo: linhas.length > 0, pausado: false, intervaloMs, falhasConsecutivas: 0 });
+        this.agendar(intervaloMs);
+    }
+
+    /** Muda o intervalo sem perder as linhas acompanhadas (no stream, vale se ele cair) */
+    alterarIntervalo(intervaloMs: number): void {
+        this.alterarEstado({ intervaloMs });
+        if (this.estado.value.ativo && !this.estado.value.pausado && !this.usarStream) {
+            this.agendar(intervaloMs);
+        }
+    }
+
+    pausar(): void {
+        this.inscricao?.unsubscribe();
+        this.alterarEstado({ pausado: true, aoVivo: false, proximaEm: null });
+        console.log('⏸️ Atualização automática pausada');
+    }
+
+    /** Retoma imediatamente (sem esperar o intervalo) */
+    retomar(): void {
+        if (!this.estado.value.ativo) return;
+        this.alterarEstado({ pausado: false, falhasConsecutivas: 0 });
+        this.agendar(0);
+        console.log('▶️ Atualização automática retomada');
+    }
+
+    parar(): void {
+        this.inscricao?.unsubscribe();
+        this.linhas = [];
+        this.alterarEstado({ ativo: false, pausado: false, aoVivo: false, falhasConsecutivas: 0, proximaEm: null });
+    }
+
+    ngOnDestroy(): void {
+        this.parar();
+    }
+
+    // ========================================
+    // MÉTODOS INTERNOS
+    // ========================================
+
+    /**
+     * (Re)cria o ciclo: espera, busca, e repete com a espera calculada
+     * pelo número de falhas consecutivas.
+     */
+    private agendar(primeiraEsperaMs: number): void {
+        this.inscricao?.unsubscribe();
+        if (this.linhas.length === 0) return;
+        if (this.usarStream) {
+            this.transmitir();
+            return;
+        }
+
+        this.marcarProxima(primeiraEsperaMs);
+        this.inscricao = timer(primeiraEsperaMs).pipe(
+            switchMap(() => this.ciclo())
+        ).subscribe();
+    }
+
+    /**
+     * Cada mensagem do stream traz uma linha só. Se o stream cair de vez,
+     * volta às consultas com o intervalo atual, começando já.
+     */
+    private transmitir(): void {
+        const porCodigo = new Map(this.linhas.map(linha => [linha.codigo, linha]));
+        this.alterarEstado({ aoVivo: true, proximaEm: null });
+
+        this.inscricao = this.sptransService.transmitirPosicoes([...porCodigo.keys()]).subscribe({
+            next: ({ codigoLinha, posicoes }) => {
+                const linha = porCodigo.get(codigoLinha);
+                if (!linha) return;
+                this.alterarEstado({ falhasConsecutivas: 0, ultimaAtualizacao: new Date() });
+                this.resultados.next([{ linha, posicoes }]);
+            },
+            error: erro => {
+                console.warn('📡 Stream de posições indisponível, voltando a consultar a cada intervalo:', erro);
+                this.usarStream = false;
+                this.alterarEstado({ aoVivo: false });
+                this.agendar(0);
+            }
+        });
+    }
+
+    private ciclo(): Observable<LinhaComPosicoes[]> {
+        return defer(() => this.buscarRodada()).pipe(
+            tap(resultados => {
+                this.alterarEstado({ falhasConsecutivas: 0, ultimaAtualizacao: new Date() });
+                this.resultados.next(resultados);
+            }),
+            catchError(erro => {
+                const falhas = this.estado.value.falhasConsecutivas + 1;
+                console.error(`❌ Falha na atualização automática (${falhas}x seguidas):`, erro);
+                this.alterarEstado({ falhasConsecutivas: falhas });
+                return EMPTY;
+            }),
+            repeat({
+                delay: () => {
+                    const { intervaloMs, falhasConsecutivas } = this.estado.value;
+                    const espera = calcularEspera(intervaloMs, falhasConsecutivas);
+                    this.marcarProxima(espera);
+                    return timer(espera);
+                }
+            })
+        );
+    }
+
+    /**
+     * Uma linha que falha é deixada de fora da rodada (os marcadores dela ficam
+     * como estavam); a rodada só conta como falha se todas as linhas falharem.
+     */
+    private buscarRodada(): Observable<LinhaComPosicoes[]> {
+        console.log(`🔄 Atualizando posições de ${this.linhas.length} linha(s)...`);
+        let ultimoErro: unknown;
+
+        return forkJoin(
+            this.linhas.map(linha =>
+                this.sptransService.buscarPosicoes(linha.codigo).pipe(
+                    map((posicoes): LinhaComPosicoes | null => ({ linha, posicoes })),
+                    catchError(erro => {
+                        console.warn(`⚠️ Linha ${linha.letreiro} ficou de fora desta rodada:`, erro);
+                        ultimoErro = erro;
+                        return of(null);
+                    })
+                )
+            )
+        ).pipe(
+            map(resultados => resultados.filter((r): r is LinhaComPosicoes => r !== null)),
+            tap(resultados => {
+                if (resultados.length === 0) throw ultimoErro;
+            })
+        );
+    }
+
+    private marcarProxima(esperaMs: number): void {
+        this.alterarEstado({ proximaEm: new Date(Date.now() + esperaMs) });
+    }
+
+    private alterarEstado(parcial: Partial<EstadoAtualizacao>): void {
+        this.estado.next({ ...this.estado.value, ...parcial });
+    }
+}
@@ -0,0 +1,156 @@
+import { InjectionToken } from '@angular/core';
+import { environment } from '../../environments/environment';
+
+/** Intervalo mínimo da atualização automática (ms): abaixo disso o gateway limita as chamadas */
+export const INTERVALO_MINIMO_MS = 5_000;
+
+/**
+ * Posição inicial do mapa (quando a URL não traz outra)
+ */
+export interface CentroMapa {
+    lat: number;
+    lng: number;
+    zoom: number;
+}
+
+/**
+ * Servidor de tiles que pode ser escolhido como fundo do mapa
+ */
+export interface FonteTiles {
+    id: string;            // guardado nas preferências (ex: 'osm')
+    nome: string;          // nome no controle de camadas
+    url: string;           // modelo de URL do Leaflet, com {z}/{x}/{y}
+    atribuicao: string;    // crédito exibido no canto do mapa
+    maxZoom: number;
+}
+
+/** Fundos que sempre existem; a configuração pode acrescentar outros ou trocar estes (mesmo id) */
+export const FONTES_TILES_PADRAO: FonteTiles[] = [
+    {
+        id: 'osm',
+        nome: 'OpenStreetMap',
+        url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+        atribuicao: '© OpenStreetMap',
+        maxZoom: 18
+    },
+    {
+        id: 'escuro',
+        nome: 'CARTO Dark',
+        url: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png',
+        atribuicao: '© OpenStreetMap © CARTO',
+        maxZoom: 18
+    }
+];
+
+/**
+ * Configuração lida quando o app abre, sem precisar de um build novo
+ */
+export interface ConfigApp {
+    apiUrl: string;                    // base das chamadas à API (ex: '/api')
+    camadasBase: FonteTiles[];         // fundos do mapa oferecidos no controle de camadas
+    camadaBasePadrao: string;          // id do fundo usado enquanto o usuário não escolhe outro
+    intervaloAtualizacaoMs: number;    // intervalo padrão da atualização automática
+    centroMapa: CentroMapa;
+}
+
+export const CONFIG_PADRAO: ConfigApp = {
+    apiUrl: environment.apiUrl,
+    camadasBase: FONTES_TILES_PADRAO,
+    camadaBasePadrao: 'osm',
+    intervaloAtualizacaoMs: 15_000,
+    centroMapa: { lat: -23.55052, lng: -46.633308, zoom: 12 }   // centro de São Paulo
+};
+
+/**
+ * ⚙️ CONFIGURAÇÃO DO APP
+ *
+ * No navegador vem do /config.json (montado pelo server.ts a partir das
+ * variáveis de ambiente) e é carregada no main.ts antes do bootstrap; no
+ * servidor (SSR) é montada direto das variáveis de ambiente.
+ * Sem nenhuma das duas (ex: nos testes), vale CONFIG_PADRAO.
+ *
+ * Exemplo de uso:
+ * ```
+ * constructor(@Inject(CONFIG_APP) private config: ConfigApp) { }
+ * this.http.get(`${this.config.apiUrl}/linhas`);
+ * this.config.camadasBase.forEach(fonte => L.tileLayer(fonte.url));
+ * ```
+ */
+export const CONFIG_APP = new InjectionToken<ConfigApp>('CONFIG_APP', {
+    providedIn: 'root',
+    factory: () => CONFIG_PADRAO
+});
+
+/**
+ * Valida a configuração recebida; campos ausentes ou inválidos ficam com o padrão.
+ * As camadasBase recebidas entram depois dos fundos padrão (um id repetido substitui o padrão).
+ */
+export function lerConfigApp(bruto: unknown): ConfigApp {
+    const dados = comoObjeto(bruto);
+    const centro = comoObjeto(dados['centroMapa']);
+    const padrao = CONFIG_PADRAO.centroMapa;
+
+    const fontes = new Map(FONTES_TILES_PADRAO.map(fonte => [fonte.id, fonte]));
+    (Array.isArray(dados['camadasBase']) ? dados['camadasBase'] : []).forEach(item => {
+        const fonte = lerFonteTiles(item);
+        if (fonte) fontes.set(fonte.id, fonte);
+    });
+    const camadaBasePadrao = texto(dados['camadaBasePadrao']);
+
+    return {
+        apiUrl: texto(dados['apiUrl'])?.replace(/\/+$/, '') ?? CONFIG_PADRAO.apiUrl,
+        camadasBase: [...fontes.values()],
+        camadaBasePadrao: camadaBasePadrao && fontes.has(camadaBasePadrao) ? camadaBasePadrao : CONFIG_PADRAO.camadaBasePadrao,
+        intervaloAtualizacaoMs: numeroEntre(dados['intervaloAtualizacaoMs'], INTERVALO_MINIMO_MS, Infinity)
+            ?? CONFIG_PADRAO.intervaloAtualizacaoMs,
+        centroMapa: {
+            lat: numeroEntre(centro['lat'], -90, 90) ?? padrao.lat,
+            lng: numeroEntre(centro['lng'], -180, 180) ?? padrao.lng,
+            zoom: numeroEntre(centro['zoom'], 1, 18) ?? padrao.zoom
+        }
+    };
+}
+
+/**
+ * Busca o /config.json; se não vier (ex: `ng serve` ou sem conexão), usa o padrão
+ */
+export function carregarConfigApp(url: string = '/config.json'): Promise<ConfigApp> {
+    return fetch(url)
+        .then(resposta => resposta.ok ? resposta.json() : {})
+        .catch(erro => {
+            console.warn('⚠️ Não foi possível carregar a configuração, usando a padrão:', erro);
+            return {};
+        })
+        .then(lerConfigApp);
+}
+
+/**
+ * Fonte de tiles vinda da configuração; null se faltar id, nome ou URL
+ */
+function lerFonteTiles(bruto: unknown): FonteTiles | null {
+    const dados = comoObjeto(bruto);
+    const id = texto(dados['id']);
+    const nome = texto(dados['nome']);
+    const url = texto(dados['url']);
+    if (!id || !nome || !url) return null;
+
+    return {
+        id,
+        nome,
+        url,
+        atribuicao: texto(dados['atribuicao']) ?? '',
+        maxZoom: numeroEntre(dados['maxZoom'], 1, 22) ?? 18
+    };
+}
+
+function comoObjeto(valor: unknown): Record<string, unknown> {
+    return valor && typeof valor === 'object' && !Array.isArray(valor) ? valor as Record<string, unknown> : {};
+}
+
+function texto(valor: unknown): string | null {
+    return typeof valor === 'string' && valor.trim() !== '' ? valor.trim() : null;
+}
+
+function numeroEntre(valor: unknown, minimo: number, maximo: number): number | null {
+    return typeof valor === 'number' && Number.isFinite(valor) && valor >= minimo && valor <= maximo ? valor : null;
+}
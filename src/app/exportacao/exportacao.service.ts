@@ -0,0 +1,89 @@
+import { Inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { TracadoLinha } from '../models/sptrans.model';
+import { GravacaoService } from '../gravacao/gravacao.service';
+import {
+    FORMATOS_EXPORTACAO,
+    FormatoExportacao,
+    PosicoesExportadas,
+    RastroExportado,
+    nomeArquivoExportacao,
+    paraCsv,
+    paraGeoJson,
+    paraGpx
+} from './formatos-exportacao';
+
+/** Quanto tempo a URL do arquivo fica válida depois do clique no link (ms) */
+const ESPERA_REVOGAR_MS = 10_000;
+
+/**
+ * O que está no mapa no momento da exportação
+ */
+export interface DadosExportacao {
+    posicoes: PosicoesExportadas[];   // ônibus de cada linha
+    tracados: TracadoLinha[];
+    rastros: RastroExportado[];       // últimas posições de cada ônibus (HistoricoVeiculosService)
+}
+
+/**
+ * ⬇️ EXPORTAÇÃO DO MAPA
+ *
+ * Gera o arquivo no formato escolhido (ver formatos-exportacao.ts) e o baixa:
+ * - geojson: linhas e ônibus no mapa
+ * - csv: ônibus no mapa e tudo o que foi gravado (GravacaoService)
+ * - gpx: rastros dos ônibus no mapa
+ *
+ * Exemplo de uso:
+ * ```
+ * const arquivo = await this.exportacao.exportar('csv', { posicoes, tracados, rastros });
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class ExportacaoService {
+
+    private readonly isBrowser: boolean;
+
+    constructor(private gravacao: GravacaoService, @Inject(PLATFORM_ID) platformId: Object) {
+        this.isBrowser = isPlatformBrowser(platformId);
+    }
+
+    /**
+     * Monta e baixa o arquivo
+     * @returns nome do arquivo baixado
+     */
+    async exportar(formato: FormatoExportacao, dados: DadosExportacao, agora: Date = new Date()): Promise<string> {
+        const conteudo = await this.montar(formato, dados, agora);
+        const nome = nomeArquivoExportacao(formato, agora);
+        if (this.isBrowser) this.baixar(nome, conteudo, FORMATOS_EXPORTACAO[formato].tipoMime);
+        return nome;
+    }
+
+    private async montar(formato: FormatoExportacao, dados: DadosExportacao, agora: Date): Promise<string> {
+        switch (formato) {
+            case 'geojson':
+                return JSON.stringify(paraGeoJson(dados.posicoes, dados.tracados), null, 2);
+            case 'csv': {
+                const periodo = await this.gravacao.periodo();
+                const gravadas = periodo ? await this.gravacao.listar(periodo.inicio, periodo.fim) : [];
+                return paraCsv([...gravadas, ...dados.posicoes], agora);
+            }
+            case 'gpx':
+                return paraGpx(dados.rastros);
+        }
+    }
+
+    /**
+     * O link precisa estar no documento, e a URL só é revogada depois:
+     * alguns navegadores (Safari, Firefox antigo) começam o download depois do click()
+     */
+    private baixar(nome: string, conteudo: string, tipoMime: string): void {
+        const url = URL.createObjectURL(new Blob([conteudo], { type: tipoMime }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = nome;
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+        setTimeout(() => URL.revokeObjectURL(url), ESPERA_REVOGAR_MS);
+    }
+}
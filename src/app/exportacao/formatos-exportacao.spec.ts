@@ -0,0 +1,64 @@
+import { Linha, Veiculo } from '../models/sptrans.model';
+import {
+  PosicoesExportadas,
+  lerFormatoExportacao,
+  nomeArquivoExportacao,
+  paraCsv,
+  paraGeoJson,
+  paraGpx
+} from './formatos-exportacao';
+
+describe('formatos-exportacao', () => {
+  const agora = new Date('2024-05-10T13:00:00Z');
+  const linha: Linha = {
+    codigo: 1273, letreiro: '8000-10', circular: false, sentido: 1,
+    terminalPrincipal: 'PCA. RAMOS DE AZEVEDO', terminalSecundario: 'TERM. LAPA', destino: 'TERM. LAPA, "centro"'
+  };
+  const veiculo: Veiculo = {
+    prefixo: '11433', acessivel: true, lat: -23.55, lng: -46.63, atualizadoEm: new Date('2024-05-10T12:59:30Z')
+  };
+  const posicoes: PosicoesExportadas[] = [{ linha, veiculos: [veiculo] }];
+
+  it('gera GeoJSON com os traçados e os ônibus em [lng, lat]', () => {
+    const colecao = paraGeoJson(posicoes, [
+      { codigoLinha: 1273, pontos: [[-23.5, -46.6], [-23.6, -46.7]] },
+      { codigoLinha: 999, pontos: [[-23.5, -46.6], [-23.6, -46.7]] }
+    ]);
+
+    expect(colecao.features.length).toBe(2);
+    expect(colecao.features[0].geometry).toEqual({ type: 'LineString', coordinates: [[-46.6, -23.5], [-46.7, -23.6]] });
+    expect(colecao.features[1].geometry).toEqual({ type: 'Point', coordinates: [-46.63, -23.55] });
+    expect(colecao.features[1].properties).toEqual({
+      tipo: 'onibus', codigoLinha: 1273, letreiro: '8000-10', sentido: 1, destino: 'TERM. LAPA, "centro"',
+      prefixo: '11433', acessivel: true, atualizadoEm: '2024-05-10T12:59:30.000Z', capturadoEm: null
+    });
+  });
+
+  it('gera CSV com cabeçalho e campos escapados', () => {
+    const linhas = paraCsv([...posicoes, { linha, veiculos: [veiculo], capturadoEm: new Date('2024-05-10T07:00:00Z') }], agora)
+      .trimEnd().split('\r\n');
+
+    expect(linhas[0]).toBe('capturado_em,codigo_linha,letreiro,sentido,destino,prefixo,acessivel,atualizado_em,lat,lng');
+    expect(linhas[1]).toBe('2024-05-10T13:00:00.000Z,1273,8000-10,1,"TERM. LAPA, ""centro""",11433,true,2024-05-10T12:59:30.000Z,-23.55,-46.63');
+    expect(linhas[2]).toMatch(/^2024-05-10T07:00:00\.000Z,/);
+  });
+
+  it('gera GPX com um trajeto por ônibus', () => {
+    const gpx = paraGpx([
+      { prefixo: '11433', linha, pontos: [veiculo, { ...veiculo, lat: -23.56 }] },
+      { prefixo: 'vazio', linha, pontos: [] }
+    ]);
+
+    expect(gpx).toContain('<name>8000-10 - 11433</name>');
+    expect(gpx).toContain('<desc>8000-10 → TERM. LAPA, &quot;centro&quot;</desc>');
+    expect(gpx.match(/<trkpt /g)?.length).toBe(2);
+    expect(gpx.match(/<trk>/g)?.length).toBe(1);
+  });
+
+  it('lê o formato e monta o nome do arquivo', () => {
+    expect(lerFormatoExportacao('csv')).toBe('csv');
+    expect(lerFormatoExportacao('toString')).toBeNull();
+    expect(lerFormatoExportacao(undefined)).toBeNull();
+    expect(nomeArquivoExportacao('geojson', agora)).toBe('sptrans-2024-05-10T13-00-00.geojson');
+  });
+});
@@ -0,0 +1,175 @@
+import { Linha, TracadoLinha, Veiculo } from '../models/sptrans.model';
+
+/**
+ * ⬇️ FORMATOS DE EXPORTAÇÃO
+ *
+ * Transforma linhas, ônibus e rastros em arquivos que outros programas abrem:
+ * - GeoJSON: traçados (LineString) e ônibus (Point), para QGIS, geojson.io etc.
+ * - CSV: uma posição por linha, incluindo as posições gravadas (planilhas)
+ * - GPX: um trajeto por ônibus, com o horário de cada ponto (apps de GPS)
+ *
+ * Não depende do Angular: o server.ts usa as mesmas funções em /api/export.
+ */
+
+export type FormatoExportacao = 'geojson' | 'csv' | 'gpx';
+
+export const FORMATOS_EXPORTACAO: Record<FormatoExportacao, { extensao: string; tipoMime: string }> = {
+    geojson: { extensao: 'geojson', tipoMime: 'application/geo+json' },
+    csv: { extensao: 'csv', tipoMime: 'text/csv;charset=utf-8' },
+    gpx: { extensao: 'gpx', tipoMime: 'application/gpx+xml' }
+};
+
+/**
+ * Ônibus de uma linha em um momento (o formato de InstantaneoGravado serve direto)
+ */
+export interface PosicoesExportadas {
+    linha: Linha;
+    veiculos: Veiculo[];
+    capturadoEm?: Date;    // quando as posições foram recebidas (ausente: agora)
+}
+
+/**
+ * Posições de um ônibus em ordem, do mais antigo ao mais recente
+ */
+export interface RastroExportado {
+    prefixo: string;
+    linha: Linha;
+    pontos: Pick<Veiculo, 'lat' | 'lng' | 'atualizadoEm'>[];
+}
+
+type PropriedadesGeoJson = Record<string, string | number | boolean | null>;
+
+export interface FeicaoGeoJson {
+    type: 'Feature';
+    geometry:
+        | { type: 'Point'; coordinates: [number, number] }
+        | { type: 'LineString'; coordinates: [number, number][] };
+    properties: PropriedadesGeoJson;
+}
+
+export interface ColecaoGeoJson {
+    type: 'FeatureCollection';
+    features: FeicaoGeoJson[];
+}
+
+/** Colunas do CSV, na ordem */
+export const COLUNAS_CSV = [
+    'capturado_em', 'codigo_linha', 'letreiro', 'sentido', 'destino',
+    'prefixo', 'acessivel', 'atualizado_em', 'lat', 'lng'
+];
+
+/**
+ * Traçados e ônibus como FeatureCollection. GeoJSON usa [lng, lat], ao contrário do Leaflet.
+ */
+export function paraGeoJson(posicoes: PosicoesExportadas[], tracados: TracadoLinha[] = []): ColecaoGeoJson {
+    const linhas = new Map(posicoes.map(({ linha }) => [linha.codigo, linha]));
+
+    const features: FeicaoGeoJson[] = [
+        ...tracados
+            .filter(tracado => linhas.has(tracado.codigoLinha))
+            .map((tracado): FeicaoGeoJson => ({
+                type: 'Feature',
+                geometry: { type: 'LineString', coordinates: tracado.pontos.map(([lat, lng]) => [lng, lat]) },
+                properties: { tipo: 'linha', ...propriedadesDaLinha(linhas.get(tracado.codigoLinha)!) }
+            })),
+        ...posicoes.flatMap(({ linha, veiculos, capturadoEm }) => veiculos.map((veiculo): FeicaoGeoJson => ({
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates: [veiculo.lng, veiculo.lat] },
+            properties: {
+                tipo: 'onibus',
+                ...propriedadesDaLinha(linha),
+                prefixo: veiculo.prefixo,
+                acessivel: veiculo.acessivel,
+                atualizadoEm: veiculo.atualizadoEm.toISOString(),
+                capturadoEm: capturadoEm?.toISOString() ?? null
+            }
+        })))
+    ];
+
+    return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Uma posição por linha do arquivo, com cabeçalho (horários em ISO 8601, UTC)
+ * @param agora - vale como capturado_em das posições sem capturadoEm
+ */
+export function paraCsv(posicoes: PosicoesExportadas[], agora: Date = new Date()): string {
+    const linhas = posicoes.flatMap(({ linha, veiculos, capturadoEm }) => veiculos.map(veiculo => [
+        (capturadoEm ?? agora).toISOString(),
+        linha.codigo,
+        linha.letreiro,
+        linha.sentido,
+        linha.destino,
+        veiculo.prefixo,
+        veiculo.acessivel,
+        veiculo.atualizadoEm.toISOString(),
+        veiculo.lat,
+        veiculo.lng
+    ].map(campoCsv).join(',')));
+
+    return [COLUNAS_CSV.join(','), ...linhas].join('\r\n') + '\r\n';
+}
+
+/**
+ * Um <trk> por ônibus; rastros sem nenhum ponto ficam de fora
+ */
+export function paraGpx(rastros: RastroExportado[]): string {
+    const trajetos = rastros
+        .filter(rastro => rastro.pontos.length > 0)
+        .map(({ prefixo, linha, pontos }) => [
+            '  <trk>',
+            `    <name>${xml(`${linha.letreiro} - ${prefixo}`)}</name>`,
+            `    <desc>${xml(`${linha.letreiro} → ${linha.destino}`)}</desc>`,
+            '    <trkseg>',
+            ...pontos.map(ponto =>
+                `      <trkpt lat="${ponto.lat}" lon="${ponto.lng}"><time>${ponto.atualizadoEm.toISOString()}</time></trkpt>`),
+            '    </trkseg>',
+            '  </trk>'
+        ].join('\n'));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<gpx version="1.1" creator="SPTrans Olho Vivo" xmlns="http://www.topografix.com/GPX/1/1">',
+        ...trajetos,
+        '</gpx>',
+        ''
+    ].join('\n');
+}
+
+/**
+ * Nome do arquivo baixado, ex: 'sptrans-2024-05-10T13-00-00.csv'
+ */
+export function nomeArquivoExportacao(formato: FormatoExportacao, agora: Date = new Date()): string {
+    const data = agora.toISOString().slice(0, 19).replace(/:/g, '-');
+    return `sptrans-${data}.${FORMATOS_EXPORTACAO[formato].extensao}`;
+}
+
+/**
+ * Formato pedido na URL (?formato=csv); null se não for um dos conhecidos
+ */
+export function lerFormatoExportacao(valor: unknown): FormatoExportacao | null {
+    return typeof valor === 'string' && Object.keys(FORMATOS_EXPORTACAO).includes(valor) ? valor as FormatoExportacao : null;
+}
+
+function propriedadesDaLinha(linha: Linha): PropriedadesGeoJson {
+    return {
+        codigoLinha: linha.codigo,
+        letreiro: linha.letreiro,
+        sentido: linha.sentido,
+        destino: linha.destino
+    };
+}
+
+/** Campo entre aspas quando tem vírgula, aspas ou quebra de linha */
+function campoCsv(valor: string | number | boolean): string {
+    const texto = String(valor);
+    return /[",\r\n]/.test(texto) ? `"${texto.replace(/"/g, '""')}"` : texto;
+}
+
+function xml(texto: string): string {
+    return texto
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
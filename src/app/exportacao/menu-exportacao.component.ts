@@ -0,0 +1,68 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { TracadoLinha } from '../models/sptrans.model';
+import { NotificacaoService } from '../notificacoes/notificacao.service';
+import { ChaveMensagem } from '../i18n/mensagens.pt';
+import { TraducaoService } from '../i18n/traducao.service';
+import { TraduzirPipe } from '../i18n/traduzir.pipe';
+import { HistoricoVeiculosService } from '../veiculo/historico-veiculos.service';
+import { ExportacaoService } from './exportacao.service';
+import { FormatoExportacao, PosicoesExportadas } from './formatos-exportacao';
+
+/**
+ * ⬇️ MENU DE EXPORTAÇÃO
+ *
+ * Botão da barra de informações que abre a lista de formatos e baixa as
+ * linhas e os ônibus no mapa (e, no CSV, as posições gravadas) no formato
+ * escolhido. Os rastros vêm do HistoricoVeiculosService; quem monta e baixa
+ * o arquivo é o ExportacaoService.
+ */
+@Component({
+  selector: 'app-menu-exportacao',
+  imports: [CommonModule, TraduzirPipe],
+  templateUrl: './menu-exportacao.component.html',
+  styleUrl: './menu-exportacao.component.scss'
+})
+export class MenuExportacaoComponent {
+
+  /** Ônibus de cada linha no mapa */
+  @Input() onibus: PosicoesExportadas[] = [];
+  /** Traçados das linhas no mapa, por código da linha */
+  @Input() tracados: ReadonlyMap<number, TracadoLinha> = new Map();
+
+  aberto = false;
+  exportando = false;
+
+  /** Formatos na ordem do menu, com a descrição de cada um */
+  readonly formatos: { formato: FormatoExportacao; descricao: ChaveMensagem }[] = [
+    { formato: 'geojson', descricao: 'exportacao.geojson' },
+    { formato: 'csv', descricao: 'exportacao.csv' },
+    { formato: 'gpx', descricao: 'exportacao.gpx' }
+  ];
+
+  constructor(
+    private exportacao: ExportacaoService,
+    private historico: HistoricoVeiculosService,
+    private notificacoes: NotificacaoService,
+    private traducao: TraducaoService
+  ) { }
+
+  async escolher(formato: FormatoExportacao): Promise<void> {
+    this.aberto = false;
+    this.exportando = true;
+    try {
+      const arquivo = await this.exportacao.exportar(formato, {
+        posicoes: this.onibus,
+        tracados: [...this.tracados.values()],
+        rastros: this.onibus.flatMap(({ linha, veiculos }) =>
+          veiculos.map(({ prefixo }) => ({ prefixo, linha, pontos: this.historico.amostras(prefixo) })))
+      });
+      this.notificacoes.sucesso(this.traducao.traduzir('exportacao.concluida', { arquivo }));
+    } catch (erro) {
+      console.error('❌ Erro ao exportar:', erro);
+      this.notificacoes.erro(this.traducao.traduzir('exportacao.falhou', { erro: String(erro) }));
+    } finally {
+      this.exportando = false;
+    }
+  }
+}
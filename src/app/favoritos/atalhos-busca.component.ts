@@ -0,0 +1,91 @@
+import { Component, EventEmitter, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { NotificacaoService } from '../notificacoes/notificacao.service';
+import { DataLocalPipe } from '../i18n/data-local.pipe';
+import { TraducaoService } from '../i18n/traducao.service';
+import { TraduzirPipe } from '../i18n/traduzir.pipe';
+import { BuscaRecente, ErroImportacao, Favorito, FavoritosService, ModoBusca } from './favoritos.service';
+
+/**
+ * Busca a repetir, escolhida em um atalho
+ */
+export interface AtalhoBusca {
+  modo: ModoBusca;
+  termo: string;
+}
+
+/**
+ * ⭐ ATALHOS DE BUSCA
+ *
+ * Lista de favoritos e buscas recentes embaixo do campo de busca:
+ * um toque repete a busca (ou abre a parada favorita).
+ * Também exporta e importa os favoritos como JSON.
+ */
+@Component({
+  selector: 'app-atalhos-busca',
+  imports: [CommonModule, TraduzirPipe, DataLocalPipe],
+  templateUrl: './atalhos-busca.component.html',
+  styleUrl: './atalhos-busca.component.scss'
+})
+export class AtalhosBuscaComponent {
+
+  @Output() buscar = new EventEmitter<AtalhoBusca>();
+  @Output() abrirParada = new EventEmitter<number>();
+
+  constructor(
+    public favoritos: FavoritosService,
+    private notificacoes: NotificacaoService,
+    private traducao: TraducaoService
+  ) { }
+
+  escolherFavorito(favorito: Favorito): void {
+    if (favorito.tipo === 'parada') {
+      this.abrirParada.emit(Number(favorito.codigo));
+    } else {
+      this.buscar.emit({ modo: 'linhas', termo: favorito.codigo });
+    }
+  }
+
+  escolherRecente(recente: BuscaRecente): void {
+    this.buscar.emit({ modo: recente.modo, termo: recente.termo });
+  }
+
+  /**
+   * Baixa os favoritos como arquivo .json
+   */
+  exportar(): void {
+    const arquivo = new Blob([this.favoritos.exportar()], { type: 'application/json' });
+    const url = URL.createObjectURL(arquivo);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'favoritos-sptrans.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Lê o .json escolhido no <input type="file">
+   */
+  async importar(evento: Event): Promise<void> {
+    const input = evento.target as HTMLInputElement;
+    const arquivo = input.files?.[0];
+    input.value = '';   // permite escolher o mesmo arquivo de novo
+    if (!arquivo) return;
+
+    try {
+      const adicionados = this.favoritos.importar(await arquivo.text());
+      this.notificacoes.sucesso(adicionados > 0
+        ? this.traducao.traduzir('atalhos.importados', { total: adicionados })
+        : this.traducao.traduzir('atalhos.nenhumNovo'));
+    } catch (erro) {
+      const mensagem = erro instanceof ErroImportacao
+        ? this.traducao.traduzir(`importacao.${erro.motivo}`)
+        : this.traducao.traduzir('atalhos.falhaLer');
+      this.notificacoes.erro(mensagem, { titulo: this.traducao.traduzir('atalhos.importarTitulo') });
+    }
+  }
+
+  identificarFavorito(_: number, favorito: Favorito): string {
+    return `${favorito.tipo}:${favorito.codigo}`;
+  }
+}
@@ -0,0 +1,65 @@
+import { injetarNaPlataforma } from '../testing/plataforma';
+import { ErroImportacao, FavoritosService, MAXIMO_RECENTES } from './favoritos.service';
+
+describe('FavoritosService', () => {
+
+  beforeEach(() => {
+    localStorage.removeItem('sptrans.favoritos');
+    localStorage.removeItem('sptrans.buscas-recentes');
+  });
+
+  it('guarda favoritos e buscas recentes entre recarregamentos', () => {
+    const service = injetarNaPlataforma(FavoritosService, 'browser');
+    service.alternarFavorito('linha', '8000', '8000-10');
+    service.alternarFavorito('parada', '4200953', 'PARADA ROBERTO SELMI DEI');
+    service.registrarBusca('linhas', '8000');
+
+    const recarregado = new FavoritosService('browser');
+    expect(recarregado.ehFavorito('linha', '8000')).toBeTrue();
+    expect(recarregado.ehFavorito('parada', '4200953')).toBeTrue();
+
+    let recentes: string[] = [];
+    recarregado.recentes$.subscribe(lista => recentes = lista.map(r => r.termo));
+    expect(recentes).toEqual(['8000']);
+
+    expect(recarregado.alternarFavorito('linha', '8000', '8000-10')).toBeFalse();
+    expect(new FavoritosService('browser').ehFavorito('linha', '8000')).toBeFalse();
+  });
+
+  it('põe a busca repetida no topo e limita a quantidade', () => {
+    const service = injetarNaPlataforma(FavoritosService, 'browser');
+    for (let i = 0; i < MAXIMO_RECENTES + 3; i++) service.registrarBusca('linhas', `linha ${i}`);
+    service.registrarBusca('linhas', 'LINHA 5');
+
+    let recentes: string[] = [];
+    service.recentes$.subscribe(lista => recentes = lista.map(r => r.termo));
+    expect(recentes.length).toBe(MAXIMO_RECENTES);
+    expect(recentes[0]).toBe('LINHA 5');
+    expect(recentes.filter(termo => termo.toLowerCase() === 'linha 5').length).toBe(1);
+  });
+
+  it('exporta e importa favoritos sem repetir os que já existem', () => {
+    const origem = injetarNaPlataforma(FavoritosService, 'browser');
+    origem.alternarFavorito('linha', '8000', '8000-10');
+    origem.alternarFavorito('parada', '4200953', 'PARADA ROBERTO SELMI DEI');
+    const json = origem.exportar();
+
+    localStorage.removeItem('sptrans.favoritos');
+    const destino = new FavoritosService('browser');
+    destino.alternarFavorito('linha', '8000', '8000-10');
+
+    expect(destino.importar(json)).toBe(1);
+    expect(destino.ehFavorito('parada', '4200953')).toBeTrue();
+    expect(() => destino.importar('não é json')).toThrowError(ErroImportacao);
+    expect(() => destino.importar('{"favoritos": [{"tipo": "x"}]}')).toThrowError(ErroImportacao);
+  });
+
+  it('não usa o localStorage no servidor (SSR)', () => {
+    localStorage.setItem('sptrans.favoritos', JSON.stringify([{ tipo: 'linha', codigo: '8000', nome: '8000', criadoEm: 1 }]));
+    const service = injetarNaPlataforma(FavoritosService, 'server');
+
+    expect(service.ehFavorito('linha', '8000')).toBeFalse();
+    service.registrarBusca('linhas', '8000');
+    expect(localStorage.getItem('sptrans.buscas-recentes')).toBeNull();
+  });
+});
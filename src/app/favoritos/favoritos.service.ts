@@ -0,0 +1,214 @@
+import { Inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { BehaviorSubject, Observable } from 'rxjs';
+
+/** Quantas buscas recentes ficam guardadas */
+export const MAXIMO_RECENTES = 8;
+
+/** Chaves no localStorage */
+const CHAVE_FAVORITOS = 'sptrans.favoritos';
+const CHAVE_RECENTES = 'sptrans.buscas-recentes';
+
+/** Versão do arquivo de exportação (para mudanças futuras no formato) */
+const VERSAO_EXPORTACAO = 1;
+
+export type TipoFavorito = 'linha' | 'parada';
+export type ModoBusca = 'linhas' | 'paradas';
+
+/**
+ * Linha (termo da busca, ex: '8000') ou parada (código) marcada com ⭐
+ */
+export interface Favorito {
+    tipo: TipoFavorito;
+    codigo: string;
+    nome: string;        // texto do botão, ex: '8000-10' ou 'PARADA ROBERTO SELMI DEI'
+    criadoEm: number;    // timestamp (ms)
+}
+
+export interface BuscaRecente {
+    modo: ModoBusca;
+    termo: string;
+    feitaEm: number;     // timestamp (ms)
+}
+
+/**
+ * json-invalido - o texto não é JSON
+ * sem-lista     - o JSON não tem a lista de favoritos
+ * sem-favoritos - a lista não tem nenhum favorito válido
+ */
+export type MotivoErroImportacao = 'json-invalido' | 'sem-lista' | 'sem-favoritos';
+
+const MENSAGENS_IMPORTACAO: Record<MotivoErroImportacao, string> = {
+    'json-invalido': 'O arquivo não é um JSON válido',
+    'sem-lista': 'O arquivo não tem uma lista de favoritos',
+    'sem-favoritos': 'Nenhum favorito válido no arquivo'
+};
+
+/**
+ * O arquivo JSON importado não tem o formato esperado
+ */
+export class ErroImportacao extends Error {
+    constructor(readonly motivo: MotivoErroImportacao) {
+        super(MENSAGENS_IMPORTACAO[motivo]);
+        this.name = 'ErroImportacao';
+    }
+}
+
+/**
+ * ⭐ FAVORITOS E BUSCAS RECENTES
+ *
+ * Guarda no localStorage as linhas e paradas favoritas e as últimas buscas,
+ * para o usuário repetir com um toque o que consulta todo dia.
+ * No servidor (SSR) não há localStorage: as listas ficam vazias e nada é gravado.
+ *
+ * Exemplo de uso:
+ * ```
+ * this.favoritos.registrarBusca('linhas', '8000');
+ * this.favoritos.alternarFavorito('parada', '4200953', 'PARADA ROBERTO SELMI DEI');
+ * const json = this.favoritos.exportar();
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class FavoritosService {
+
+    private readonly isBrowser: boolean;
+    private readonly favoritos: BehaviorSubject<Favorito[]>;
+    private readonly recentes: BehaviorSubject<BuscaRecente[]>;
+
+    /** Favoritos na ordem em que foram marcados */
+    readonly favoritos$: Observable<Favorito[]>;
+
+    /** Buscas recentes, da mais nova para a mais antiga */
+    readonly recentes$: Observable<BuscaRecente[]>;
+
+    constructor(@Inject(PLATFORM_ID) platformId: Object) {
+        this.isBrowser = isPlatformBrowser(platformId);
+        this.favoritos = new BehaviorSubject(this.ler(CHAVE_FAVORITOS, ehFavorito));
+        this.recentes = new BehaviorSubject(this.ler(CHAVE_RECENTES, ehBuscaRecente));
+        this.favoritos$ = this.favoritos.asObservable();
+        this.recentes$ = this.recentes.asObservable();
+    }
+
+    ehFavorito(tipo: TipoFavorito, codigo: string): boolean {
+        return this.favoritos.value.some(f => f.tipo === tipo && f.codigo === codigo);
+    }
+
+    /**
+     * Marca ou desmarca um favorito
+     * @returns true se ficou marcado
+     */
+    alternarFavorito(tipo: TipoFavorito, codigo: string, nome: string): boolean {
+        if (this.ehFavorito(tipo, codigo)) {
+            this.salvarFavoritos(this.favoritos.value.filter(f => !(f.tipo === tipo && f.codigo === codigo)));
+            return false;
+        }
+
+        this.salvarFavoritos([...this.favoritos.value, { tipo, codigo, nome, criadoEm: Date.now() }]);
+        return true;
+    }
+
+    /**
+     * Coloca a busca no topo das recentes (sem repetir o mesmo termo)
+     */
+    registrarBusca(modo: ModoBusca, termo: string): void {
+        const limpo = termo.trim();
+        if (!limpo) return;
+
+        const outras = this.recentes.value.filter(r => !(r.modo === modo && r.termo.toLowerCase() === limpo.toLowerCase()));
+        const lista = [{ modo, termo: limpo, feitaEm: Date.now() }, ...outras].slice(0, MAXIMO_RECENTES);
+        this.recentes.next(lista);
+        this.gravar(CHAVE_RECENTES, lista);
+    }
+
+    limparRecentes(): void {
+        this.recentes.next([]);
+        this.gravar(CHAVE_RECENTES, []);
+    }
+
+    /**
+     * Favoritos em JSON, para guardar em arquivo ou levar para outro aparelho
+     */
+    exportar(): string {
+        return JSON.stringify({
+            versao: VERSAO_EXPORTACAO,
+            exportadoEm: new Date().toISOString(),
+            favoritos: this.favoritos.value
+        }, null, 2);
+    }
+
+    /**
+     * Junta aos favoritos os de um JSON gerado por exportar() (os repetidos são ignorados)
+     * @returns Quantos favoritos novos foram adicionados
+     * @throws ErroImportacao se o texto não for um arquivo de favoritos
+     */
+    importar(texto: string): number {
+        let dados: unknown;
+        try {
+            dados = JSON.parse(texto);
+        } catch {
+            throw new ErroImportacao('json-invalido');
+        }
+
+        const lista = Array.isArray(dados) ? dados : (dados as { favoritos?: unknown } | null)?.favoritos;
+        if (!Array.isArray(lista)) {
+            throw new ErroImportacao('sem-lista');
+        }
+
+        const validos = lista.filter(ehFavorito);
+        if (lista.length > 0 && validos.length === 0) {
+            throw new ErroImportacao('sem-favoritos');
+        }
+
+        const novos = validos.filter((favorito, indice) =>
+            !this.ehFavorito(favorito.tipo, favorito.codigo) &&
+            validos.findIndex(f => f.tipo === favorito.tipo && f.codigo === favorito.codigo) === indice
+        );
+
+        if (novos.length > 0) {
+            this.salvarFavoritos([...this.favoritos.value, ...novos]);
+        }
+        return novos.length;
+    }
+
+    private salvarFavoritos(lista: Favorito[]): void {
+        this.favoritos.next(lista);
+        this.gravar(CHAVE_FAVORITOS, lista);
+    }
+
+    /**
+     * Lê uma lista do localStorage, descartando itens inválidos (ex: gravados por uma versão antiga)
+     */
+    private ler<T>(chave: string, valido: (item: unknown) => item is T): T[] {
+        if (!this.isBrowser) return [];
+        try {
+            const dados: unknown = JSON.parse(localStorage.getItem(chave) ?? '[]');
+            return Array.isArray(dados) ? dados.filter(valido) : [];
+        } catch (erro) {
+            console.warn(`⚠️ Não foi possível ler ${chave} do localStorage:`, erro);
+            return [];
+        }
+    }
+
+    private gravar(chave: string, lista: unknown[]): void {
+        if (!this.isBrowser) return;
+        try {
+            localStorage.setItem(chave, JSON.stringify(lista));
+        } catch (erro) {
+            // Navegação privada ou cota cheia: as listas continuam valendo até recarregar a página
+            console.warn(`⚠️ Não foi possível gravar ${chave} no localStorage:`, erro);
+        }
+    }
+}
+
+function ehFavorito(item: unknown): item is Favorito {
+    const f = item as Favorito | null;
+    return !!f && (f.tipo === 'linha' || f.tipo === 'parada') &&
+        typeof f.codigo === 'string' && f.codigo.length > 0 &&
+        typeof f.nome === 'string' && typeof f.criadoEm === 'number';
+}
+
+function ehBuscaRecente(item: unknown): item is BuscaRecente {
+    const r = item as BuscaRecente | null;
+    return !!r && (r.modo === 'linhas' || r.modo === 'paradas') &&
+        typeof r.termo === 'string' && typeof r.feitaEm === 'number';
+}
@@ -0,0 +1,57 @@
+import { Component, Input, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { Linha } from '../models/sptrans.model';
+import { NotificacaoService } from '../notificacoes/notificacao.service';
+import { TraducaoService } from '../i18n/traducao.service';
+import { TraduzirPipe } from '../i18n/traduzir.pipe';
+import { GravacaoService } from './gravacao.service';
+
+/**
+ * ⏺️ CONTROLES DA GRAVAÇÃO
+ *
+ * Botão da barra de informações que liga a gravação das linhas no mapa
+ * (ou desliga a que estiver em andamento), e o aviso de quantas linhas
+ * estão sendo gravadas. Quem guarda as posições é o GravacaoService.
+ */
+@Component({
+  selector: 'app-controles-gravacao',
+  imports: [CommonModule, TraduzirPipe],
+  templateUrl: './controles-gravacao.component.html',
+  styleUrl: './controles-gravacao.component.scss'
+})
+export class ControlesGravacaoComponent implements OnInit, OnDestroy {
+
+  /** Linhas que passam a ser gravadas ao ligar */
+  @Input() linhas: Linha[] = [];
+
+  linhasGravando: Linha[] = [];
+
+  private inscricao?: Subscription;
+
+  constructor(
+    private gravacao: GravacaoService,
+    private notificacoes: NotificacaoService,
+    private traducao: TraducaoService
+  ) { }
+
+  ngOnInit(): void {
+    this.inscricao = this.gravacao.linhas$.subscribe(linhas => this.linhasGravando = linhas);
+  }
+
+  ngOnDestroy(): void {
+    this.inscricao?.unsubscribe();
+  }
+
+  alternar(): void {
+    if (this.gravacao.gravando) {
+      this.gravacao.parar();
+      this.notificacoes.info(this.traducao.traduzir('gravacao.parada'));
+      return;
+    }
+    this.gravacao.iniciar(this.linhas);
+    this.notificacoes.info(this.traducao.traduzir('gravacao.iniciada', {
+      letreiros: this.linhas.map(linha => linha.letreiro).join(', ')
+    }));
+  }
+}
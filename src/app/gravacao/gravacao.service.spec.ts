@@ -0,0 +1,53 @@
+import { Linha, PosicoesLinha, Veiculo } from '../models/sptrans.model';
+import { injetarNaPlataforma } from '../testing/plataforma';
+import { GravacaoService } from './gravacao.service';
+
+describe('GravacaoService', () => {
+  let service: GravacaoService;
+
+  const agora = Date.now();
+  const linha = (codigo: number): Linha => ({
+    codigo, letreiro: `${codigo}-10`, circular: false, sentido: 1,
+    terminalPrincipal: 'A', terminalSecundario: 'B', destino: 'B'
+  });
+  const veiculo = (prefixo: string, segundos: number, lat = -23.55): Veiculo =>
+    ({ prefixo, acessivel: false, lat, lng: -46.63, atualizadoEm: new Date(agora + segundos * 1000) });
+  const posicoes = (...veiculos: Veiculo[]): PosicoesLinha =>
+    ({ horario: '07:00', referencia: null, veiculos, rejeitados: 0 });
+  const capturadas = async () =>
+    (await service.listar(new Date(agora - 60_000), new Date(agora + 60_000))).map(i => i.veiculos.map(v => v.prefixo));
+
+  beforeEach(async () => {
+    service = injetarNaPlataforma(GravacaoService, 'browser');
+    await service.apagarTudo();
+  });
+
+  it('guarda cada resposta com posições novas, mesmo dentro do mesmo minuto', async () => {
+    service.iniciar([linha(1273)]);
+    service.registrar(linha(1273), posicoes(veiculo('A', 0)), new Date(agora));
+    service.registrar(linha(1273), posicoes(veiculo('A', 15, -23.56)), new Date(agora + 15_000));
+    service.registrar(linha(1273), posicoes(veiculo('A', 15, -23.56), veiculo('B', 20)), new Date(agora + 30_000));
+
+    expect(await capturadas()).toEqual([['A'], ['A'], ['A', 'B']]);
+  });
+
+  it('ignora a resposta repetida e as linhas fora da gravação', async () => {
+    service.iniciar([linha(1273)]);
+    service.registrar(linha(1273), posicoes(veiculo('A', 0), veiculo('B', 5)), new Date(agora));
+    service.registrar(linha(1273), posicoes(veiculo('B', 5), veiculo('A', 0)), new Date(agora + 10_000));
+    service.registrar(linha(34041), posicoes(veiculo('X', 0)), new Date(agora + 20_000));
+
+    expect(await capturadas()).toEqual([['A', 'B']]);
+  });
+
+  it('volta a gravar a mesma resposta depois de parar e iniciar de novo', async () => {
+    service.iniciar([linha(1273)]);
+    service.registrar(linha(1273), posicoes(veiculo('A', 0)), new Date(agora));
+    service.parar();
+    service.registrar(linha(1273), posicoes(veiculo('A', 0)), new Date(agora + 10_000));
+    service.iniciar([linha(1273)]);
+    service.registrar(linha(1273), posicoes(veiculo('A', 0)), new Date(agora + 20_000));
+
+    expect(await capturadas()).toEqual([['A'], ['A']]);
+  });
+});
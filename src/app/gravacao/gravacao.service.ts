@@ -0,0 +1,194 @@
+import { Inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { Linha, PosicoesLinha, Veiculo } from '../models/sptrans.model';
+
+/** Por quanto tempo os instantâneos ficam guardados (os mais antigos são apagados ao abrir o app) */
+export const RETENCAO_GRAVACAO_MS = 7 * 24 * 60 * 60_000;
+
+const BANCO = 'sptrans-gravacoes';
+const VERSAO_BANCO = 1;
+const INSTANTANEOS = 'instantaneos';
+
+/**
+ * Posições de uma linha em um momento, como foram recebidas de /Posicao/Linha
+ */
+export interface InstantaneoGravado {
+    linha: Linha;
+    capturadoEm: Date;      // quando a resposta chegou (índice do banco)
+    horario: string;        // hr da resposta
+    veiculos: Veiculo[];
+}
+
+/**
+ * Identifica o conteúdo de uma resposta: prefixo, horário da captura e posição de cada veículo.
+ * O hr da resposta não serve, porque só tem minutos e há várias respostas por minuto.
+ */
+function assinatura(veiculos: Veiculo[]): string {
+    return veiculos
+        .map(({ prefixo, atualizadoEm, lat, lng }) => `${prefixo}@${atualizadoEm.getTime()}:${lat},${lng}`)
+        .sort()
+        .join('|');
+}
+
+/**
+ * Primeiro e último instantâneo guardados
+ */
+export interface PeriodoGravado {
+    inicio: Date;
+    fim: Date;
+}
+
+/**
+ * ⏺️ GRAVAÇÃO DAS POSIÇÕES
+ *
+ * Enquanto ligada para uma ou mais linhas, guarda no IndexedDB do navegador
+ * cada resposta nova de posições dessas linhas, para depois reproduzir um
+ * período no mapa (ex: conferir se o 8000 passou às 7h).
+ * A gravação só acontece com o app aberto e a atualização automática ligada.
+ * No servidor (SSR) nada é lido nem gravado.
+ *
+ * Exemplo de uso:
+ * ```
+ * this.gravacao.iniciar(linhas);
+ * this.gravacao.registrar(linha, posicoes);   // a cada resposta; ignora as linhas fora da gravação
+ * const instantaneos = await this.gravacao.listar(de, ate);
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class GravacaoService {
+
+    private readonly isBrowser: boolean;
+    private banco: Promise<IDBDatabase> | null = null;
+    private readonly linhas = new BehaviorSubject<Linha[]>([]);
+    private readonly ultimaAssinatura = new Map<number, string>();   // conteúdo do último instantâneo de cada linha
+
+    /** Linhas sendo gravadas agora */
+    readonly linhas$: Observable<Linha[]> = this.linhas.asObservable();
+
+    constructor(@Inject(PLATFORM_ID) platformId: Object) {
+        this.isBrowser = isPlatformBrowser(platformId) && typeof indexedDB !== 'undefined';
+    }
+
+    get gravando(): boolean {
+        return this.linhas.value.length > 0;
+    }
+
+    /**
+     * Começa a gravar as linhas (somadas às que já estão sendo gravadas)
+     */
+    iniciar(linhas: Linha[]): void {
+        if (!this.isBrowser) return;
+        const porCodigo = new Map(this.linhas.value.map(linha => [linha.codigo, linha]));
+        linhas.forEach(linha => porCodigo.set(linha.codigo, linha));
+        this.linhas.next([...porCodigo.values()]);
+        this.apagarAntigos();
+    }
+
+    parar(): void {
+        this.linhas.next([]);
+        this.ultimaAssinatura.clear();
+    }
+
+    /**
+     * Guarda as posições se a linha estiver sendo gravada e a resposta for nova
+     * (algum veículo com posição diferente da última resposta guardada)
+     */
+    registrar(linha: Linha, posicoes: PosicoesLinha, agora: Date = new Date()): void {
+        if (!this.linhas.value.some(gravada => gravada.codigo === linha.codigo)) return;
+        const conteudo = assinatura(posicoes.veiculos);
+        if (this.ultimaAssinatura.get(linha.codigo) === conteudo) return;
+        this.ultimaAssinatura.set(linha.codigo, conteudo);
+
+        const instantaneo: InstantaneoGravado = {
+            linha,
+            capturadoEm: agora,
+            horario: posicoes.horario,
+            veiculos: posicoes.veiculos
+        };
+        this.transacao('readwrite', loja => loja.add(instantaneo))
+            .catch(erro => console.warn('⚠️ Não foi possível gravar as posições:', erro));
+    }
+
+    /**
+     * Instantâneos capturados entre `de` e `ate`, em ordem de captura
+     */
+    listar(de: Date, ate: Date): Promise<InstantaneoGravado[]> {
+        if (!this.isBrowser) return Promise.resolve([]);
+        return this.transacao('readonly', loja =>
+            loja.index('capturadoEm').getAll(IDBKeyRange.bound(de, ate)) as IDBRequest<InstantaneoGravado[]>
+        );
+    }
+
+    /**
+     * Período coberto pelos instantâneos guardados; null se não houver nenhum
+     */
+    async periodo(): Promise<PeriodoGravado | null> {
+        if (!this.isBrowser) return null;
+        const [inicio, fim] = await Promise.all([this.pontaDoPeriodo('next'), this.pontaDoPeriodo('prev')]);
+        return inicio && fim ? { inicio, fim } : null;
+    }
+
+    /**
+     * Apaga tudo o que foi gravado
+     */
+    apagarTudo(): Promise<void> {
+        if (!this.isBrowser) return Promise.resolve();
+        return this.transacao('readwrite', loja => loja.clear());
+    }
+
+    /**
+     * Remove os instantâneos mais velhos que RETENCAO_GRAVACAO_MS
+     */
+    private apagarAntigos(agora: Date = new Date()): void {
+        const limite = IDBKeyRange.upperBound(new Date(agora.getTime() - RETENCAO_GRAVACAO_MS));
+        this.transacao('readwrite', loja => loja.index('capturadoEm').openCursor(limite), cursor => {
+            cursor?.delete();
+            cursor?.continue();
+        }).catch(erro => console.warn('⚠️ Não foi possível apagar as gravações antigas:', erro));
+    }
+
+    /**
+     * Data do primeiro ('next') ou do último ('prev') instantâneo
+     */
+    private async pontaDoPeriodo(direcao: IDBCursorDirection): Promise<Date | null> {
+        let capturadoEm: Date | null = null;
+        await this.transacao('readonly', loja => loja.index('capturadoEm').openCursor(null, direcao), cursor => {
+            capturadoEm = (cursor?.value as InstantaneoGravado | undefined)?.capturadoEm ?? null;
+        });
+        return capturadoEm;
+    }
+
+    /**
+     * Abre uma transação na loja de instantâneos e resolve com o resultado da requisição
+     * @param aCadaResultado - chamado a cada sucesso (cursores disparam um por item)
+     */
+    private async transacao<T>(
+        modo: IDBTransactionMode,
+        requisicao: (loja: IDBObjectStore) => IDBRequest<T>,
+        aCadaResultado?: (resultado: T) => void
+    ): Promise<T> {
+        const banco = await this.abrirBanco();
+        return new Promise<T>((resolve, reject) => {
+            const transacao = banco.transaction(INSTANTANEOS, modo);
+            const pedido = requisicao(transacao.objectStore(INSTANTANEOS));
+            pedido.onsuccess = () => aCadaResultado?.(pedido.result);
+            pedido.onerror = () => reject(pedido.error);
+            transacao.oncomplete = () => resolve(pedido.result);
+            transacao.onabort = () => reject(transacao.error);
+        });
+    }
+
+    private abrirBanco(): Promise<IDBDatabase> {
+        this.banco ??= new Promise((resolve, reject) => {
+            const pedido = indexedDB.open(BANCO, VERSAO_BANCO);
+            pedido.onupgradeneeded = () => {
+                const loja = pedido.result.createObjectStore(INSTANTANEOS, { autoIncrement: true });
+                loja.createIndex('capturadoEm', 'capturadoEm');
+            };
+            pedido.onsuccess = () => resolve(pedido.result);
+            pedido.onerror = () => reject(pedido.error);
+        });
+        return this.banco;
+    }
+}
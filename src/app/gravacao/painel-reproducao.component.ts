@@ -0,0 +1,141 @@
+import { Component, EventEmitter, OnDestroy, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription, interval } from 'rxjs';
+import { DataLocalPipe } from '../i18n/data-local.pipe';
+import { TraducaoService } from '../i18n/traducao.service';
+import { TraduzirPipe } from '../i18n/traduzir.pipe';
+import { GravacaoService, InstantaneoGravado, PeriodoGravado } from './gravacao.service';
+import {
+  QuadroReproducao,
+  VELOCIDADES_REPRODUCAO,
+  lerCampoDataHora,
+  paraCampoDataHora,
+  quadroNoInstante
+} from './reproducao';
+
+/** Intervalo entre dois quadros durante a reprodução (ms) */
+const PASSO_MS = 250;
+
+/** Período sugerido ao abrir: a última hora gravada */
+const JANELA_PADRAO_MS = 60 * 60_000;
+
+/**
+ * ⏯️ PAINEL DE REPRODUÇÃO
+ *
+ * Escolhe um período do que foi gravado (GravacaoService) e o reproduz:
+ * linha do tempo para arrastar, tocar/pausar, velocidade e o relógio com
+ * o horário do quadro. Cada quadro é emitido em `quadro` para o mapa desenhar.
+ */
+@Component({
+  selector: 'app-painel-reproducao',
+  imports: [CommonModule, FormsModule, TraduzirPipe, DataLocalPipe],
+  templateUrl: './painel-reproducao.component.html',
+  styleUrl: './painel-reproducao.component.scss'
+})
+export class PainelReproducaoComponent implements OnInit, OnDestroy {
+
+  @Output() quadro = new EventEmitter<QuadroReproducao>();
+  @Output() fechar = new EventEmitter<void>();
+
+  periodo: PeriodoGravado | null = null;   // tudo o que está gravado
+  carregando = true;
+  de = '';                  // campos datetime-local do período escolhido
+  ate = '';
+  inicioMs = 0;             // período carregado
+  fimMs = 0;
+  instanteMs = 0;           // horário do quadro atual
+  velocidade = 60;
+  tocando = false;
+  totalInstantaneos = 0;
+
+  readonly velocidades = VELOCIDADES_REPRODUCAO;
+
+  private instantaneos: InstantaneoGravado[] = [];
+  private relogio?: Subscription;
+
+  constructor(private gravacao: GravacaoService, private traducao: TraducaoService) { }
+
+  async ngOnInit(): Promise<void> {
+    this.periodo = await this.gravacao.periodo();
+    if (!this.periodo) {
+      this.carregando = false;
+      return;
+    }
+
+    const { inicio, fim } = this.periodo;
+    this.de = paraCampoDataHora(new Date(Math.max(inicio.getTime(), fim.getTime() - JANELA_PADRAO_MS)));
+    this.ate = paraCampoDataHora(fim);
+    await this.carregar();
+  }
+
+  ngOnDestroy(): void {
+    this.pausar();
+  }
+
+  /**
+   * Lê do banco os instantâneos do período escolhido e volta ao começo dele
+   */
+  async carregar(): Promise<void> {
+    const de = lerCampoDataHora(this.de);
+    const ate = lerCampoDataHora(this.ate);
+    if (!de || !ate || ate < de) return;
+
+    this.pausar();
+    this.carregando = true;
+    // O campo só tem minutos: o minuto final entra inteiro
+    const fim = new Date(ate.getTime() + 59_999);
+    this.instantaneos = await this.gravacao.listar(de, fim);
+    this.totalInstantaneos = this.instantaneos.length;
+    this.inicioMs = de.getTime();
+    this.fimMs = fim.getTime();
+    this.instanteMs = this.instantaneos[0]?.capturadoEm.getTime() ?? this.inicioMs;
+    this.carregando = false;
+    this.emitir();
+  }
+
+  alternar(): void {
+    if (this.tocando) {
+      this.pausar();
+    } else {
+      this.tocar();
+    }
+  }
+
+  /**
+   * Arrastou a linha do tempo
+   */
+  moverPara(instanteMs: number): void {
+    this.instanteMs = Number(instanteMs);
+    this.emitir();
+  }
+
+  async apagar(): Promise<void> {
+    if (!confirm(this.traducao.traduzir('reproducao.confirmarApagar'))) return;
+    this.pausar();
+    await this.gravacao.apagarTudo();
+    this.periodo = null;
+    this.instantaneos = [];
+    this.totalInstantaneos = 0;
+    this.emitir();
+  }
+
+  private tocar(): void {
+    if (this.instanteMs >= this.fimMs) this.instanteMs = this.inicioMs;
+    this.tocando = true;
+    this.relogio = interval(PASSO_MS).subscribe(() => {
+      this.instanteMs = Math.min(this.fimMs, this.instanteMs + PASSO_MS * this.velocidade);
+      this.emitir();
+      if (this.instanteMs >= this.fimMs) this.pausar();
+    });
+  }
+
+  private pausar(): void {
+    this.tocando = false;
+    this.relogio?.unsubscribe();
+  }
+
+  private emitir(): void {
+    this.quadro.emit(quadroNoInstante(this.instantaneos, new Date(this.instanteMs)));
+  }
+}
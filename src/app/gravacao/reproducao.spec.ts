@@ -0,0 +1,46 @@
+import { Linha, Veiculo } from '../models/sptrans.model';
+import { InstantaneoGravado } from './gravacao.service';
+import { lerCampoDataHora, paraCampoDataHora, quadroNoInstante } from './reproducao';
+
+describe('reproducao', () => {
+  const inicio = new Date(2024, 4, 10, 7, 0).getTime();
+  const linha = (codigo: number): Linha => ({
+    codigo, letreiro: `${codigo}-10`, circular: false, sentido: 1,
+    terminalPrincipal: 'A', terminalSecundario: 'B', destino: 'B'
+  });
+  const veiculo = (prefixo: string, minutos: number): Veiculo =>
+    ({ prefixo, acessivel: false, lat: -23.55, lng: -46.63, atualizadoEm: new Date(inicio + minutos * 60_000) });
+  const instantaneo = (codigo: number, minutos: number, prefixos: string[]): InstantaneoGravado => ({
+    linha: linha(codigo),
+    capturadoEm: new Date(inicio + minutos * 60_000),
+    horario: '07:00',
+    veiculos: prefixos.map(prefixo => veiculo(prefixo, minutos))
+  });
+
+  const instantaneos = [
+    instantaneo(1273, 0, ['A']),
+    instantaneo(34041, 0.5, ['X']),
+    instantaneo(1273, 1, ['A', 'B']),
+    instantaneo(1273, 10, ['C'])
+  ];
+
+  it('mostra o último instantâneo de cada linha até o instante', () => {
+    const quadro = quadroNoInstante(instantaneos, new Date(inicio + 1.5 * 60_000));
+
+    expect(quadro.linhas.map(({ linha }) => linha.codigo)).toEqual([1273, 34041]);
+    expect(quadro.linhas[0].veiculos.map(({ prefixo }) => prefixo)).toEqual(['A', 'B']);
+  });
+
+  it('tira do quadro as linhas sem instantâneo recente', () => {
+    expect(quadroNoInstante(instantaneos, new Date(inicio + 5 * 60_000)).linhas).toEqual([]);
+    expect(quadroNoInstante(instantaneos, new Date(inicio - 60_000)).linhas).toEqual([]);
+    expect(quadroNoInstante(instantaneos, new Date(inicio + 10 * 60_000)).linhas[0].veiculos[0].prefixo).toBe('C');
+  });
+
+  it('converte datas de e para o campo datetime-local', () => {
+    expect(paraCampoDataHora(new Date(inicio))).toBe('2024-05-10T07:00');
+    expect(lerCampoDataHora('2024-05-10T07:00')?.getTime()).toBe(inicio);
+    expect(lerCampoDataHora('')).toBeNull();
+    expect(lerCampoDataHora('ontem')).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import { Linha, Veiculo } from '../models/sptrans.model';
+import { InstantaneoGravado } from './gravacao.service';
+
+/**
+ * ⏯️ REPRODUÇÃO DE UM PERÍODO GRAVADO
+ *
+ * Monta, para um instante qualquer do período, o que o mapa mostrava:
+ * o último instantâneo de cada linha até aquele instante. Uma linha que
+ * ficou muito tempo sem instantâneo novo (gravação pausada, app fechado)
+ * some do quadro em vez de mostrar posições velhas.
+ */
+
+/** Velocidades oferecidas (1x = tempo real) */
+export const VELOCIDADES_REPRODUCAO = [1, 10, 60, 300];
+
+/** Depois disso sem instantâneo novo, a linha sai do quadro (ms) */
+export const VALIDADE_INSTANTANEO_MS = 2 * 60_000;
+
+/**
+ * O que aparece no mapa em um instante da reprodução
+ */
+export interface QuadroReproducao {
+    instante: Date;
+    linhas: { linha: Linha; veiculos: Veiculo[] }[];
+}
+
+/**
+ * Quadro no `instante`, a partir dos instantâneos em ordem de captura (GravacaoService.listar)
+ */
+export function quadroNoInstante(instantaneos: InstantaneoGravado[], instante: Date): QuadroReproducao {
+    const limite = instante.getTime();
+    const porLinha = new Map<number, InstantaneoGravado>();
+
+    // Do último instantâneo até o instante para trás, o primeiro de cada linha é o que vale
+    for (let i = ultimoAte(instantaneos, limite); i >= 0; i--) {
+        const instantaneo = instantaneos[i];
+        if (limite - instantaneo.capturadoEm.getTime() > VALIDADE_INSTANTANEO_MS) break;
+        if (!porLinha.has(instantaneo.linha.codigo)) porLinha.set(instantaneo.linha.codigo, instantaneo);
+    }
+
+    return {
+        instante,
+        linhas: [...porLinha.values()].map(({ linha, veiculos }) => ({ linha, veiculos }))
+    };
+}
+
+/**
+ * Data no formato de um <input type="datetime-local"> ('2024-05-10T07:00'), no fuso do navegador
+ */
+export function paraCampoDataHora(data: Date): string {
+    const dois = (valor: number) => String(valor).padStart(2, '0');
+    return `${data.getFullYear()}-${dois(data.getMonth() + 1)}-${dois(data.getDate())}` +
+        `T${dois(data.getHours())}:${dois(data.getMinutes())}`;
+}
+
+/**
+ * Lê o valor de um <input type="datetime-local">; null se estiver vazio ou inválido
+ */
+export function lerCampoDataHora(valor: string): Date | null {
+    const data = new Date(valor);
+    return valor && !isNaN(data.getTime()) ? data : null;
+}
+
+/** Índice do último instantâneo capturado até `limite` (-1 se nenhum), por busca binária */
+function ultimoAte(instantaneos: InstantaneoGravado[], limite: number): number {
+    let inicio = 0;
+    let fim = instantaneos.length - 1;
+    let encontrado = -1;
+    while (inicio <= fim) {
+        const meio = (inicio + fim) >> 1;
+        if (instantaneos[meio].capturadoEm.getTime() <= limite) {
+            encontrado = meio;
+            inicio = meio + 1;
+        } else {
+            fim = meio - 1;
+        }
+    }
+    return encontrado;
+}
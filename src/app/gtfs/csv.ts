@@ -0,0 +1,79 @@
+/**
+ * 📄 LEITOR DE CSV (formato dos arquivos GTFS)
+ *
+ * Primeira linha com os nomes das colunas, separador vírgula, campos
+ * opcionalmente entre aspas (com "" para aspas dentro do campo), quebras
+ * de linha \n ou \r\n e BOM opcional no início.
+ *
+ * Os registros são entregues um a um para o chamador, sem montar uma lista
+ * com o arquivo inteiro (stop_times.txt tem milhões de linhas).
+ */
+
+export type RegistroCsv = Record<string, string>;
+
+/**
+ * Percorre os registros do CSV.
+ * @returns Quantidade de registros lidos
+ */
+export function percorrerCsv(texto: string, aoLer: (registro: RegistroCsv) => void): number {
+    let colunas: string[] | null = null;
+    let quantidade = 0;
+
+    percorrerLinhas(texto.replace(/^\uFEFF/, ''), campos => {
+        if (!colunas) {
+            colunas = campos.map(campo => campo.trim());
+            return;
+        }
+        // Linha em branco (comum no fim do arquivo)
+        if (campos.length === 1 && campos[0] === '') return;
+
+        const registro: RegistroCsv = {};
+        colunas.forEach((coluna, i) => registro[coluna] = campos[i] ?? '');
+        aoLer(registro);
+        quantidade++;
+    });
+
+    return quantidade;
+}
+
+/**
+ * Divide o texto em linhas de campos, respeitando aspas (que podem conter vírgulas e quebras de linha)
+ */
+function percorrerLinhas(texto: string, aoLer: (campos: string[]) => void): void {
+    let campos: string[] = [];
+    let campo = '';
+    let entreAspas = false;
+
+    for (let i = 0; i < texto.length; i++) {
+        const caractere = texto[i];
+
+        if (entreAspas) {
+            if (caractere === '"' && texto[i + 1] === '"') {
+                campo += '"';
+                i++;
+            } else if (caractere === '"') {
+                entreAspas = false;
+            } else {
+                campo += caractere;
+            }
+        } else if (caractere === '"') {
+            entreAspas = true;
+        } else if (caractere === ',') {
+            campos.push(campo);
+            campo = '';
+        } else if (caractere === '\n' || caractere === '\r') {
+            if (caractere === '\r' && texto[i + 1] === '\n') i++;
+            campos.push(campo);
+            aoLer(campos);
+            campos = [];
+            campo = '';
+        } else {
+            campo += caractere;
+        }
+    }
+
+    if (campo !== '' || campos.length > 0) {
+        campos.push(campo);
+        aoLer(campos);
+    }
+}
@@ -0,0 +1,95 @@
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom } from 'rxjs';
+
+import { GtfsService } from './gtfs.service';
+import { ErroZip } from './zip';
+
+/**
+ * Monta um .zip em memória. Com `compactar`, usa deflate (CompressionStream);
+ * senão guarda os arquivos sem compressão. O CRC fica zerado (o leitor não confere).
+ */
+async function montarZip(arquivos: Record<string, string>, compactar: boolean): Promise<Uint8Array> {
+  const partes: Uint8Array[] = [];
+  const diretorio: Uint8Array[] = [];
+  let posicao = 0;
+
+  for (const [nome, texto] of Object.entries(arquivos)) {
+    const original = new TextEncoder().encode(texto);
+    const dados = compactar
+      ? new Uint8Array(await new Response(new Blob([original]).stream().pipeThrough(new CompressionStream('deflate-raw'))).arrayBuffer())
+      : original;
+    const nomeBytes = new TextEncoder().encode(`gtfs/${nome}`);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(8, compactar ? 8 : 0, true);
+    local.setUint32(18, dados.length, true);
+    local.setUint32(22, original.length, true);
+    local.setUint16(26, nomeBytes.length, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(10, compactar ? 8 : 0, true);
+    central.setUint32(20, dados.length, true);
+    central.setUint32(24, original.length, true);
+    central.setUint16(28, nomeBytes.length, true);
+    central.setUint32(42, posicao, true);
+
+    partes.push(new Uint8Array(local.buffer), nomeBytes, dados);
+    diretorio.push(new Uint8Array(central.buffer), nomeBytes);
+    posicao += 30 + nomeBytes.length + dados.length;
+  }
+
+  const tamanhoDiretorio = diretorio.reduce((soma, parte) => soma + parte.length, 0);
+  const fim = new DataView(new ArrayBuffer(22));
+  fim.setUint32(0, 0x06054b50, true);
+  fim.setUint16(8, Object.keys(arquivos).length, true);
+  fim.setUint16(10, Object.keys(arquivos).length, true);
+  fim.setUint32(12, tamanhoDiretorio, true);
+  fim.setUint32(16, posicao, true);
+
+  const todas = [...partes, ...diretorio, new Uint8Array(fim.buffer)];
+  const zip = new Uint8Array(todas.reduce((soma, parte) => soma + parte.length, 0));
+  todas.reduce((inicio, parte) => (zip.set(parte, inicio), inicio + parte.length), 0);
+  return zip;
+}
+
+describe('GtfsService', () => {
+  let service: GtfsService;
+
+  const arquivos = {
+    'routes.txt': 'route_id,route_short_name,route_long_name,route_type\n8000-10,8000-10,Terminal Lapa - Pça. Ramos de Azevedo,3\n',
+    'stops.txt': 'stop_id,stop_name,stop_desc,stop_lat,stop_lon\n18848,Clínicas,,-23.554,-46.670\n',
+    'agency.txt': 'agency_id,agency_name\n1,SPTRANS\n'
+  };
+
+  beforeEach(() => {
+    service = TestBed.inject(GtfsService);
+  });
+
+  it('não responde nada antes de carregar', () => {
+    expect(service.carregado).toBeFalse();
+    expect(service.buscarRotas('8000')).toEqual([]);
+  });
+
+  it('carrega um zip compactado e responde as consultas', async () => {
+    const resumo = await firstValueFrom(service.carregarArquivo(new Blob([await montarZip(arquivos, true)])));
+
+    expect(resumo.rotas).toBe(1);
+    expect(resumo.paradas).toBe(1);
+    expect(service.carregado).toBeTrue();
+    expect(service.buscarParadas('clinicas')[0].codigo).toBe(18848);
+  });
+
+  it('carrega um zip sem compressão', async () => {
+    const zip = await montarZip(arquivos, false);
+    const resumo = await firstValueFrom(service.carregarArquivo(zip.buffer as ArrayBuffer));
+    expect(resumo.rotas).toBe(1);
+  });
+
+  it('rejeita arquivo que não é zip', async () => {
+    await expectAsync(firstValueFrom(service.carregarArquivo(new Blob(['não sou um zip']))))
+      .toBeRejectedWithError(ErroZip);
+    expect(service.carregado).toBeFalse();
+  });
+});
@@ -0,0 +1,104 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, from } from 'rxjs';
+import { map, switchMap, tap } from 'rxjs/operators';
+import { HorarioProgramado, ResumoGtfs, RotaGtfs } from '../models/gtfs.model';
+import { Linha, Parada, Sentido } from '../models/sptrans.model';
+import { ComDistancia, Coordenada } from '../perto/distancia';
+import { ARQUIVOS_GTFS, ArquivoGtfs, IndiceGtfs } from './indice-gtfs';
+import { lerZip } from './zip';
+
+/**
+ * 📦 SERVIÇO DOS DADOS GTFS (OFFLINE)
+ *
+ * Carrega o GTFS estático da SPTrans (um .zip baixado do site de
+ * desenvolvedores) e responde consultas sem depender do backend:
+ * busca de rotas, linhas e paradas, paradas de uma rota, traçados e horários
+ * programados. O SptransService usa estes dados quando a API não responde.
+ *
+ * Exemplo de uso:
+ * ```
+ * this.gtfs.carregarArquivo(arquivoDoInput).subscribe(resumo => {
+ *     console.log(`${resumo.rotas} rotas e ${resumo.paradas} paradas carregadas`);
+ * });
+ * this.gtfs.buscarRotas('8000');
+ * this.gtfs.proximosHorarios(340015329);
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class GtfsService {
+
+    private indice: IndiceGtfs | null = null;
+    private readonly resumo = new BehaviorSubject<ResumoGtfs | null>(null);
+
+    /** Resumo do último carregamento (null enquanto nada foi carregado) */
+    readonly resumo$: Observable<ResumoGtfs | null> = this.resumo.asObservable();
+
+    get carregado(): boolean {
+        return this.indice !== null;
+    }
+
+    /**
+     * Carrega o GTFS de um .zip escolhido pelo usuário (ou já em memória)
+     */
+    carregarArquivo(arquivo: Blob | ArrayBuffer): Observable<ResumoGtfs> {
+        const dados = arquivo instanceof Blob ? from(arquivo.arrayBuffer()) : from([arquivo]);
+        return dados.pipe(switchMap(buffer => this.carregarZip(buffer)));
+    }
+
+    // ========================================
+    // CONSULTAS (vazias enquanto nada foi carregado)
+    // ========================================
+
+    buscarRotas(termo: string): RotaGtfs[] {
+        return this.indice?.buscarRotas(termo) ?? [];
+    }
+
+    buscarLinhas(termo: string): Linha[] {
+        return this.indice?.buscarLinhas(termo) ?? [];
+    }
+
+    buscarParadas(termo: string): Parada[] {
+        return this.indice?.buscarParadas(termo) ?? [];
+    }
+
+    paradasProximas(origem: Coordenada, raioMetros: number, limite?: number): ComDistancia<Parada>[] {
+        return this.indice?.paradasProximas(origem, raioMetros, limite) ?? [];
+    }
+
+    paradasDaRota(rotaId: string, sentido: Sentido): Parada[] {
+        return this.indice?.paradasDaRota(rotaId, sentido) ?? [];
+    }
+
+    tracadoDaRota(rotaId: string, sentido: Sentido): [number, number][] | null {
+        return this.indice?.tracadoDaRota(rotaId, sentido) ?? null;
+    }
+
+    proximosHorarios(paradaId: number, agora: Date = new Date(), limite: number = 10): HorarioProgramado[] {
+        return this.indice?.proximosHorarios(paradaId, agora, limite) ?? [];
+    }
+
+    // ========================================
+    // MÉTODOS INTERNOS
+    // ========================================
+
+    private carregarZip(buffer: ArrayBuffer): Observable<ResumoGtfs> {
+        const inicio = Date.now();
+
+        return from(lerZip(buffer, nome => (ARQUIVOS_GTFS as readonly string[]).includes(nome))).pipe(
+            map(arquivos => {
+                const decodificador = new TextDecoder();
+                const textos: Partial<Record<ArquivoGtfs, string>> = {};
+                arquivos.forEach((conteudo, nome) => textos[nome as ArquivoGtfs] = decodificador.decode(conteudo));
+                return IndiceGtfs.montar(textos);
+            }),
+            map(indice => {
+                this.indice = indice;
+                return indice.resumo();
+            }),
+            tap(resumo => {
+                console.log(`✅ GTFS carregado em ${Date.now() - inicio} ms:`, resumo);
+                this.resumo.next(resumo);
+            })
+        );
+    }
+}
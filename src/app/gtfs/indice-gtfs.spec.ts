@@ -0,0 +1,88 @@
+import { IndiceGtfs, segundosDoHorario } from './indice-gtfs';
+
+describe('IndiceGtfs', () => {
+  const indice = IndiceGtfs.montar({
+    'routes.txt': [
+      'route_id,agency_id,route_short_name,route_long_name,route_type,route_color',
+      '8000-10,1,8000-10,"Terminal Lapa - Pça. Ramos de Azevedo",3,509E2F',
+      '9300-10,1,9300-10,Terminal Casa Verde - Jd. Peri,3,'
+    ].join('\r\n'),
+    'trips.txt': [
+      'route_id,service_id,trip_id,trip_headsign,direction_id,shape_id',
+      '8000-10,USD,8000-10-0,Terminal Lapa,0,84609',
+      '8000-10,USD,8000-10-1,Pça. Ramos de Azevedo,1,84610'
+    ].join('\n'),
+    'stops.txt': [
+      'stop_id,stop_name,stop_desc,stop_lat,stop_lon',
+      '18848,Clínicas,"R. Dr. Enéas, 100",-23.554,-46.670',
+      '18849,Lapa,,-23.520,-46.700',
+      '1,Sem posição,,,'
+    ].join('\n'),
+    'stop_times.txt': [
+      'trip_id,arrival_time,departure_time,stop_id,stop_sequence',
+      '8000-10-0,23:50:00,23:50:00,18848,1',
+      '8000-10-0,24:20:00,24:20:00,18849,2',
+      '8000-10-1,10:00:00,10:00:00,18849,1',
+      '8000-10-1,10:30:00,10:30:00,18848,2'
+    ].join('\n'),
+    'shapes.txt': [
+      'shape_id,shape_pt_lat,shape_pt_lon,shape_pt_sequence',
+      '84609,-23.52,-46.70,2',
+      '84609,-23.554,-46.670,1'
+    ].join('\n')
+  });
+
+  it('lista as paradas próximas de um ponto', () => {
+    const proximas = indice.paradasProximas({ lat: -23.555, lng: -46.671 }, 1000);
+    expect(proximas.map(p => p.item.codigo)).toEqual([18848]);
+    expect(proximas[0].distanciaMetros).toBeLessThan(200);
+  });
+
+  it('converte e conta os registros de cada arquivo', () => {
+    expect(indice.resumo()).toEqual(jasmine.objectContaining({
+      rotas: 2, viagens: 2, paradas: 2, horarios: 4, tracados: 1, rejeitados: 1
+    }));
+    expect(indice.rotas.get('8000-10')?.cor).toBe('#509E2F');
+    expect(indice.paradas.get(18848)?.endereco).toBe('R. Dr. Enéas, 100');
+  });
+
+  it('busca rotas e paradas sem diferenciar acentos', () => {
+    expect(indice.buscarRotas('peri').map(r => r.id)).toEqual(['9300-10']);
+    expect(indice.buscarRotas('8000').length).toBe(1);
+    expect(indice.buscarParadas('clinicas').map(p => p.codigo)).toEqual([18848]);
+  });
+
+  it('converte as rotas em linhas do Olho Vivo, uma por sentido e com código negativo', () => {
+    const linhas = indice.buscarLinhas('8000');
+    expect(linhas.map(l => [l.letreiro, l.sentido, l.destino])).toEqual([
+      ['8000-10', 1, 'Terminal Lapa'],
+      ['8000-10', 2, 'Pça. Ramos de Azevedo']
+    ]);
+    expect(linhas[0]).toEqual(jasmine.objectContaining({
+      terminalPrincipal: 'Terminal Lapa', terminalSecundario: 'Pça. Ramos de Azevedo', circular: false
+    }));
+    expect(linhas.every(l => l.codigo < 0)).toBeTrue();
+    expect(new Set(linhas.map(l => l.codigo)).size).toBe(2);
+    expect(indice.buscarLinhas('peri').map(l => [l.sentido, l.destino])).toEqual([[1, 'Jd. Peri']]);
+  });
+
+  it('lista as paradas e o traçado de cada sentido na ordem do percurso', () => {
+    expect(indice.paradasDaRota('8000-10', 1).map(p => p.codigo)).toEqual([18848, 18849]);
+    expect(indice.paradasDaRota('8000-10', 2).map(p => p.codigo)).toEqual([18849, 18848]);
+    expect(indice.tracadoDaRota('8000-10', 1)).toEqual([[-23.554, -46.670], [-23.52, -46.70]]);
+    expect(indice.tracadoDaRota('8000-10', 2)).toBeNull();
+  });
+
+  it('traz os próximos horários, incluindo os da madrugada do dia de serviço anterior', () => {
+    const agora = new Date(2024, 4, 7, 0, 5);
+    const proximos = indice.proximosHorarios(18849, agora, 2);
+
+    expect(proximos.map(h => [h.chegada.getHours(), h.chegada.getMinutes()])).toEqual([[0, 20], [10, 0]]);
+    expect(proximos[0].viagem.destino).toBe('Terminal Lapa');
+  });
+
+  it('converte horários acima de 24 h', () => {
+    expect(segundosDoHorario('25:10:00')).toBe(25 * 3600 + 600);
+    expect(segundosDoHorario('')).toBeNull();
+  });
+});
@@ -0,0 +1,339 @@
+import { HorarioGtfs, HorarioProgramado, ResumoGtfs, RotaGtfs, ViagemGtfs } from '../models/gtfs.model';
+import { Linha, Parada, Sentido } from '../models/sptrans.model';
+import { ComDistancia, Coordenada, maisProximos } from '../perto/distancia';
+import { RegistroCsv, percorrerCsv } from './csv';
+
+/**
+ * 🗂️ ÍNDICE DOS DADOS GTFS
+ *
+ * Guarda em memória o conteúdo dos arquivos GTFS, já convertido e indexado
+ * para as consultas do app (rotas por termo, paradas de uma rota, próximos
+ * horários em uma parada, traçado de uma rota).
+ *
+ * Exemplo de uso:
+ * ```
+ * const indice = IndiceGtfs.montar({ 'routes.txt': texto, 'stops.txt': ... });
+ * indice.buscarRotas('8000');
+ * indice.proximosHorarios(340015329, new Date());
+ * ```
+ *
+ * O calendar.txt não é lido: uma mesma viagem programada para dias úteis e
+ * fim de semana aparece uma vez só nos próximos horários.
+ */
+
+export const ARQUIVOS_GTFS = ['routes.txt', 'trips.txt', 'stops.txt', 'stop_times.txt', 'shapes.txt'] as const;
+
+export type ArquivoGtfs = typeof ARQUIVOS_GTFS[number];
+
+const SEGUNDOS_POR_DIA = 24 * 60 * 60;
+
+export class IndiceGtfs {
+
+    readonly rotas = new Map<string, RotaGtfs>();
+    readonly viagens = new Map<string, ViagemGtfs>();
+    readonly viagensPorRota = new Map<string, ViagemGtfs[]>();
+    readonly paradas = new Map<number, Parada>();
+    readonly horariosPorParada = new Map<number, HorarioGtfs[]>();   // ordenados pela partida
+    readonly horariosPorViagem = new Map<string, HorarioGtfs[]>();   // ordenados pela sequência
+    readonly tracados = new Map<string, [number, number][]>();
+    private readonly ordemDasRotas = new Map<string, number>();      // route_id → 1, 2, 3... (ordem do routes.txt)
+    private rejeitados = 0;
+
+    /**
+     * Monta o índice a partir do texto de cada arquivo. Arquivos ausentes ficam vazios.
+     */
+    static montar(textos: Partial<Record<ArquivoGtfs, string>>): IndiceGtfs {
+        const indice = new IndiceGtfs();
+        indice.ler(textos['routes.txt'], registro => indice.adicionarRota(registro));
+        indice.ler(textos['trips.txt'], registro => indice.adicionarViagem(registro));
+        indice.ler(textos['stops.txt'], registro => indice.adicionarParada(registro));
+        indice.ler(textos['stop_times.txt'], registro => indice.adicionarHorario(registro));
+        indice.lerTracados(textos['shapes.txt']);
+
+        indice.horariosPorParada.forEach(lista => lista.sort((a, b) => a.partida - b.partida));
+        indice.horariosPorViagem.forEach(lista => lista.sort((a, b) => a.sequencia - b.sequencia));
+        return indice;
+    }
+
+    resumo(carregadoEm: Date = new Date()): ResumoGtfs {
+        let horarios = 0;
+        this.horariosPorViagem.forEach(lista => horarios += lista.length);
+
+        return {
+            rotas: this.rotas.size,
+            viagens: this.viagens.size,
+            paradas: this.paradas.size,
+            horarios,
+            tracados: this.tracados.size,
+            rejeitados: this.rejeitados,
+            carregadoEm
+        };
+    }
+
+    // ========================================
+    // CONSULTAS
+    // ========================================
+
+    /**
+     * Rotas cujo id, nome curto ou nome longo contém o termo (sem diferenciar acentos)
+     */
+    buscarRotas(termo: string): RotaGtfs[] {
+        const procurado = normalizar(termo);
+        if (!procurado) return [];
+
+        return Array.from(this.rotas.values())
+            .filter(rota => [rota.id, rota.nomeCurto, rota.nomeLongo].some(texto => normalizar(texto).includes(procurado)))
+            .sort((a, b) => a.nomeCurto.localeCompare(b.nomeCurto));
+    }
+
+    /**
+     * As rotas de buscarRotas como Linha, uma por sentido com viagens (como /linhas do Olho Vivo).
+     * O GTFS não tem o código do Olho Vivo: cada sentido recebe um código negativo,
+     * que não existe na API.
+     */
+    buscarLinhas(termo: string): Linha[] {
+        return this.buscarRotas(termo).flatMap(rota => {
+            const viagens = this.viagensPorRota.get(rota.id) ?? [];
+            const sentidos = ([1, 2] as Sentido[]).filter(sentido => viagens.some(viagem => viagem.sentido === sentido));
+            // Como no Olho Vivo, linha circular tem um sentido só
+            const circular = sentidos.length === 1;
+            return (sentidos.length > 0 ? sentidos : [1 as Sentido]).map(sentido => this.linhaDaRota(rota, sentido, circular));
+        });
+    }
+
+    /**
+     * Paradas cujo nome ou endereço contém o termo (sem diferenciar acentos)
+     */
+    buscarParadas(termo: string): Parada[] {
+        const procurado = normalizar(termo);
+        if (!procurado) return [];
+
+        return Array.from(this.paradas.values())
+            .filter(parada => normalizar(`${parada.nome} ${parada.endereco}`).includes(procurado));
+    }
+
+    /**
+     * Paradas dentro do raio, da mais perto para a mais longe
+     */
+    paradasProximas(origem: Coordenada, raioMetros: number, limite: number = 10): ComDistancia<Parada>[] {
+        return maisProximos(this.paradas.values(), origem, raioMetros, parada => parada, limite);
+    }
+
+    /**
+     * Paradas de uma rota em um sentido, na ordem do percurso.
+     * Usa a viagem com mais paradas como referência.
+     */
+    paradasDaRota(rotaId: string, sentido: Sentido): Parada[] {
+        const viagem = this.viagemDeReferencia(rotaId, sentido);
+        if (!viagem) return [];
+
+        return (this.horariosPorViagem.get(viagem.id) ?? [])
+            .map(horario => this.paradas.get(horario.paradaId))
+            .filter((parada): parada is Parada => parada !== undefined);
+    }
+
+    /**
+     * Pontos [lat, lng] do traçado de uma rota em um sentido
+     */
+    tracadoDaRota(rotaId: string, sentido: Sentido): [number, number][] | null {
+        const viagens = (this.viagensPorRota.get(rotaId) ?? []).filter(v => v.sentido === sentido && v.tracadoId);
+        const tracadoId = viagens.find(v => this.tracados.has(v.tracadoId!))?.tracadoId;
+        return tracadoId ? this.tracados.get(tracadoId) ?? null : null;
+    }
+
+    /**
+     * Próximas passagens programadas na parada a partir de `agora`.
+     * Horários acima de 24:00:00 pertencem ao dia de serviço anterior (madrugada).
+     */
+    proximosHorarios(paradaId: number, agora: Date, limite: number = 10): HorarioProgramado[] {
+        const parada = this.paradas.get(paradaId);
+        if (!parada) return [];
+
+        const meiaNoite = new Date(agora.getFullYear(), agora.getMonth(), agora.getDate()).getTime();
+        const vistos = new Set<string>();
+        const proximos: HorarioProgramado[] = [];
+
+        for (const horario of this.horariosPorParada.get(paradaId) ?? []) {
+            const viagem = this.viagens.get(horario.viagemId);
+            const rota = viagem && this.rotas.get(viagem.rotaId);
+            if (!viagem || !rota) continue;
+
+            [meiaNoite, meiaNoite - SEGUNDOS_POR_DIA * 1000].forEach(inicioDoDia => {
+                const chegada = new Date(inicioDoDia + horario.chegada * 1000);
+                const chave = `${rota.id}|${viagem.sentido}|${chegada.getTime()}`;
+                if (chegada >= agora && !vistos.has(chave)) {
+                    vistos.add(chave);
+                    proximos.push({ rota, viagem, parada, chegada });
+                }
+            });
+        }
+
+        return proximos
+            .sort((a, b) => a.chegada.getTime() - b.chegada.getTime())
+            .slice(0, limite);
+    }
+
+    // ========================================
+    // LEITURA DOS ARQUIVOS
+    // ========================================
+
+    private ler(texto: string | undefined, adicionar: (registro: RegistroCsv) => void): void {
+        if (!texto) return;
+        percorrerCsv(texto, registro => {
+            try {
+                adicionar(registro);
+            } catch {
+                this.rejeitados++;
+            }
+        });
+    }
+
+    private adicionarRota(registro: RegistroCsv): void {
+        const id = obrigatorio(registro, 'route_id');
+        const cor = registro['route_color']?.trim();
+
+        if (!this.ordemDasRotas.has(id)) this.ordemDasRotas.set(id, this.ordemDasRotas.size + 1);
+        this.rotas.set(id, {
+            id,
+            nomeCurto: registro['route_short_name']?.trim() || id,
+            nomeLongo: registro['route_long_name']?.trim() ?? '',
+            tipo: Number(registro['route_type']) || 3,
+            cor: cor ? `#${cor}` : null
+        });
+    }
+
+    private adicionarViagem(registro: RegistroCsv): void {
+        const viagem: ViagemGtfs = {
+            id: obrigatorio(registro, 'trip_id'),
+            rotaId: obrigatorio(registro, 'route_id'),
+            servicoId: registro['service_id']?.trim() ?? '',
+            sentido: registro['direction_id']?.trim() === '1' ? 2 : 1,
+            destino: registro['trip_headsign']?.trim() ?? '',
+            tracadoId: registro['shape_id']?.trim() || null
+        };
+
+        this.viagens.set(viagem.id, viagem);
+        adicionarNaLista(this.viagensPorRota, viagem.rotaId, viagem);
+    }
+
+    private adicionarParada(registro: RegistroCsv): void {
+        const codigo = Number(obrigatorio(registro, 'stop_id'));
+        const lat = Number(registro['stop_lat']);
+        const lng = Number(registro['stop_lon']);
+        if (!Number.isInteger(codigo) || !Number.isFinite(lat) || !Number.isFinite(lng) || (lat === 0 && lng === 0)) {
+            throw new Error('Parada inválida');
+        }
+
+        this.paradas.set(codigo, {
+            codigo,
+            nome: registro['stop_name']?.trim() ?? '',
+            endereco: registro['stop_desc']?.trim() ?? '',
+            lat,
+            lng
+        });
+    }
+
+    private adicionarHorario(registro: RegistroCsv): void {
+        const chegada = segundosDoHorario(registro['arrival_time']);
+        const partida = segundosDoHorario(registro['departure_time']) ?? chegada;
+        const paradaId = Number(obrigatorio(registro, 'stop_id'));
+        // Paradas intermediárias podem vir sem horário (interpoladas); só guardamos as programadas
+        if (chegada === null || partida === null || !Number.isInteger(paradaId)) {
+            throw new Error('Horário inválido');
+        }
+
+        const horario: HorarioGtfs = {
+            viagemId: obrigatorio(registro, 'trip_id'),
+            paradaId,
+            chegada,
+            partida,
+            sequencia: Number(registro['stop_sequence']) || 0
+        };
+
+        adicionarNaLista(this.horariosPorParada, horario.paradaId, horario);
+        adicionarNaLista(this.horariosPorViagem, horario.viagemId, horario);
+    }
+
+    private lerTracados(texto: string | undefined): void {
+        const pontos = new Map<string, { lat: number; lng: number; sequencia: number }[]>();
+
+        this.ler(texto, registro => {
+            const lat = Number(registro['shape_pt_lat']);
+            const lng = Number(registro['shape_pt_lon']);
+            if (!Number.isFinite(lat) || !Number.isFinite(lng)) throw new Error('Ponto inválido');
+            adicionarNaLista(pontos, obrigatorio(registro, 'shape_id'), {
+                lat, lng, sequencia: Number(registro['shape_pt_sequence']) || 0
+            });
+        });
+
+        pontos.forEach((lista, id) => this.tracados.set(id,
+            lista.sort((a, b) => a.sequencia - b.sequencia).map(p => [p.lat, p.lng] as [number, number])
+        ));
+    }
+
+    /**
+     * O route_long_name da SPTrans é 'TERMINAL PRINCIPAL - TERMINAL SECUNDÁRIO'
+     */
+    private linhaDaRota(rota: RotaGtfs, sentido: Sentido, circular: boolean): Linha {
+        const [principal, ...resto] = rota.nomeLongo.split(' - ');
+        const terminalPrincipal = principal.trim();
+        const terminalSecundario = resto.join(' - ').trim();
+        const destino = this.viagemDeReferencia(rota.id, sentido)?.destino
+            || (sentido === 1 ? terminalSecundario : terminalPrincipal);
+
+        return {
+            codigo: -((this.ordemDasRotas.get(rota.id) ?? 0) * 2 + sentido - 1),
+            letreiro: rota.nomeCurto,
+            circular,
+            sentido,
+            terminalPrincipal,
+            terminalSecundario,
+            destino
+        };
+    }
+
+    private viagemDeReferencia(rotaId: string, sentido: Sentido): ViagemGtfs | null {
+        let melhor: ViagemGtfs | null = null;
+        let maisParadas = 0;
+
+        (this.viagensPorRota.get(rotaId) ?? [])
+            .filter(viagem => viagem.sentido === sentido)
+            .forEach(viagem => {
+                const paradas = this.horariosPorViagem.get(viagem.id)?.length ?? 0;
+                if (paradas > maisParadas) {
+                    melhor = viagem;
+                    maisParadas = paradas;
+                }
+            });
+
+        return melhor;
+    }
+}
+
+/**
+ * 'HH:MM:SS' → segundos desde 00:00 (aceita horas acima de 23)
+ */
+export function segundosDoHorario(horario: string | undefined): number | null {
+    const partes = /^\s*(\d{1,2}):(\d{2}):(\d{2})\s*$/.exec(horario ?? '');
+    if (!partes) return null;
+    return Number(partes[1]) * 3600 + Number(partes[2]) * 60 + Number(partes[3]);
+}
+
+function obrigatorio(registro: RegistroCsv, coluna: string): string {
+    const valor = registro[coluna]?.trim();
+    if (!valor) throw new Error(`Coluna ${coluna} vazia`);
+    return valor;
+}
+
+function adicionarNaLista<K, V>(mapa: Map<K, V[]>, chave: K, valor: V): void {
+    const lista = mapa.get(chave);
+    if (lista) {
+        lista.push(valor);
+    } else {
+        mapa.set(chave, [valor]);
+    }
+}
+
+function normalizar(texto: string): string {
+    return texto.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
@@ -0,0 +1,104 @@
+/**
+ * 🗜️ LEITOR DE ZIP
+ *
+ * Lê os arquivos de um .zip sem bibliotecas externas: percorre o diretório
+ * central e descompacta cada arquivo com DecompressionStream('deflate-raw'),
+ * disponível nos navegadores atuais e no Node 18+.
+ *
+ * Suporta os métodos "stored" (0) e "deflate" (8), que são os usados pelos
+ * feeds GTFS. Zip64 (arquivos acima de 4 GB) não é suportado.
+ */
+
+const ASSINATURA_FIM_DIRETORIO = 0x06054b50;
+const ASSINATURA_DIRETORIO = 0x02014b50;
+const ASSINATURA_ARQUIVO = 0x04034b50;
+
+const METODO_SEM_COMPRESSAO = 0;
+const METODO_DEFLATE = 8;
+
+/**
+ * Erro lançado quando o zip não pode ser lido
+ */
+export class ErroZip extends Error {
+    constructor(motivo: string) {
+        super(motivo);
+        this.name = 'ErroZip';
+    }
+}
+
+/**
+ * Lê os arquivos do zip.
+ * @param dados - Conteúdo do .zip
+ * @param deveLer - Filtro pelo nome (sem pastas); os demais nem são descompactados
+ * @returns Conteúdo de cada arquivo, pelo nome sem pastas (ex: 'stops.txt')
+ */
+export async function lerZip(
+    dados: ArrayBuffer | Uint8Array,
+    deveLer: (nome: string) => boolean = () => true
+): Promise<Map<string, Uint8Array>> {
+    const bytes = dados instanceof Uint8Array ? dados : new Uint8Array(dados);
+    const visao = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const fim = acharFimDoDiretorio(visao);
+
+    const total = visao.getUint16(fim + 10, true);
+    let posicao = visao.getUint32(fim + 16, true);
+    const arquivos = new Map<string, Uint8Array>();
+
+    for (let i = 0; i < total; i++) {
+        if (visao.getUint32(posicao, true) !== ASSINATURA_DIRETORIO) {
+            throw new ErroZip('Diretório central corrompido');
+        }
+
+        const metodo = visao.getUint16(posicao + 10, true);
+        const tamanhoCompactado = visao.getUint32(posicao + 20, true);
+        const tamanhoNome = visao.getUint16(posicao + 28, true);
+        const tamanhoExtra = visao.getUint16(posicao + 30, true);
+        const tamanhoComentario = visao.getUint16(posicao + 32, true);
+        const inicioLocal = visao.getUint32(posicao + 42, true);
+        const caminho = new TextDecoder().decode(bytes.subarray(posicao + 46, posicao + 46 + tamanhoNome));
+        posicao += 46 + tamanhoNome + tamanhoExtra + tamanhoComentario;
+
+        const nome = caminho.split('/').pop() ?? '';
+        if (!nome || !deveLer(nome)) continue;
+
+        if (tamanhoCompactado === 0xffffffff || inicioLocal === 0xffffffff) {
+            throw new ErroZip(`${nome}: zip64 não é suportado`);
+        }
+
+        const compactado = bytes.subarray(inicioDosDados(visao, inicioLocal), inicioDosDados(visao, inicioLocal) + tamanhoCompactado);
+        arquivos.set(nome, await descompactar(compactado, metodo, nome));
+    }
+
+    return arquivos;
+}
+
+/**
+ * O registro de fim do diretório fica nos últimos 22 bytes, mais um comentário opcional (até 64 KB)
+ */
+function acharFimDoDiretorio(visao: DataView): number {
+    const limite = Math.max(0, visao.byteLength - 22 - 0xffff);
+    for (let i = visao.byteLength - 22; i >= limite; i--) {
+        if (visao.getUint32(i, true) === ASSINATURA_FIM_DIRETORIO) return i;
+    }
+    throw new ErroZip('Arquivo não é um zip válido');
+}
+
+/**
+ * O cabeçalho local repete nome e extra, que podem ter tamanhos diferentes dos do diretório central
+ */
+function inicioDosDados(visao: DataView, inicioLocal: number): number {
+    if (visao.getUint32(inicioLocal, true) !== ASSINATURA_ARQUIVO) {
+        throw new ErroZip('Cabeçalho de arquivo corrompido');
+    }
+    return inicioLocal + 30 + visao.getUint16(inicioLocal + 26, true) + visao.getUint16(inicioLocal + 28, true);
+}
+
+async function descompactar(compactado: Uint8Array, metodo: number, nome: string): Promise<Uint8Array> {
+    if (metodo === METODO_SEM_COMPRESSAO) return compactado;
+    if (metodo !== METODO_DEFLATE) {
+        throw new ErroZip(`${nome}: método de compressão ${metodo} não é suportado`);
+    }
+
+    const fluxo = new Blob([compactado]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(fluxo).arrayBuffer());
+}
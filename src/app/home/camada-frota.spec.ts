@@ -0,0 +1,31 @@
+import { filtrarPorLimites, veiculosDaFrota } from './camada-frota';
+import { LinhaDaFrota, PosicoesFrota, Veiculo } from '../models/sptrans.model';
+
+describe('camada-frota', () => {
+
+  const veiculo = (prefixo: string, lat: number, lng: number): Veiculo =>
+    ({ prefixo, acessivel: false, atualizadoEm: new Date(), lat, lng });
+  const linha = (codigoLinha: number, veiculos: Veiculo[]): LinhaDaFrota =>
+    ({ codigoLinha, letreiro: '8000-10', sentido: 1, origem: 'A', destino: 'B', veiculos });
+  const frota: PosicoesFrota = {
+    horario: '10:00',
+    referencia: null,
+    linhas: [
+      linha(1, [veiculo('a', -23.55, -46.63), veiculo('b', -23.70, -46.80)]),
+      linha(2, [veiculo('c', -23.56, -46.64)])
+    ],
+    totalVeiculos: 3,
+    rejeitados: 0
+  };
+
+  it('junta os veículos de todas as linhas, cada um com a sua linha', () => {
+    const veiculos = veiculosDaFrota(frota);
+    expect(veiculos.map(v => v.veiculo.prefixo)).toEqual(['a', 'b', 'c']);
+    expect(veiculos[2].linha.codigoLinha).toBe(2);
+  });
+
+  it('mantém só os veículos dentro dos limites', () => {
+    const dentro = filtrarPorLimites(veiculosDaFrota(frota), { sul: -23.6, oeste: -46.7, norte: -23.5, leste: -46.6 });
+    expect(dentro.map(v => v.veiculo.prefixo)).toEqual(['a', 'c']);
+  });
+});
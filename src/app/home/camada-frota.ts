@@ -0,0 +1,142 @@
+import { LinhaDaFrota, PosicoesFrota, Veiculo } from '../models/sptrans.model';
+import { CORES_SENTIDO } from './sentido';
+import { TraducaoService } from '../i18n/traducao.service';
+
+/**
+ * 🌐 CAMADA DA FROTA INTEIRA
+ *
+ * Desenha milhares de ônibus de uma vez. Em vez de um L.marker (elemento
+ * HTML) por ônibus, usa L.circleMarker em um único <canvas>, e só desenha
+ * os ônibus que estão dentro da área visível do mapa (com uma margem).
+ *
+ * Exemplo de uso:
+ * ```
+ * const camada = new CamadaFrota(L, mapa, traducao);
+ * camada.atualizar(frota);     // a cada resposta de /Posicao
+ * mapa.on('moveend', () => camada.redesenhar());
+ * camada.remover();
+ * ```
+ */
+
+/** Margem em volta da área visível, para o arrasto não mostrar bordas vazias */
+const MARGEM_LIMITES = 0.2;
+
+/**
+ * Um veículo da frota junto com a linha que ele está atendendo
+ */
+export interface VeiculoDaFrota {
+    veiculo: Veiculo;
+    linha: LinhaDaFrota;
+}
+
+/**
+ * Retângulo em graus (mesmo formato de L.LatLngBounds)
+ */
+export interface Limites {
+    sul: number;
+    oeste: number;
+    norte: number;
+    leste: number;
+}
+
+/**
+ * Transforma as linhas da frota em uma lista única de veículos
+ */
+export function veiculosDaFrota(frota: PosicoesFrota): VeiculoDaFrota[] {
+    return frota.linhas.flatMap(linha => linha.veiculos.map(veiculo => ({ veiculo, linha })));
+}
+
+/**
+ * Veículos dentro do retângulo
+ */
+export function filtrarPorLimites(veiculos: VeiculoDaFrota[], limites: Limites): VeiculoDaFrota[] {
+    return veiculos.filter(({ veiculo }) =>
+        veiculo.lat >= limites.sul && veiculo.lat <= limites.norte &&
+        veiculo.lng >= limites.oeste && veiculo.lng <= limites.leste
+    );
+}
+
+export class CamadaFrota {
+
+    private veiculos: VeiculoDaFrota[] = [];
+    private readonly renderizador: any;   // L.Canvas compartilhado por todos os círculos
+    private readonly grupo: any;          // L.LayerGroup
+
+    /** Quantos ônibus estão desenhados agora */
+    visiveis = 0;
+
+    /** Desenha só os ônibus acessíveis (chamar redesenhar() depois de mudar) */
+    somenteAcessiveis = false;
+
+    /**
+     * @param destino - onde desenhar (ex: a sobreposição de ônibus); o padrão é o próprio mapa
+     */
+    constructor(private L: any, private mapa: any, private traducao: TraducaoService, private destino: any = mapa) {
+        this.renderizador = L.canvas({ padding: MARGEM_LIMITES });
+        this.grupo = L.layerGroup().addTo(destino);
+    }
+
+    /** Total de ônibus da última resposta */
+    get total(): number {
+        return this.veiculos.length;
+    }
+
+    /**
+     * Troca os veículos pelos da nova resposta e redesenha
+     */
+    atualizar(frota: PosicoesFrota): void {
+        this.veiculos = veiculosDaFrota(frota);
+        this.redesenhar();
+    }
+
+    /**
+     * Desenha só os veículos da área visível (chamar quando o mapa se mexer)
+     */
+    redesenhar(): void {
+        const area = this.mapa.getBounds().pad(MARGEM_LIMITES);
+        const candidatos = this.somenteAcessiveis ? this.veiculos.filter(({ veiculo }) => veiculo.acessivel) : this.veiculos;
+        const visiveis = filtrarPorLimites(candidatos, {
+            sul: area.getSouth(),
+            oeste: area.getWest(),
+            norte: area.getNorth(),
+            leste: area.getEast()
+        });
+
+        this.grupo.clearLayers();
+        visiveis.forEach(({ veiculo, linha }) => {
+            this.L.circleMarker([veiculo.lat, veiculo.lng], {
+                renderer: this.renderizador,
+                radius: 4,
+                weight: 1,
+                color: '#ffffff',
+                fillColor: CORES_SENTIDO[linha.sentido],
+                fillOpacity: 0.9
+            })
+                // Popup montado só quando o usuário clica (são milhares de ônibus)
+                .bindPopup(() => this.popup(veiculo, linha))
+                .addTo(this.grupo);
+        });
+
+        this.visiveis = visiveis.length;
+    }
+
+    remover(): void {
+        this.grupo.clearLayers();
+        this.destino.removeLayer(this.grupo);
+        this.veiculos = [];
+        this.visiveis = 0;
+    }
+
+    private popup(veiculo: Veiculo, linha: LinhaDaFrota): string {
+        const t = this.traducao;
+        return `
+      <div style="font-family: Arial;">
+        <h4>${t.traduzir('frota.linha', { linha: linha.letreiro || linha.codigoLinha })}</h4>
+        <p><b>${t.traduzir('frota.destino')}</b> ${linha.destino || t.traduzir('geral.naoInformado')}</p>
+        <p><b>${t.traduzir('frota.veiculo')}</b> ${veiculo.prefixo}</p>
+        <p><b>${t.traduzir('frota.horario')}</b> ${t.formatarData(veiculo.atualizadoEm, 'mediumTime')}</p>
+        <p><b>${t.traduzir('frota.acessivel')}</b> ${veiculo.acessivel ? '♿ ' + t.traduzir('geral.sim') : t.traduzir('geral.nao')}</p>
+      </div>
+    `;
+    }
+}
@@ -0,0 +1,57 @@
+import { QuadroReproducao } from '../gravacao/reproducao';
+import { TraducaoService } from '../i18n/traducao.service';
+import { CORES_SENTIDO } from './sentido';
+
+/**
+ * ⏯️ CAMADA DA REPRODUÇÃO
+ *
+ * Desenha os ônibus de um quadro da reprodução (ver gravacao/reproducao.ts).
+ * Os quadros mudam várias vezes por segundo nas velocidades altas, então não
+ * há animação nem painel: cada quadro troca todos os círculos de uma vez.
+ *
+ * Exemplo de uso:
+ * ```
+ * const camada = new CamadaReproducao(L, grupoOnibus, traducao);
+ * camada.desenhar(quadroNoInstante(instantaneos, instante));
+ * camada.remover();
+ * ```
+ */
+export class CamadaReproducao {
+
+    private readonly grupo: any;   // L.LayerGroup
+
+    /** Quantos ônibus estão desenhados agora */
+    total = 0;
+
+    constructor(private L: any, private destino: any, private traducao: TraducaoService) {
+        this.grupo = L.layerGroup().addTo(destino);
+    }
+
+    desenhar(quadro: QuadroReproducao): void {
+        this.grupo.clearLayers();
+        this.total = 0;
+
+        quadro.linhas.forEach(({ linha, veiculos }) => veiculos.forEach(veiculo => {
+            this.L.circleMarker([veiculo.lat, veiculo.lng], {
+                radius: 7,
+                weight: 2,
+                color: '#ffffff',
+                fillColor: CORES_SENTIDO[linha.sentido],
+                fillOpacity: 0.9
+            })
+                .bindTooltip(this.traducao.traduzir('onibus.dica', {
+                    linha: linha.letreiro || linha.codigo,
+                    destino: linha.destino || this.traducao.traduzir('geral.naoInformado'),
+                    prefixo: veiculo.prefixo
+                }))
+                .addTo(this.grupo);
+            this.total++;
+        }));
+    }
+
+    remover(): void {
+        this.grupo.clearLayers();
+        this.destino.removeLayer(this.grupo);
+        this.total = 0;
+    }
+}
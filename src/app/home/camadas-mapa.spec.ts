@@ -0,0 +1,12 @@
+import { FONTES_TILES_PADRAO } from '../config/config-app';
+import { escolherFonte } from './camadas-mapa';
+
+describe('camadas-mapa', () => {
+  it('usa o fundo escolhido enquanto ele existir na configuração', () => {
+    expect(escolherFonte(FONTES_TILES_PADRAO, 'escuro', 'osm').id).toBe('escuro');
+
+    // Fundo removido da configuração: volta para o padrão, ou para o primeiro
+    expect(escolherFonte(FONTES_TILES_PADRAO, 'satelite', 'escuro').id).toBe('escuro');
+    expect(escolherFonte(FONTES_TILES_PADRAO, '', 'inexistente').id).toBe('osm');
+  });
+});
@@ -0,0 +1,100 @@
+import { FonteTiles } from '../config/config-app';
+import { ChaveMensagem } from '../i18n/mensagens.pt';
+import { TraducaoService } from '../i18n/traducao.service';
+
+/**
+ * Grupos que o usuário liga e desliga no controle de camadas
+ */
+export type IdSobreposicao = 'onibus' | 'paradas' | 'tracados' | 'localizacao';
+
+/** Ordem no controle de camadas e a chave do nome no catálogo de mensagens */
+const SOBREPOSICOES: [IdSobreposicao, ChaveMensagem][] = [
+    ['onibus', 'camadas.onibus'],
+    ['paradas', 'camadas.paradas'],
+    ['tracados', 'camadas.tracados'],
+    ['localizacao', 'camadas.localizacao']
+];
+
+/**
+ * Fundo que vale: o escolhido (se ainda existir na configuração), o padrão ou o primeiro
+ */
+export function escolherFonte(fontes: FonteTiles[], escolhida: string, padrao: string): FonteTiles {
+    return fontes.find(fonte => fonte.id === escolhida)
+        ?? fontes.find(fonte => fonte.id === padrao)
+        ?? fontes[0];
+}
+
+/**
+ * 🗂️ CAMADAS DO MAPA
+ *
+ * Registra os fundos (um tile layer por FonteTiles da configuração) e os
+ * grupos desenhados por cima (ônibus, paradas, traçados, localização) no
+ * controle de camadas do Leaflet. Só um fundo fica ativo; a troca é avisada
+ * em `aoTrocarFundo`, para quem usa guardar a escolha.
+ *
+ * Exemplo de uso:
+ * ```
+ * const camadas = new CamadasMapa(L, mapa, traducao, config.camadasBase, 'osm', id => salvar(id));
+ * const grupoParadas = camadas.sobreposicao('paradas');
+ * L.marker([lat, lng]).addTo(grupoParadas);
+ * ```
+ */
+export class CamadasMapa {
+
+    private readonly fundos = new Map<string, { fonte: FonteTiles; camada: any }>();   // camada: L.TileLayer
+    private readonly grupos = new Map<IdSobreposicao, any>();                            // L.LayerGroup
+    private controle: any;                                                                // L.Control.Layers
+    private fundoAtual: string;
+
+    constructor(
+        private L: any,
+        private mapa: any,
+        private traducao: TraducaoService,
+        fontes: FonteTiles[],
+        fundoInicial: string,
+        private aoTrocarFundo: (id: string) => void
+    ) {
+        fontes.forEach(fonte => this.fundos.set(fonte.id, {
+            fonte,
+            camada: L.tileLayer(fonte.url, { maxZoom: fonte.maxZoom, attribution: fonte.atribuicao })
+        }));
+        SOBREPOSICOES.forEach(([id]) => this.grupos.set(id, L.layerGroup().addTo(mapa)));
+
+        this.fundoAtual = fundoInicial;
+        this.fundos.get(fundoInicial)?.camada.addTo(mapa);
+
+        mapa.on('baselayerchange', (evento: { layer: any }) => {
+            const escolhido = [...this.fundos.entries()].find(([, { camada }]) => camada === evento.layer);
+            if (!escolhido || escolhido[0] === this.fundoAtual) return;
+            this.fundoAtual = escolhido[0];
+            this.aoTrocarFundo(this.fundoAtual);
+        });
+
+        this.montarControle();
+    }
+
+    /**
+     * Grupo onde desenhar uma sobreposição (fica no mapa enquanto o usuário não desligar)
+     */
+    sobreposicao(id: IdSobreposicao): any {
+        return this.grupos.get(id);
+    }
+
+    /**
+     * Remonta o controle com os nomes no idioma atual
+     */
+    traduzir(): void {
+        this.controle?.remove();
+        this.montarControle();
+    }
+
+    private montarControle(): void {
+        const fundos: Record<string, any> = {};
+        this.fundos.forEach(({ fonte, camada }) => fundos[fonte.nome] = camada);
+
+        const sobreposicoes: Record<string, any> = {};
+        SOBREPOSICOES.forEach(([id, chave]) => sobreposicoes[this.traducao.traduzir(chave)] = this.grupos.get(id));
+
+        this.controle = this.L.control.layers(fundos, sobreposicoes, { position: 'topright' }).addTo(this.mapa);
+    }
+}
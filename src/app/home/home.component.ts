@@ -1,11 +1,1563 @@
-import { Component } from '@angular/core';
+import { Component, OnInit, AfterViewInit, OnDestroy, Inject, NgZone, PLATFORM_ID } from '@angular/core';
+import { CommonModule, isPlatformBrowser } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, NavigationEnd, Router } from '@angular/router';
+import { EMPTY, Subject, Subscription, forkJoin, interval, of } from 'rxjs';
+import { catchError, distinctUntilChanged, filter, map, startWith, switchMap } from 'rxjs/operators';
+import { SptransService } from '../app.service';
+import { GtfsService } from '../gtfs/gtfs.service';
+import { ResumoGtfs } from '../models/gtfs.model';
+import { classificarErro } from '../models/erros-api';
+import { NotificacaoService } from '../notificacoes/notificacao.service';
+import { EstadoSessao, SessaoService } from '../sessao/sessao.service';
+import { FavoritosService, ModoBusca } from '../favoritos/favoritos.service';
+import { AtalhoBusca, AtalhosBuscaComponent } from '../favoritos/atalhos-busca.component';
+import { SugestaoLinhasService, SugestoesLinhas, TAMANHO_MINIMO_TERMO } from '../sugestao-linhas.service';
+import { AtualizacaoPosicoesService, EstadoAtualizacao } from '../atualizacao-posicoes.service';
+import { Linha, Parada, PosicoesLinha, ProgressoPosicoes, ResultadoLinha, Sentido, TracadoLinha, Veiculo } from '../models/sptrans.model';
+import { PainelParadaComponent } from '../painel-parada/painel-parada.component';
+import { CamadaFrota } from './camada-frota';
+import { CamadaReproducao } from './camada-reproducao';
+import { CamadasMapa, escolherFonte } from './camadas-mapa';
+import { CORES_SENTIDO } from './sentido';
+import { Arredores, ErroLocalizacao, PertoDeMimService, RAIO_PADRAO_METROS } from '../perto/perto-de-mim.service';
+import { PainelPertoComponent } from '../perto/painel-perto.component';
+import { CamadaPerto } from '../perto/camada-perto';
+import { AmostraPosicao, HistoricoVeiculosService } from '../veiculo/historico-veiculos.service';
+import { PainelVeiculoComponent } from '../veiculo/painel-veiculo.component';
+import { Coordenada } from '../perto/distancia';
+import { CamadaServico, DestaqueOnibus } from '../servico/camada-servico';
+import { PainelServicoComponent } from '../servico/painel-servico.component';
+import { GravacaoService } from '../gravacao/gravacao.service';
+import { ControlesGravacaoComponent } from '../gravacao/controles-gravacao.component';
+import { QuadroReproducao } from '../gravacao/reproducao';
+import { PainelReproducaoComponent } from '../gravacao/painel-reproducao.component';
+import { PosicoesExportadas } from '../exportacao/formatos-exportacao';
+import { MenuExportacaoComponent } from '../exportacao/menu-exportacao.component';
+import { FichaLinhaComponent } from '../linha/ficha-linha.component';
+import { PreferenciasService } from '../preferencias/preferencias.service';
+import { TraducaoService } from '../i18n/traducao.service';
+import { TraduzirPipe } from '../i18n/traduzir.pipe';
+import { DataLocalPipe } from '../i18n/data-local.pipe';
+import { CONFIG_APP, ConfigApp } from '../config/config-app';
+import { RotaMapa, TipoRotaMapa, Viewport, lerSentido, lerViewport, mesmoViewport, paramsDoViewport } from './rota-mapa';
 
+/** Duração da animação de um marcador até a nova posição (ms) */
+const DURACAO_ANIMACAO_MS = 1500;
+
+/** Zoom ao centralizar o mapa na posição do usuário */
+const ZOOM_PERTO = 16;
+
+/**
+ * Marcador de um veículo no mapa, identificado pelo prefixo (p)
+ */
+interface MarcadorVeiculo {
+  marcador: any;          // L.Marker
+  linha: Linha;           // linha que o veículo está atendendo (o sentido define a cor do ícone)
+  acessivel: boolean;
+  animacao?: number;      // id do requestAnimationFrame em andamento
+  destaque?: DestaqueOnibus | null;   // alerta do serviço da linha (classe no ícone)
+}
+
+/**
+ * 🗺️ PÁGINA DO MAPA
+ * 
+ * Este é o componente que gerencia:
+ * - O mapa Leaflet
+ * - A busca de linhas de ônibus, com sugestões enquanto o usuário digita
+ * - A exibição dos ônibus no mapa, com o traçado de cada sentido da linha
+ * - A ficha da linha abaixo do mapa (terminais e paradas), que também sai no HTML do SSR
+ * - O painel do ônibus clicado, com o rastro das últimas posições
+ * - O serviço de cada linha: intervalo entre os ônibus, comboios, lacunas e ônibus sem sinal
+ * - A frota inteira da cidade (/frota)
+ * - A exportação do mapa em GeoJSON, CSV e GPX
+ * - A gravação das posições das linhas e a reprodução de um período gravado (/reproducao)
+ * - O modo "perto de mim" (paradas e ônibus em volta do usuário)
+ * - A atualização automática das posições
+ * - As paradas e o painel de previsão de chegada
+ * - O carregamento do GTFS para consultas offline
+ * - O estado da sessão com a API Olho Vivo
+ * - Os favoritos e as buscas recentes
+ * - O estado na URL (/mapa, /linha/:codigo, /parada/:codigo e ?lat=&lng=&z=)
+ * - A acessibilidade: filtro de ônibus acessíveis, navegação pelos ônibus
+ *   com o teclado e anúncios para leitores de tela
+ */
 @Component({
   selector: 'app-home',
-  imports: [],
+  imports: [
+    CommonModule, FormsModule, TraduzirPipe, DataLocalPipe,
+    PainelParadaComponent, PainelPertoComponent, PainelVeiculoComponent, PainelServicoComponent,
+    PainelReproducaoComponent, ControlesGravacaoComponent, MenuExportacaoComponent, AtalhosBuscaComponent,
+    FichaLinhaComponent
+  ],
   templateUrl: './home.component.html',
   styleUrl: './home.component.scss'
 })
-export class HomeComponent {
+export class HomeComponent implements OnInit, AfterViewInit, OnDestroy {
 
-}
+  termoBusca = '';          // O que o usuário digitou na busca
+  modoBusca: ModoBusca = 'linhas'; // O que a busca procura
+  carregando = false;       // Mostra o spinner de loading
+  mapaCarregado = false;    // Se o mapa já foi inicializado
+  totalBuscas = 0;          // Contador de buscas realizadas
+  ultimoErro = '';          // Última mensagem de erro
+  marcadoresOnibus = new Map<string, MarcadorVeiculo>(); // Marcadores por prefixo (público para o HTML)
+  progressoBusca: ProgressoPosicoes | null = null;       // Andamento da busca de posições das linhas
+
+  // Sugestões de linhas enquanto digita
+  sugestoes: SugestoesLinhas | null = null;
+  mostrarSugestoes = false;
+  sugestaoAtiva = -1;       // índice destacado pelas setas do teclado
+  readonly tamanhoMinimoSugestao = TAMANHO_MINIMO_TERMO;
+
+  // Atualização automática
+  estadoAtualizacao: EstadoAtualizacao | null = null;
+  intervaloSegundos: number;               // começa com o intervalo da configuração (ConfigApp)
+  readonly opcoesIntervalo: number[];
+  ultimaReferencia: Date | null = null;  // hr mais recente recebido
+  linhasOffline = new Set<number>();     // linhas mostradas com as últimas posições guardadas (sem conexão)
+  agora = Date.now();                    // relógio para a idade do hr
+
+  // Sentidos das linhas buscadas (legenda das cores do traçado e dos ônibus)
+  linhasNoMapa: Linha[] = [];
+  readonly coresSentido = CORES_SENTIDO;
+
+  // Frota inteira
+  modoFrota = false;
+  frotaVisiveis = 0;   // ônibus desenhados (área visível)
+  frotaTotal = 0;      // ônibus na última resposta de /Posicao
+
+  // Reprodução
+  modoReproducao = false;
+  quadroReproducao: { instante: Date; total: number } | null = null;   // quadro exibido agora
+
+  // Ônibus de cada linha no mapa, na última posição recebida (exportação e serviço)
+  onibusPorLinha: PosicoesExportadas[] = [];
+  readonly tracadosCarregados = new Map<number, TracadoLinha>();   // por código da linha
+
+  // Perto de mim
+  modoPerto = false;
+  arredores: Arredores | null = null;
+  buscandoArredores = false;
+  raioPerto = RAIO_PADRAO_METROS;
+  readonly raiosPerto = [300, 500, 1000, 2000];
+
+  // GTFS offline
+  resumoGtfs: ResumoGtfs | null = null;
+  carregandoGtfs = false;
+
+  // Sessão com a API Olho Vivo
+  estadoSessao: EstadoSessao | null = null;
+
+  // Ônibus clicado (painel do veículo)
+  veiculoSelecionado: string | null = null;   // prefixo
+  amostrasSelecionado: AmostraPosicao[] = [];
+
+  // Serviço das linhas (intervalos, comboios, lacunas)
+  mostrarServico = false;
+  camadaServico: CamadaServico | null = null;   // análise de cada linha e as lacunas no mapa
+
+  // Acessibilidade
+  somenteAcessiveis = false;   // esconde os ônibus sem acessibilidade (preferência guardada)
+  anuncio = '';                // texto da região aria-live (lido pelos leitores de tela)
+
+  // Paradas
+  totalParadas = 0;
+  paradaSelecionada: Parada | null = null;  // Parada com o painel de previsão aberto
+
+
+  private mapa: any;                    // Objeto do mapa Leaflet
+  private L: any;                       // Biblioteca Leaflet
+  private camadas: CamadasMapa | null = null;   // fundos do mapa e o controle de camadas
+  private camadaOnibus: any;            // L.LayerGroup com os ônibus (busca, frota e rastro)
+  private camadaParadas: any;           // L.LayerGroup com os marcadores de parada
+  private camadaTracados: any;          // L.LayerGroup com as polylines das linhas
+  private camadaRastro: any;            // L.LayerGroup com o rastro do ônibus selecionado
+  private inscricaoTracados?: Subscription;
+  private iconesOnibus = new Map<string, any>();    // L.DivIcon por sentido e acessibilidade
+  private isBrowser: boolean;           // Se está rodando no navegador
+  private inscricoes = new Subscription();
+  private buscaPosicoes?: Subscription; // Busca de linhas em andamento (cancelada por uma nova)
+  private camadaFrota: CamadaFrota | null = null;
+  private inscricaoFrota?: Subscription;
+  private camadaReproducao: CamadaReproducao | null = null;
+  private camadaPerto: CamadaPerto | null = null;
+  private inscricaoPerto?: Subscription;
+  private origemPerto: Coordenada | null = null;
+
+  // Estado espelhado na URL
+  private linhaExibida: string | null = null;     // termo de /linha/:codigo que está no mapa
+  private sentidoExibido: Sentido | null = null;  // sentido de /linha/:codigo/:sentido
+  private digitado = new Subject<string>();        // texto do campo de busca, para as sugestões
+  private rotaPendente: RotaMapa | null = null;   // rota recebida antes do mapa existir
+  private paradasConhecidas = new Map<number, Parada>();
+
+  constructor(
+    private sptransService: SptransService,
+    private atualizacao: AtualizacaoPosicoesService,
+    private gtfs: GtfsService,
+    private notificacoes: NotificacaoService,
+    private sessao: SessaoService,
+    private favoritos: FavoritosService,
+    private sugestaoLinhas: SugestaoLinhasService,
+    private perto: PertoDeMimService,
+    private historico: HistoricoVeiculosService,
+    private gravacao: GravacaoService,
+    private preferencias: PreferenciasService,
+    public traducao: TraducaoService,
+    private zona: NgZone,
+    private router: Router,
+    private route: ActivatedRoute,
+    @Inject(PLATFORM_ID) platformId: Object,
+    @Inject(CONFIG_APP) private config: ConfigApp
+  ) {
+    // Verifica se está no navegador
+    this.isBrowser = isPlatformBrowser(platformId);
+
+    // O intervalo configurado entra na lista de opções, se ainda não estiver
+    this.intervaloSegundos = Math.round(config.intervaloAtualizacaoMs / 1000);
+    this.opcoesIntervalo = [...new Set([10, 15, 30, 60, this.intervaloSegundos])].sort((a, b) => a - b);
+  }
+
+  async ngOnInit(): Promise<void> {
+    // Só carrega Leaflet se estiver no navegador
+    if (!this.isBrowser) return;
+
+    // Rota atual e as próximas navegações (linha, parada, viewport)
+    this.aoMudarRota(this.lerRota());
+    this.inscricoes.add(
+      this.router.events.pipe(
+        filter(evento => evento instanceof NavigationEnd)
+      ).subscribe(() => this.aoMudarRota(this.lerRota()))
+    );
+
+    try {
+      // Carrega a biblioteca Leaflet 
+      const leaflet = await import('leaflet');
+      this.L = leaflet.default;
+      console.log('✅ Leaflet carregado');
+    } catch (erro) {
+      console.error('❌ Erro ao carregar Leaflet:', erro);
+    }
+
+    // Atualização automática: move os marcadores a cada rodada
+    this.inscricoes.add(
+      this.atualizacao.atualizacoes$.subscribe(resultados => {
+        resultados.forEach(({ linha, posicoes }) => this.sincronizarMarcadores(linha, posicoes));
+      })
+    );
+    this.inscricoes.add(
+      this.atualizacao.estado$.subscribe(estado => this.estadoAtualizacao = estado)
+    );
+
+    this.inscricoes.add(
+      this.gtfs.resumo$.subscribe(resumo => this.resumoGtfs = resumo)
+    );
+    this.inscricoes.add(
+      this.sessao.estado$.subscribe(estado => this.estadoSessao = estado)
+    );
+    this.inscricoes.add(
+      this.sugestaoLinhas.acompanhar(this.digitado).subscribe(sugestoes => {
+        this.sugestoes = sugestoes;
+        this.sugestaoAtiva = -1;
+        if (!sugestoes.carregando && sugestoes.termo.length >= TAMANHO_MINIMO_TERMO) {
+          this.anunciar(sugestoes.erro
+            ? this.traducao.mensagemDoErro(sugestoes.erro)
+            : this.traducao.traduzir('sugestoes.anuncio', { total: sugestoes.linhas.length }));
+        }
+      })
+    );
+    this.inscricoes.add(
+      this.preferencias.preferencias$.pipe(
+        map(preferencias => preferencias.somenteAcessiveis),
+        distinctUntilChanged()
+      ).subscribe(somenteAcessiveis => {
+        this.somenteAcessiveis = somenteAcessiveis;
+        this.aplicarFiltroAcessiveis();
+      })
+    );
+
+    this.inscricoes.add(
+      this.traducao.idioma$.subscribe(() => this.camadas?.traduzir())
+    );
+
+    // Relógio para mostrar "há X s" na info-bar
+    this.inscricoes.add(interval(1000).subscribe(() => this.agora = Date.now()));
+  }
+
+  ngOnDestroy(): void {
+    this.inscricoes.unsubscribe();
+    this.buscaPosicoes?.unsubscribe();
+    this.desativarFrota();
+    this.desativarPerto();
+    this.atualizacao.parar();
+  }
+
+
+  ngAfterViewInit(): void {
+    if (!this.isBrowser) return;
+    // Aguarda um pouco para garantir que tudo está pronto
+    setTimeout(() => {
+      this.criarMapa();
+    }, 100);
+  }
+
+
+  // MÉTODOS DO MAPA
+
+  // Cria e inicializa o mapa Leaflet
+
+  private criarMapa(): void {
+    if (!this.L) {
+      console.error('❌ Leaflet não foi carregado');
+      return;
+    }
+
+    try {
+      // 1. Centro configurado (padrão: centro de São Paulo), ou o viewport que veio na URL
+      const viewport = this.rotaPendente?.viewport ?? this.config.centroMapa;
+
+      // 2. Cria o mapa na div com id="map"
+      this.mapa = this.L.map('map').setView([viewport.lat, viewport.lng], viewport.zoom);
+
+      // 3. Fundo (tiles) escolhido pelo usuário entre os da configuração, e o controle de camadas
+      const fonte = escolherFonte(this.config.camadasBase, this.preferencias.atuais.camadaMapa, this.config.camadaBasePadrao);
+      this.camadas = new CamadasMapa(this.L, this.mapa, this.traducao, this.config.camadasBase, fonte.id,
+        id => this.preferencias.alterar({ camadaMapa: id }));
+
+      // 4. Camadas separadas para os ônibus, os traçados, as paradas e o rastro (podem ser limpas
+      //    sem afetar umas às outras, e o usuário liga e desliga cada uma no controle)
+      this.camadaOnibus = this.camadas.sobreposicao('onibus');
+      this.camadaTracados = this.camadas.sobreposicao('tracados');
+      this.camadaParadas = this.camadas.sobreposicao('paradas');
+      this.camadaRastro = this.L.layerGroup().addTo(this.camadaOnibus);
+      this.camadaServico = new CamadaServico(this.L, this.camadaOnibus, this.traducao);
+
+      // 5. Sempre que o mapa parar de mexer: redesenha a frota da área visível
+      //    e guarda posição e zoom na URL
+      this.mapa.on('moveend', () => this.zona.run(() => {
+        this.redesenharFrota();
+        this.guardarViewportNaUrl();
+      }));
+
+      // Marca que o mapa foi carregado
+      this.mapaCarregado = true;
+      console.log('✅ Mapa criado com sucesso');
+
+      // Aplica a rota que chegou antes do mapa existir
+      if (this.rotaPendente) {
+        const rota = this.rotaPendente;
+        this.rotaPendente = null;
+        this.aoMudarRota(rota);
+      }
+
+    } catch (erro) {
+      console.error('❌ Erro ao criar mapa:', erro);
+      this.ultimoErro = this.traducao.traduzir('mapa.erroCriar', { erro: String(erro) });
+    }
+  }
+
+
+  // ROTAS E URL
+
+  /**
+   * Lê o estado do mapa da URL atual
+   */
+  private lerRota(): RotaMapa {
+    const filha = this.route.firstChild?.snapshot;
+    return {
+      tipo: (filha?.data['tipo'] ?? 'mapa') as TipoRotaMapa,
+      codigo: filha?.paramMap.get('codigo') ?? null,
+      sentido: lerSentido(filha?.paramMap.get('sentido') ?? null),
+      viewport: lerViewport(this.route.snapshot.queryParamMap)
+    };
+  }
+
+  /**
+   * Aplica a rota no mapa: viewport, busca da linha ou parada selecionada.
+   * É chamado também para navegações feitas pelo próprio componente,
+   * por isso só age quando a URL pede algo diferente do que já está no mapa.
+   */
+  private aoMudarRota(rota: RotaMapa): void {
+    if (!this.mapa) {
+      this.rotaPendente = rota;
+      return;
+    }
+
+    if (rota.viewport && !mesmoViewport(rota.viewport, this.viewportAtual())) {
+      this.mapa.setView([rota.viewport.lat, rota.viewport.lng], rota.viewport.zoom);
+    }
+
+    // Quando a URL já traz o viewport, ele tem prioridade sobre o zoom automático
+    const ajustarZoom = !rota.viewport;
+
+    if (rota.tipo !== 'frota') {
+      this.desativarFrota();
+    }
+    if (rota.tipo !== 'reproducao') {
+      this.desativarReproducao();
+    }
+
+    switch (rota.tipo) {
+      case 'linha':
+        this.paradaSelecionada = null;
+        if (rota.codigo && (rota.codigo !== this.linhaExibida || rota.sentido !== this.sentidoExibido)) {
+          this.modoBusca = 'linhas';
+          this.termoBusca = rota.codigo;
+          this.linhaExibida = rota.codigo;
+          this.sentidoExibido = rota.sentido;
+          this.executarBuscaLinhas(rota.codigo, ajustarZoom, rota.sentido);
+        }
+        break;
+
+      case 'parada':
+        if (rota.codigo && Number.isInteger(Number(rota.codigo))) {
+          this.abrirParada(Number(rota.codigo), ajustarZoom);
+        }
+        break;
+
+      case 'frota':
+        this.paradaSelecionada = null;
+        this.esquecerLinha();
+        this.ativarFrota();
+        break;
+
+      case 'reproducao':
+        this.paradaSelecionada = null;
+        this.esquecerLinha();
+        this.ativarReproducao();
+        break;
+
+      default:
+        this.paradaSelecionada = null;
+        this.esquecerLinha();
+    }
+  }
+
+  /**
+   * Tira do mapa a linha que veio de /linha/:codigo
+   */
+  private esquecerLinha(): void {
+    if (!this.linhaExibida) return;
+    this.linhaExibida = null;
+    this.sentidoExibido = null;
+    this.atualizacao.parar();
+    this.limparMarcadores();
+  }
+
+  /**
+   * Rota da linha que está no mapa: /linha/:codigo ou /linha/:codigo/:sentido
+   */
+  private rotaDaLinha(): any[] {
+    return this.sentidoExibido ? ['/linha', this.linhaExibida, this.sentidoExibido] : ['/linha', this.linhaExibida];
+  }
+
+  /**
+   * Navega mantendo o viewport atual nos query params
+   */
+  private navegar(comandos: any[]): void {
+    this.router.navigate(comandos, { queryParamsHandling: 'preserve' });
+  }
+
+  private viewportAtual(): Viewport | null {
+    if (!this.mapa) return null;
+    const centro = this.mapa.getCenter();
+    return { lat: centro.lat, lng: centro.lng, zoom: this.mapa.getZoom() };
+  }
+
+  /**
+   * Escreve o viewport atual na URL (sem criar nova entrada no histórico)
+   */
+  private guardarViewportNaUrl(): void {
+    const viewport = this.viewportAtual();
+    if (!viewport || mesmoViewport(viewport, lerViewport(this.route.snapshot.queryParamMap))) return;
+
+    const arvore = this.router.parseUrl(this.router.url);
+    arvore.queryParams = { ...arvore.queryParams, ...paramsDoViewport(viewport) };
+    this.router.navigateByUrl(arvore, { replaceUrl: true });
+  }
+
+  // REPRODUÇÃO
+
+  /**
+   * Liga ou desliga a reprodução (pela URL: /reproducao ou /mapa)
+   */
+  alternarReproducao(): void {
+    this.navegar([this.modoReproducao ? '/mapa' : '/reproducao']);
+  }
+
+  /**
+   * Desenha o quadro emitido pelo painel de reprodução
+   */
+  exibirQuadro(quadro: QuadroReproducao): void {
+    if (!this.camadaReproducao) return;
+    this.camadaReproducao.desenhar(quadro);
+    this.quadroReproducao = { instante: quadro.instante, total: this.camadaReproducao.total };
+  }
+
+  private ativarReproducao(): void {
+    if (this.modoReproducao) return;
+    this.modoReproducao = true;
+    this.camadaReproducao = new CamadaReproducao(this.L, this.camadaOnibus, this.traducao);
+  }
+
+  private desativarReproducao(): void {
+    if (!this.modoReproducao) return;
+    this.modoReproducao = false;
+    this.camadaReproducao?.remover();
+    this.camadaReproducao = null;
+    this.quadroReproducao = null;
+  }
+
+  // FROTA INTEIRA
+
+  /**
+   * Liga ou desliga a frota inteira (pela URL: /frota ou /mapa)
+   */
+  alternarFrota(): void {
+    this.navegar([this.modoFrota ? '/mapa' : '/frota']);
+  }
+
+  private ativarFrota(): void {
+    if (this.modoFrota) return;
+    this.modoFrota = true;
+    this.camadaFrota = new CamadaFrota(this.L, this.mapa, this.traducao, this.camadaOnibus);
+    this.camadaFrota.somenteAcessiveis = this.somenteAcessiveis;
+    this.acompanharFrota();
+  }
+
+  private desativarFrota(): void {
+    if (!this.modoFrota) return;
+    this.modoFrota = false;
+    this.inscricaoFrota?.unsubscribe();
+    this.camadaFrota?.remover();
+    this.camadaFrota = null;
+    this.frotaVisiveis = 0;
+    this.frotaTotal = 0;
+    this.ultimaReferencia = null;
+  }
+
+  /**
+   * Busca a frota agora e depois a cada intervalo. Uma falha não interrompe o ciclo.
+   */
+  private acompanharFrota(): void {
+    this.inscricaoFrota?.unsubscribe();
+    this.inscricaoFrota = interval(this.intervaloSegundos * 1000).pipe(
+      startWith(0),
+      switchMap(() => this.sptransService.buscarPosicoesFrota().pipe(
+        catchError(erro => {
+          // O aviso se repete a cada falha, mas a notificação igual é substituída
+          this.ultimoErro = this.traducao.resumoDoErro(classificarErro(erro, 'atualizar a frota'));
+          this.notificacoes.aviso(this.traducao.traduzir('frota.falhaAtualizar'));
+          return EMPTY;
+        })
+      ))
+    ).subscribe(frota => {
+      this.ultimoErro = '';
+      this.ultimaReferencia = frota.referencia;
+      this.camadaFrota?.atualizar(frota);
+      this.frotaTotal = frota.totalVeiculos;
+      this.frotaVisiveis = this.camadaFrota?.visiveis ?? 0;
+      console.log(`🌐 Frota: ${frota.totalVeiculos} ônibus em ${frota.linhas.length} linha(s), ${this.frotaVisiveis} na tela`);
+    });
+  }
+
+  private redesenharFrota(): void {
+    if (!this.camadaFrota) return;
+    this.camadaFrota.redesenhar();
+    this.frotaVisiveis = this.camadaFrota.visiveis;
+  }
+
+  // PERTO DE MIM
+
+  /**
+   * Liga ou desliga o modo "perto de mim" (pede a localização ao navegador)
+   */
+  alternarPerto(): void {
+    if (this.modoPerto) {
+      this.desativarPerto();
+      return;
+    }
+
+    this.modoPerto = true;
+    this.buscandoArredores = true;
+    this.inscricaoPerto = this.perto.localizar().subscribe({
+      next: origem => {
+        this.origemPerto = origem;
+        this.mapa.setView([origem.lat, origem.lng], ZOOM_PERTO);
+        this.camadaPerto = new CamadaPerto(this.L, this.camadas!.sobreposicao('localizacao'), this.traducao);
+        this.acompanharArredores();
+      },
+      error: erro => {
+        // Sem localização o mapa continua onde estava
+        this.desativarPerto();
+        const motivo = erro instanceof ErroLocalizacao ? erro.motivo : 'indisponivel';
+        this.notificacoes.aviso(this.traducao.traduzir(`perto.erro.${motivo}`), { titulo: this.traducao.traduzir('perto.titulo') });
+      }
+    });
+  }
+
+  alterarRaioPerto(raio: number): void {
+    this.raioPerto = raio;
+    this.perto.reiniciar();
+    this.acompanharArredores();
+  }
+
+  desativarPerto(): void {
+    this.inscricaoPerto?.unsubscribe();
+    this.camadaPerto?.remover();
+    this.camadaPerto = null;
+    this.origemPerto = null;
+    this.arredores = null;
+    this.modoPerto = false;
+    this.buscandoArredores = false;
+    this.perto.reiniciar();
+  }
+
+  /**
+   * Atualiza os arredores no mesmo intervalo da atualização automática. Uma falha não interrompe o ciclo.
+   */
+  private acompanharArredores(): void {
+    const origem = this.origemPerto;
+    if (!origem) return;
+
+    this.inscricaoPerto?.unsubscribe();
+    this.buscandoArredores = true;
+    this.inscricaoPerto = interval(this.intervaloSegundos * 1000).pipe(
+      startWith(0),
+      switchMap(() => this.perto.buscarArredores(origem, this.raioPerto, [...this.paradasConhecidas.values()]).pipe(
+        catchError(erro => {
+          this.buscandoArredores = false;
+          this.ultimoErro = this.traducao.resumoDoErro(classificarErro(erro, 'buscar os ônibus próximos'));
+          this.notificacoes.aviso(this.traducao.traduzir('perto.falhaAtualizar'));
+          return EMPTY;
+        })
+      ))
+    ).subscribe(arredores => {
+      // As paradas do GTFS só mudam na primeira resposta ou quando o raio muda
+      const raioNovo = this.arredores?.raioMetros !== arredores.raioMetros;
+      this.arredores = arredores;
+      this.buscandoArredores = false;
+      this.camadaPerto?.atualizar(arredores);
+      if (raioNovo && arredores.fonteParadas === 'gtfs') {
+        this.desenharParadas(arredores.paradas.map(proxima => proxima.item));
+      }
+    });
+  }
+
+  // GTFS OFFLINE
+
+  /**
+   * Carrega o .zip do GTFS escolhido no input de arquivo
+   */
+  carregarGtfs(evento: Event): void {
+    const input = evento.target as HTMLInputElement;
+    const arquivo = input.files?.[0];
+    if (!arquivo) return;
+
+    this.carregandoGtfs = true;
+    this.gtfs.carregarArquivo(arquivo).subscribe({
+      next: resumo => {
+        this.carregandoGtfs = false;
+        input.value = '';
+        this.notificacoes.sucesso(this.traducao.traduzir('gtfs.resumo', {
+          rotas: resumo.rotas,
+          paradas: resumo.paradas,
+          horarios: resumo.horarios
+        }), {
+          titulo: this.traducao.traduzir('gtfs.carregado')
+        });
+      },
+      error: erro => {
+        this.carregandoGtfs = false;
+        input.value = '';
+        console.error('❌ Erro ao carregar GTFS:', erro);
+        this.notificacoes.erro(`${erro?.message ?? erro}`, { titulo: this.traducao.traduzir('gtfs.falha') });
+      }
+    });
+  }
+
+  // PARADA SELECIONADA
+
+  /**
+   * Abre o painel da parada (chamado pelo clique no marcador)
+   */
+  selecionarParada(parada: Parada): void {
+    this.paradasConhecidas.set(parada.codigo, parada);
+    this.navegar(['/parada', parada.codigo]);
+  }
+
+  /**
+   * Abre uma parada favorita (o painel busca nome e posição pela previsão)
+   */
+  abrirParadaFavorita(codigo: number): void {
+    this.navegar(['/parada', codigo]);
+  }
+
+  fecharParada(): void {
+    this.navegar(this.linhaExibida ? this.rotaDaLinha() : ['/mapa']);
+  }
+
+  /**
+   * Mostra a parada da URL. Se ela não veio de uma busca, os dados
+   * (nome e posição) vêm da própria previsão de chegada.
+   */
+  private abrirParada(codigo: number, centralizar: boolean): void {
+    if (this.paradaSelecionada?.codigo === codigo) return;
+
+    const conhecida = this.paradasConhecidas.get(codigo);
+    if (conhecida) {
+      this.paradaSelecionada = conhecida;
+      return;
+    }
+
+    this.sptransService.buscarPrevisaoParada(codigo).subscribe({
+      next: previsao => {
+        if (!previsao.parada) {
+          this.notificacoes.aviso(this.traducao.traduzir('parada.naoEncontrada', { codigo }));
+          return;
+        }
+        const parada = previsao.parada;
+        if (this.totalParadas === 0) {
+          this.desenharParadas([parada]);
+        }
+        this.paradasConhecidas.set(parada.codigo, parada);
+        this.paradaSelecionada = parada;
+        if (centralizar) {
+          this.mapa.setView([parada.lat, parada.lng], 17);
+        }
+      },
+      error: erro => {
+        this.ultimoErro = this.traducao.resumoDoErro(classificarErro(erro, 'abrir a parada'));
+        this.notificacoes.erroApi(erro, () => this.abrirParada(codigo, centralizar));
+      }
+    });
+  }
+
+  removerMarcadores(): void {
+    this.atualizacao.parar();
+    this.limparMarcadores();
+    this.linhaExibida = null;
+    this.sentidoExibido = null;
+    this.navegar(['/mapa']);
+    console.log('🗑️ Marcadores removidos pelo usuário');
+  }
+  private limparMarcadores(): void {
+    // Uma busca de posições ainda em andamento desenharia por cima do mapa limpo
+    this.buscaPosicoes?.unsubscribe();
+    this.progressoBusca = null;
+
+    if (!this.mapa) return;
+    this.marcadoresOnibus.forEach(item => this.removerMarcador(item));
+    // Limpa a lista
+    this.marcadoresOnibus.clear();
+    this.fecharVeiculo();
+    this.ultimaReferencia = null;
+    this.linhasOffline.clear();
+    this.onibusPorLinha = [];
+    this.camadaServico?.limpar();
+    this.limparTracados();
+    this.limparParadas();
+  }
+
+  private limparTracados(): void {
+    this.inscricaoTracados?.unsubscribe();
+    this.camadaTracados?.clearLayers();
+    this.tracadosCarregados.clear();
+    this.linhasNoMapa = [];
+  }
+
+  private limparParadas(): void {
+    this.camadaParadas?.clearLayers();
+    this.totalParadas = 0;
+    this.paradaSelecionada = null;
+  }
+
+  /**
+   * Desenha as paradas no mapa. Clicar em uma parada abre o painel de previsão.
+   */
+  private desenharParadas(paradas: Parada[]): void {
+    if (!this.L || !this.camadaParadas) return;
+    this.camadaParadas.clearLayers();
+
+    paradas.forEach(parada => {
+      this.paradasConhecidas.set(parada.codigo, parada);
+      this.L.circleMarker([parada.lat, parada.lng], {
+        radius: 6,
+        color: '#0056b3',
+        weight: 2,
+        fillColor: '#ffffff',
+        fillOpacity: 1
+      })
+        .bindTooltip(this.traducao.traduzir('mapa.dicaParada', { nome: parada.nome || parada.codigo }))
+        // Eventos do Leaflet podem vir de fora da zona do Angular
+        .on('click', () => this.zona.run(() => this.selecionarParada(parada)))
+        .addTo(this.camadaParadas);
+    });
+
+    this.totalParadas = paradas.length;
+  }
+
+  /**
+   * Busca e desenha o traçado de cada linha (um por sentido).
+   * Linhas sem traçado simplesmente ficam só com os ônibus.
+   */
+  private carregarTracados(linhas: Linha[]): void {
+    this.inscricaoTracados?.unsubscribe();
+    this.linhasNoMapa = linhas;
+    this.inscricaoTracados = forkJoin(linhas.map(linha => this.sptransService.buscarTracado(linha.codigo).pipe(
+      // Sem traçado a linha continua só com os ônibus
+      catchError(() => of(null))
+    )))
+      .subscribe(tracados => {
+        tracados.forEach((tracado, i) => {
+          if (!tracado) return;
+          this.tracadosCarregados.set(linhas[i].codigo, tracado);
+          this.desenharTracado(tracado, linhas[i]);
+        });
+        // Com o traçado dá para ordenar os ônibus no percurso
+        this.atualizarOnibusPorLinha();
+      });
+  }
+
+  private desenharTracado(tracado: TracadoLinha, linha: Linha): void {
+    if (!this.L || !this.camadaTracados) return;
+
+    this.L.polyline(tracado.pontos, {
+      color: CORES_SENTIDO[linha.sentido],
+      weight: 5,
+      opacity: 0.7
+    })
+      .bindTooltip(this.traducao.traduzir('mapa.dicaTracado', {
+        letreiro: linha.letreiro,
+        principal: linha.terminalPrincipal,
+        secundario: linha.terminalSecundario,
+        sentido: this.traducao.nomeSentido(linha.sentido),
+        destino: linha.destino
+      }), { sticky: true })
+      .addTo(this.camadaTracados)
+      // Fica por baixo das paradas, que também são desenhadas como caminhos
+      .bringToBack();
+  }
+
+  /**
+   * Carrega as paradas atendidas pelas linhas encontradas
+   */
+  private carregarParadasDasLinhas(linhas: Linha[]): void {
+    forkJoin(linhas.map(linha => this.sptransService.buscarParadasPorLinha(linha.codigo).pipe(
+      catchError(() => of([]))
+    ))).subscribe(listas => {
+      // A mesma parada costuma atender várias linhas/sentidos
+      const porCodigo = new Map<number, Parada>();
+      listas.flat().forEach(parada => porCodigo.set(parada.codigo, parada));
+      this.desenharParadas(Array.from(porCodigo.values()));
+    });
+  }
+
+  private removerMarcador(item: MarcadorVeiculo): void {
+    if (item.animacao) cancelAnimationFrame(item.animacao);
+    this.camadaOnibus.removeLayer(item.marcador);
+  }
+
+  /**
+   * Atualiza os marcadores de uma linha com as novas posições:
+   * move os veículos que já estavam no mapa, cria os novos
+   * e remove os que não aparecem mais na resposta.
+   */
+  private sincronizarMarcadores(linha: Linha, posicoes: PosicoesLinha): void {
+    const presentes = new Set<string>();
+
+    // Sem conexão as posições vêm do cache offline: os ônibus ficam esmaecidos
+    const opacidade = posicoes.guardadaEm ? 0.5 : 1;
+    this.marcarOffline(linha, posicoes);
+    if (!posicoes.guardadaEm) this.gravacao.registrar(linha, posicoes);
+
+    posicoes.veiculos.forEach(veiculo => {
+      this.historico.registrar(veiculo);
+      this.adicionarMarcador(veiculo, linha);
+      this.marcadoresOnibus.get(veiculo.prefixo)?.marcador.setOpacity(opacidade);
+      presentes.add(veiculo.prefixo);
+    });
+
+    if (this.veiculoSelecionado && presentes.has(this.veiculoSelecionado)) {
+      this.amostrasSelecionado = this.historico.amostras(this.veiculoSelecionado);
+      this.desenharRastro();
+    }
+
+    this.marcadoresOnibus.forEach((item, prefixo) => {
+      if (item.linha.codigo === linha.codigo && !presentes.has(prefixo)) {
+        this.removerMarcador(item);
+        this.marcadoresOnibus.delete(prefixo);
+        if (prefixo === this.veiculoSelecionado) this.fecharVeiculo();
+      }
+    });
+
+    if (posicoes.referencia && (!this.ultimaReferencia || posicoes.referencia > this.ultimaReferencia)) {
+      this.ultimaReferencia = posicoes.referencia;
+    }
+
+    this.atualizarOnibusPorLinha();
+  }
+
+  /**
+   * Acompanha quais linhas estão com as posições do cache offline e avisa quando a conexão cai
+   */
+  private marcarOffline(linha: Linha, posicoes: PosicoesLinha): void {
+    if (!posicoes.guardadaEm) {
+      this.linhasOffline.delete(linha.codigo);
+      return;
+    }
+    if (this.linhasOffline.size === 0) {
+      this.anunciar(this.traducao.traduzir('info.offline'));
+    }
+    this.linhasOffline.add(linha.codigo);
+  }
+
+  /**
+   * Adiciona um marcador de ônibus no mapa
+   * Se o veículo (prefixo) já estiver no mapa, move o marcador até a nova posição
+   */
+  private adicionarMarcador(veiculo: Veiculo, linha: Linha): void {
+    if (!this.L || !this.mapa) return;
+    // Coordenadas já vêm validadas pelos decodificadores (models/sptrans.decoders.ts)
+
+    // 1. Texto que aparece ao passar o mouse (os detalhes ficam no painel do veículo)
+    const dica = this.traducao.traduzir('onibus.dica', {
+      linha: linha.letreiro || linha.codigo,
+      destino: linha.destino || this.traducao.traduzir('geral.naoInformado'),
+      prefixo: veiculo.prefixo
+    });
+
+    // 2. Veículo já está no mapa: só move e atualiza a dica
+    const existente = this.marcadoresOnibus.get(veiculo.prefixo);
+    if (existente) {
+      // No terminal o veículo passa para a linha do outro sentido
+      const trocouIcone = existente.linha.sentido !== linha.sentido || existente.acessivel !== veiculo.acessivel;
+      existente.linha = linha;
+      existente.acessivel = veiculo.acessivel;
+      if (trocouIcone) {
+        existente.marcador.setIcon(this.iconeOnibus(linha.sentido, veiculo.acessivel));
+        this.destacarMarcador(existente);
+      }
+      existente.marcador.setTooltipContent(dica);
+      this.exibirSeVisivel(existente);
+      this.rotularMarcador(existente, veiculo.prefixo);
+      this.moverSuavemente(existente, veiculo.lat, veiculo.lng);
+      return;
+    }
+
+    // 3. Cria o marcador; o clique (ou Enter, com o foco no ônibus) abre o painel do veículo
+    const marcador = this.L.marker([veiculo.lat, veiculo.lng], {
+      icon: this.iconeOnibus(linha.sentido, veiculo.acessivel),
+      keyboard: true
+    })
+      .bindTooltip(dica)
+      .on('click', () => this.zona.run(() => this.selecionarVeiculo(veiculo.prefixo)));
+
+    // 4. Guarda pelo prefixo para poder mover/remover depois; com o filtro ligado, só entra no mapa se for acessível
+    const item: MarcadorVeiculo = { marcador, linha, acessivel: veiculo.acessivel };
+    // O Leaflet recria o elemento do ícone sempre que o marcador volta ao mapa
+    marcador.on('add', () => this.destacarMarcador(item));
+    this.marcadoresOnibus.set(veiculo.prefixo, item);
+    this.exibirSeVisivel(item);
+    this.rotularMarcador(item, veiculo.prefixo);
+  }
+
+  // SERVIÇO DAS LINHAS
+
+  alternarServico(): void {
+    this.mostrarServico = !this.mostrarServico;
+  }
+
+  /**
+   * Refaz a análise de cada linha no mapa com as últimas posições: as lacunas são
+   * desenhadas sobre o traçado, e os ônibus em comboio ou sem sinal ganham uma classe no ícone
+   */
+  private analisarServico(): void {
+    const camada = this.camadaServico;
+    if (!camada) return;
+    camada.atualizar(this.onibusPorLinha, this.tracadosCarregados, prefixo => this.historico.amostras(prefixo));
+
+    this.marcadoresOnibus.forEach((item, prefixo) => {
+      item.destaque = camada.destaques.get(prefixo) ?? null;
+      this.destacarMarcador(item);
+    });
+  }
+
+  private destacarMarcador(item: MarcadorVeiculo): void {
+    const elemento: HTMLElement | undefined = item.marcador.getElement();
+    if (!elemento) return;
+    elemento.classList.toggle('onibus-comboio', item.destaque === 'comboio');
+    elemento.classList.toggle('onibus-sem-sinal', item.destaque === 'sem-sinal');
+  }
+
+  /**
+   * Agrupa os ônibus da busca por linha, na última posição recebida, e refaz a análise do serviço
+   */
+  private atualizarOnibusPorLinha(): void {
+    this.onibusPorLinha = this.linhasNoMapa.map(linha => {
+      const veiculos: Veiculo[] = [];
+      this.marcadoresOnibus.forEach((item, prefixo) => {
+        const ultima = this.historico.amostras(prefixo).at(-1);
+        if (item.linha.codigo === linha.codigo && ultima) veiculos.push({ prefixo, acessivel: item.acessivel, ...ultima });
+      });
+      return { linha, veiculos };
+    });
+    this.analisarServico();
+  }
+
+  // ACESSIBILIDADE
+
+  /**
+   * Liga ou desliga o filtro de ônibus acessíveis (vale também para a frota e as previsões)
+   */
+  alternarSomenteAcessiveis(): void {
+    this.preferencias.alterar({ somenteAcessiveis: !this.somenteAcessiveis });
+    this.anunciar(this.somenteAcessiveis
+      ? this.traducao.traduzir('onibus.somenteAcessiveis', { acessiveis: this.totalAcessiveis, total: this.marcadoresOnibus.size })
+      : this.traducao.traduzir('onibus.todos', { total: this.marcadoresOnibus.size }));
+  }
+
+  /** Ônibus acessíveis entre os marcadores da busca */
+  get totalAcessiveis(): number {
+    let total = 0;
+    this.marcadoresOnibus.forEach(item => { if (item.acessivel) total++; });
+    return total;
+  }
+
+  /**
+   * Porcentagem dos ônibus da linha (no mapa) que são acessíveis; null sem ônibus
+   */
+  percentualAcessivel(linha: Linha): number | null {
+    let total = 0;
+    let acessiveis = 0;
+    this.marcadoresOnibus.forEach(item => {
+      if (item.linha.codigo !== linha.codigo) return;
+      total++;
+      if (item.acessivel) acessiveis++;
+    });
+    return total > 0 ? Math.round(acessiveis / total * 100) : null;
+  }
+
+  /**
+   * Setas com o foco em um ônibus passam para o próximo/anterior; Esc fecha o painel do veículo.
+   * (Tab também percorre os ônibus; Enter abre o painel, pelo próprio Leaflet.)
+   */
+  navegarMarcadores(evento: KeyboardEvent): void {
+    if (evento.key === 'Escape' && this.veiculoSelecionado) {
+      this.fecharVeiculo();
+      return;
+    }
+
+    const passo = evento.key === 'ArrowRight' || evento.key === 'ArrowDown' ? 1
+      : evento.key === 'ArrowLeft' || evento.key === 'ArrowUp' ? -1 : 0;
+    if (!passo) return;
+
+    const visiveis = [...this.marcadoresOnibus.values()].filter(item => this.mapa.hasLayer(item.marcador));
+    const atual = visiveis.findIndex(item => item.marcador.getElement() === evento.target);
+    if (atual < 0) return;
+
+    evento.preventDefault();
+    const proximo = visiveis[(atual + passo + visiveis.length) % visiveis.length];
+    proximo.marcador.getElement()?.focus();
+  }
+
+  /**
+   * Texto lido pelos leitores de tela (região aria-live da página)
+   */
+  private anunciar(texto: string): void {
+    this.anuncio = texto;
+  }
+
+  /**
+   * Mostra só os marcadores que passam pelo filtro de acessibilidade, na frota também
+   */
+  private aplicarFiltroAcessiveis(): void {
+    this.marcadoresOnibus.forEach(item => this.exibirSeVisivel(item));
+    if (this.veiculoSelecionado && this.somenteAcessiveis && !this.marcadorSelecionado?.acessivel) {
+      this.fecharVeiculo();
+    }
+    if (this.camadaFrota) {
+      this.camadaFrota.somenteAcessiveis = this.somenteAcessiveis;
+      this.redesenharFrota();
+    }
+  }
+
+  private exibirSeVisivel(item: MarcadorVeiculo): void {
+    if (!this.camadaOnibus) return;
+    const visivel = !this.somenteAcessiveis || item.acessivel;
+    if (visivel && !this.camadaOnibus.hasLayer(item.marcador)) {
+      this.camadaOnibus.addLayer(item.marcador);
+    } else if (!visivel && this.camadaOnibus.hasLayer(item.marcador)) {
+      this.camadaOnibus.removeLayer(item.marcador);
+    }
+  }
+
+  /**
+   * Nome do marcador para leitores de tela (o elemento é recriado pelo setIcon)
+   */
+  private rotularMarcador(item: MarcadorVeiculo, prefixo: string): void {
+    const elemento: HTMLElement | undefined = item.marcador.getElement();
+    if (!elemento) return;
+    const { linha } = item;
+    elemento.setAttribute('aria-label', this.traducao.traduzir(item.acessivel ? 'onibus.rotuloAcessivel' : 'onibus.rotulo', {
+      prefixo,
+      linha: linha.letreiro || linha.codigo,
+      destino: linha.destino || this.traducao.nomeSentido(linha.sentido)
+    }));
+  }
+
+  // VEÍCULO SELECIONADO
+
+  /**
+   * Abre o painel do veículo e desenha o rastro das posições guardadas
+   */
+  selecionarVeiculo(prefixo: string): void {
+    this.veiculoSelecionado = prefixo;
+    this.amostrasSelecionado = this.historico.amostras(prefixo);
+    this.desenharRastro();
+
+    const linha = this.marcadorSelecionado?.linha;
+    if (linha) this.anunciar(this.traducao.traduzir('onibus.selecionado', { prefixo, linha: linha.letreiro }));
+  }
+
+  fecharVeiculo(): void {
+    this.veiculoSelecionado = null;
+    this.amostrasSelecionado = [];
+    this.camadaRastro?.clearLayers();
+  }
+
+  /** Marcador do veículo selecionado (o painel usa a linha e a acessibilidade) */
+  get marcadorSelecionado(): MarcadorVeiculo | null {
+    return this.veiculoSelecionado ? this.marcadoresOnibus.get(this.veiculoSelecionado) ?? null : null;
+  }
+
+  /**
+   * Linha tracejada ligando as posições guardadas do veículo selecionado
+   */
+  private desenharRastro(): void {
+    const item = this.marcadorSelecionado;
+    if (!this.camadaRastro || !item) return;
+    this.camadaRastro.clearLayers();
+
+    const cor = CORES_SENTIDO[item.linha.sentido];
+    const pontos = this.amostrasSelecionado.map(amostra => [amostra.lat, amostra.lng]);
+    if (pontos.length > 1) {
+      this.L.polyline(pontos, { color: cor, weight: 3, opacity: 0.8, dashArray: '4 6', interactive: false })
+        .addTo(this.camadaRastro);
+    }
+    this.amostrasSelecionado.forEach(amostra => {
+      this.L.circleMarker([amostra.lat, amostra.lng], { radius: 3, color: cor, weight: 1, fillOpacity: 0.8 })
+        .bindTooltip(this.traducao.formatarData(amostra.atualizadoEm, 'mediumTime'))
+        .addTo(this.camadaRastro);
+    });
+  }
+
+  /**
+   * Ícone do ônibus na cor do sentido (a mesma do traçado).
+   * O acessível é quadrado, com borda escura e o símbolo ♿, para não depender só da cor.
+   */
+  private iconeOnibus(sentido: Sentido, acessivel: boolean): any {
+    const chave = `${sentido}-${acessivel}`;
+    let icone = this.iconesOnibus.get(chave);
+    if (!icone) {
+      const forma = acessivel
+        ? 'border-radius: 6px; border: 2px solid #003366;'
+        : 'border-radius: 50%; border: 2px solid #fff;';
+      icone = this.L.divIcon({
+        className: acessivel ? 'marcador-onibus marcador-acessivel' : 'marcador-onibus',
+        html: `<div style="background: ${CORES_SENTIDO[sentido]}; width: 24px; height: 24px; ${forma}
+          display: flex; align-items: center; justify-content: center; font-size: 13px;
+          box-shadow: 0 1px 4px rgba(0, 0, 0, 0.4);">${acessivel ? '♿' : '🚌'}</div>`,
+        iconSize: [28, 28],
+        iconAnchor: [14, 14],
+        popupAnchor: [0, -14]
+      });
+      this.iconesOnibus.set(chave, icone);
+    }
+    return icone;
+  }
+
+  /**
+   * Anima o marcador da posição atual até o destino.
+   * Roda fora da zona do Angular para não disparar detecção de mudanças a cada frame.
+   */
+  private moverSuavemente(item: MarcadorVeiculo, lat: number, lng: number): void {
+    const origem = item.marcador.getLatLng();
+    if (origem.lat === lat && origem.lng === lng) return;
+    if (item.animacao) cancelAnimationFrame(item.animacao);
+
+    this.zona.runOutsideAngular(() => {
+      const inicio = performance.now();
+      const passo = (instante: number) => {
+        const t = Math.min((instante - inicio) / DURACAO_ANIMACAO_MS, 1);
+        const suave = t * (2 - t); // ease-out
+        item.marcador.setLatLng([
+          origem.lat + (lat - origem.lat) * suave,
+          origem.lng + (lng - origem.lng) * suave
+        ]);
+        item.animacao = t < 1 ? requestAnimationFrame(passo) : undefined;
+      };
+      item.animacao = requestAnimationFrame(passo);
+    });
+  }
+
+  // ATUALIZAÇÃO AUTOMÁTICA
+
+  pausarAtualizacao(): void {
+    this.atualizacao.pausar();
+  }
+
+  retomarAtualizacao(): void {
+    this.atualizacao.retomar();
+  }
+
+  alterarIntervalo(segundos: number): void {
+    this.intervaloSegundos = segundos;
+    this.atualizacao.alterarIntervalo(segundos * 1000);
+    if (this.modoFrota) {
+      this.acompanharFrota();
+    }
+  }
+
+  /**
+   * Idade do último horário de referência (hr) recebido, ex: 'há 40 s'
+   */
+  get idadeReferencia(): string {
+    if (!this.ultimaReferencia) return '';
+    const segundos = Math.max(0, Math.round((this.agora - this.ultimaReferencia.getTime()) / 1000));
+    return this.traducao.formatarIdade(segundos);
+  }
+
+
+
+  
+  /**
+   * Método principal de busca (chamado pelo botão)
+   */
+  buscar(): void {
+    this.mostrarSugestoes = false;
+    const destacada = this.sugestaoAtiva >= 0 ? this.sugestoes?.linhas[this.sugestaoAtiva] : undefined;
+    if (this.modoBusca === 'linhas' && destacada) {
+      this.escolherSugestao(destacada);
+      return;
+    }
+
+    if (this.modoBusca === 'paradas') {
+      this.buscarParadas();
+    } else {
+      this.buscarLinhas();
+    }
+  }
+
+  // SUGESTÕES DE LINHAS
+
+  /**
+   * Chamado a cada alteração no campo de busca
+   */
+  aoDigitar(termo: string): void {
+    if (this.modoBusca !== 'linhas') return;
+    this.mostrarSugestoes = true;
+    this.digitado.next(termo);
+  }
+
+  /**
+   * Setas para escolher a sugestão, Esc para fechar a lista (Enter chama buscar())
+   */
+  navegarSugestoes(evento: KeyboardEvent): void {
+    const total = this.sugestoes?.linhas.length ?? 0;
+    if (evento.key === 'Escape') {
+      this.mostrarSugestoes = false;
+      this.sugestaoAtiva = -1;
+      return;
+    }
+    if (!this.mostrarSugestoes || total === 0) return;
+
+    if (evento.key === 'ArrowDown') {
+      this.sugestaoAtiva = (this.sugestaoAtiva + 1) % total;
+      evento.preventDefault();
+    } else if (evento.key === 'ArrowUp') {
+      this.sugestaoAtiva = this.sugestaoAtiva <= 0 ? total - 1 : this.sugestaoAtiva - 1;
+      evento.preventDefault();
+    }
+  }
+
+  /**
+   * Mostra só a linha e o sentido escolhidos na lista de sugestões
+   */
+  escolherSugestao(linha: Linha): void {
+    if (!this.mapa) {
+      this.notificacoes.aviso(this.traducao.traduzir('busca.aguardeMapa'));
+      return;
+    }
+
+    this.mostrarSugestoes = false;
+    this.sugestaoAtiva = -1;
+    this.termoBusca = linha.letreiro;
+    this.linhaExibida = linha.letreiro;
+    this.sentidoExibido = linha.sentido;
+    this.navegar(this.rotaDaLinha());
+    this.executarBuscaLinhas(linha.letreiro, true, linha.sentido);
+  }
+
+  /**
+   * Repete uma busca escolhida nos favoritos ou nas recentes
+   */
+  repetirBusca(atalho: AtalhoBusca): void {
+    this.modoBusca = atalho.modo;
+    this.termoBusca = atalho.termo;
+    this.sugestaoAtiva = -1;
+    this.buscar();
+  }
+
+  /** Termo da linha que está no mapa (/linha/:codigo), para o botão de favorito */
+  get linhaAtual(): string | null {
+    return this.linhaExibida;
+  }
+
+  linhaAtualFavorita(): boolean {
+    return !!this.linhaExibida && this.favoritos.ehFavorito('linha', this.linhaExibida);
+  }
+
+  /**
+   * Marca ou desmarca a linha do mapa como favorita.
+   * O nome é o letreiro quando o termo encontrou uma única linha (ex: '8000-10').
+   */
+  alternarFavoritoLinha(): void {
+    if (!this.linhaExibida) return;
+    const letreiros = [...new Set(this.linhasNoMapa.map(linha => linha.letreiro))];
+    const nome = letreiros.length === 1 ? letreiros[0] : this.linhaExibida;
+
+    const marcada = this.favoritos.alternarFavorito('linha', this.linhaExibida, nome);
+    this.notificacoes.info(this.traducao.traduzir(marcada ? 'mapa.favoritaAdicionada' : 'mapa.favoritaRemovida', { nome }));
+  }
+
+  /**
+   * Busca paradas pelo nome ou endereço e mostra no mapa
+   */
+  buscarParadas(): void {
+    if (!this.termoBusca?.trim()) {
+      this.notificacoes.aviso(this.traducao.traduzir('busca.digiteParada'));
+      return;
+    }
+
+    if (!this.mapa) {
+      this.notificacoes.aviso(this.traducao.traduzir('busca.aguardeMapa'));
+      return;
+    }
+
+    this.executarBuscaParadas(this.termoBusca.trim());
+  }
+
+  private executarBuscaParadas(termo: string): void {
+    this.carregando = true;
+    this.ultimoErro = '';
+    this.totalBuscas++;
+    this.favoritos.registrarBusca('paradas', termo);
+    this.atualizacao.parar();
+    this.limparMarcadores();
+    this.linhaExibida = null;
+    this.sentidoExibido = null;
+    this.navegar(['/mapa']);
+
+    this.sptransService.buscarParadas(termo).subscribe({
+      next: paradas => {
+        this.carregando = false;
+
+        if (paradas.length === 0) {
+          this.notificacoes.info(this.traducao.traduzir('busca.nenhumaParada', { termo }));
+          return;
+        }
+
+        this.desenharParadas(paradas);
+        this.mapa.fitBounds(this.camadaParadas.getBounds().pad(0.1));
+
+        // Com uma única parada, já abre as previsões
+        if (paradas.length === 1) {
+          this.selecionarParada(paradas[0]);
+        }
+      },
+      error: erro => {
+        this.carregando = false;
+        this.mostrarErro(erro, () => this.executarBuscaParadas(termo));
+      }
+    });
+  }
+
+  /**
+   * Busca linhas e as posições dos seus ônibus
+   */
+  buscarLinhas(): void {
+    // 1. VALIDAÇÕES
+    if (!this.termoBusca?.trim()) {
+      this.notificacoes.aviso(this.traducao.traduzir('busca.digiteLinha'));
+      return;
+    }
+
+    if (!this.mapa) {
+      this.notificacoes.aviso(this.traducao.traduzir('busca.aguardeMapa'));
+      return;
+    }
+
+    // 2. A URL passa a ser /linha/<termo>; a busca roda aqui mesmo
+    const termo = this.termoBusca.trim();
+    this.linhaExibida = termo;
+    this.sentidoExibido = null;
+    this.navegar(['/linha', termo]);
+    this.executarBuscaLinhas(termo, true);
+  }
+
+  /**
+   * Busca as linhas do termo e as posições dos ônibus
+   * @param ajustarZoom - se o mapa deve enquadrar os ônibus encontrados
+   * @param sentido - só a linha com esse letreiro e sentido (escolhida nas sugestões)
+   */
+  private executarBuscaLinhas(termo: string, ajustarZoom: boolean, sentido: Sentido | null = null): void {
+    this.carregando = true;
+    this.ultimoErro = '';
+    this.totalBuscas++;
+    this.favoritos.registrarBusca('linhas', termo);
+    this.atualizacao.parar();
+    this.limparMarcadores();
+
+    console.log('🔍 Buscando:', termo);
+
+    const repetir = () => this.executarBuscaLinhas(termo, ajustarZoom, sentido);
+    const posicoes$ = sentido === null
+      ? this.sptransService.buscarTodasPosicoes(termo)
+      : this.sugestaoLinhas.linhasDoTermo(termo).pipe(
+        map(linhas => linhas.filter(linha => linha.letreiro === termo && linha.sentido === sentido)),
+        switchMap(linhas => this.sptransService.buscarPosicoesDasLinhas(linhas))
+      );
+
+    let exibidos = 0;
+    this.buscaPosicoes = posicoes$.subscribe({
+      next: progresso => {
+        this.progressoBusca = progresso;
+
+        // Primeiro andamento: as linhas já são conhecidas
+        if (progresso.concluidas === 0 && progresso.total > 0) {
+          this.carregando = false;
+          this.iniciarAcompanhamento(progresso.linhas);
+        }
+
+        // Desenha só as linhas que terminaram desde o último andamento
+        progresso.resultados.slice(exibidos).forEach(resultado => this.exibirResultadoLinha(resultado));
+        exibidos = progresso.resultados.length;
+
+        if (progresso.finalizado) {
+          this.carregando = false;
+          this.mostrarResultadoFinal(progresso, termo, ajustarZoom, repetir);
+        }
+      },
+
+      // Quando a requisição der erro
+      error: erro => {
+        this.carregando = false;
+        this.mostrarErro(erro, repetir);
+      }
+    });
+  }
+
+  /**
+   * As próximas rodadas ficam por conta da atualização automática
+   */
+  private iniciarAcompanhamento(linhas: Linha[]): void {
+    console.log(`✅ ${linhas.length} linha(s) encontrada(s)`);
+    console.log('🔄 Agora buscando posições de cada linha...\n');
+
+    this.atualizacao.iniciar(linhas, this.intervaloSegundos * 1000);
+    this.carregarTracados(linhas);
+    this.carregarParadasDasLinhas(linhas);
+  }
+
+  /**
+   * Coloca no mapa os ônibus de uma linha que acabou de ser consultada
+   */
+  private exibirResultadoLinha(resultado: ResultadoLinha): void {
+    const { linha } = resultado;
+
+    if (resultado.status === 'erro') {
+      console.error(`  ❌ Erro ao buscar posições da linha ${linha.codigo}:`, resultado.erro);
+      return;
+    }
+
+    console.log(`📍 Linha ${linha.letreiro} (código ${linha.codigo}):`, resultado.posicoes);
+    if (resultado.posicoes.veiculos.length > 0) {
+      console.log(`  ✅ ${resultado.posicoes.veiculos.length} veículo(s) encontrado(s)`);
+      this.sincronizarMarcadores(linha, resultado.posicoes);
+    } else {
+      console.log(`  ⚠️ Nenhum veículo ativo nesta linha`);
+    }
+  }
+
+  /**
+   * Mostra o resultado final após processar todas as linhas
+   */
+  private mostrarResultadoFinal(progresso: ProgressoPosicoes, termo: string, ajustarZoom: boolean, repetir: () => void): void {
+    const { total, totalVeiculos, falhas } = progresso;
+
+    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('📊 RESULTADO FINAL:');
+    console.log(`  Linhas processadas: ${total} (${falhas} com erro)`);
+    console.log(`  Total de ônibus: ${totalVeiculos}`);
+    console.log(`  Marcadores no mapa: ${this.marcadoresOnibus.size}`);
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+
+    if (total === 0) {
+      console.warn('⚠️ Array vazio recebido');
+      this.notificacoes.info(this.traducao.traduzir('busca.nenhumaLinha', { termo }));
+      return;
+    }
+
+    const tentarDeNovo = { rotulo: this.traducao.traduzir('geral.tentarDeNovo'), executar: repetir };
+
+    if (falhas === total) {
+      this.ultimoErro = this.traducao.traduzir('busca.posicoesIndisponiveis');
+      this.notificacoes.erro(this.traducao.traduzir('busca.nenhumaRespondeu', { total, termo }), {
+        titulo: this.traducao.traduzir('busca.falhaPosicoes'),
+        acao: tentarDeNovo,
+        duracaoMs: null
+      });
+      return;
+    }
+
+    if (falhas > 0) {
+      this.notificacoes.aviso(this.traducao.traduzir('busca.algumasFalharam', { falhas, total, letreiros: this.letreirosComErro(progresso) }), {
+        acao: tentarDeNovo
+      });
+    }
+
+    if (totalVeiculos > 0) {
+      // Ajusta o zoom para mostrar todos os marcadores
+      if (ajustarZoom) {
+        const marcadores = Array.from(this.marcadoresOnibus.values(), item => item.marcador);
+        const grupo = new this.L.FeatureGroup(marcadores);
+        this.mapa.fitBounds(grupo.getBounds().pad(0.1));
+      }
+
+      this.notificacoes.sucesso(this.traducao.traduzir('busca.encontrados', { veiculos: totalVeiculos, linhas: total - falhas, termo }));
+    } else {
+      this.notificacoes.info(this.traducao.traduzir('busca.semOnibusAtivo', { total, termo }));
+    }
+  }
+
+  /**
+   * Letreiros das linhas que falharam, para a info-bar e os avisos
+   */
+  letreirosComErro(progresso: ProgressoPosicoes): string {
+    return progresso.resultados
+      .filter(r => r.status === 'erro')
+      .map(r => r.linha.letreiro)
+      .join(', ');
+  }
+
+  /**
+   * Mostra o erro de uma busca na info-bar e em uma notificação com "Tentar de novo"
+   */
+  private mostrarErro(erro: unknown, tentarDeNovo: () => void): void {
+    const erroApi = classificarErro(erro, 'buscar');
+    this.ultimoErro = this.traducao.resumoDoErro(erroApi);
+    this.notificacoes.erroApi(erroApi, tentarDeNovo);
+  }
+}
\ No newline at end of file
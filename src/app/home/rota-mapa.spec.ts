@@ -0,0 +1,34 @@
+import { convertToParamMap } from '@angular/router';
+import { lerSentido, lerViewport, mesmoViewport, paramsDoViewport } from './rota-mapa';
+
+describe('rota-mapa', () => {
+
+  it('lê o viewport dos query params', () => {
+    const viewport = lerViewport(convertToParamMap({ lat: '-23.55052', lng: '-46.63331', z: '14' }));
+    expect(viewport).toEqual({ lat: -23.55052, lng: -46.63331, zoom: 14 });
+  });
+
+  it('ignora viewport incompleto ou inválido', () => {
+    expect(lerViewport(convertToParamMap({ lat: '-23.5', lng: '-46.6' }))).toBeNull();
+    expect(lerViewport(convertToParamMap({ lat: 'abc', lng: '-46.6', z: '12' }))).toBeNull();
+    expect(lerViewport(convertToParamMap({ lat: '-123', lng: '-46.6', z: '12' }))).toBeNull();
+  });
+
+  it('lê o sentido da rota da linha', () => {
+    expect(lerSentido('1')).toBe(1);
+    expect(lerSentido('2')).toBe(2);
+    expect(lerSentido('3')).toBeNull();
+    expect(lerSentido(null)).toBeNull();
+  });
+
+  it('arredonda o viewport ao gerar os query params', () => {
+    expect(paramsDoViewport({ lat: -23.550521234, lng: -46.633308999, zoom: 12.4 }))
+      .toEqual({ lat: '-23.55052', lng: '-46.63331', z: 12 });
+  });
+
+  it('compara viewports na precisão da URL', () => {
+    expect(mesmoViewport({ lat: -23.550521, lng: -46.6333, zoom: 12 }, { lat: -23.550524, lng: -46.6333, zoom: 12 })).toBeTrue();
+    expect(mesmoViewport({ lat: -23.55, lng: -46.63, zoom: 12 }, { lat: -23.55, lng: -46.63, zoom: 13 })).toBeFalse();
+    expect(mesmoViewport(null, null)).toBeTrue();
+  });
+});
@@ -0,0 +1,81 @@
+import { ParamMap, Params } from '@angular/router';
+import { Sentido } from '../models/sptrans.model';
+
+/**
+ * 🔗 ROTAS DO MAPA
+ *
+ * Tipos e conversões usados para guardar o estado do mapa na URL:
+ *   /mapa?lat=&lng=&z=             - só o mapa (posição e zoom)
+ *   /frota?lat=&lng=&z=            - todos os ônibus da cidade (só os da área visível são desenhados)
+ *   /reproducao?lat=&lng=&z=       - reprodução das posições gravadas neste navegador
+ *   /linha/:codigo?lat=&lng=&z=    - busca de uma linha (ex: /linha/8000)
+ *   /linha/:codigo/:sentido        - uma linha em um sentido só, escolhida nas sugestões (ex: /linha/8000-10/1)
+ *   /parada/:codigo?lat=&lng=&z=   - parada com o painel de previsão aberto
+ */
+
+export type TipoRotaMapa = 'mapa' | 'frota' | 'reproducao' | 'linha' | 'parada';
+
+/**
+ * Posição e zoom do mapa
+ */
+export interface Viewport {
+    lat: number;
+    lng: number;
+    zoom: number;
+}
+
+/**
+ * Estado do mapa lido da URL
+ */
+export interface RotaMapa {
+    tipo: TipoRotaMapa;
+    codigo: string | null;       // termo da linha ou código da parada
+    sentido: Sentido | null;     // só em /linha/:codigo/:sentido
+    viewport: Viewport | null;
+}
+
+/** Casas decimais usadas na URL (~1 m de precisão) */
+const CASAS_DECIMAIS = 5;
+
+/**
+ * Lê lat, lng e z dos query params. Retorna null se faltar algum ou se forem inválidos.
+ */
+export function lerViewport(params: ParamMap): Viewport | null {
+    const lat = Number(params.get('lat'));
+    const lng = Number(params.get('lng'));
+    const zoom = Number(params.get('z'));
+
+    if (!params.has('lat') || !params.has('lng') || !params.has('z')) return null;
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || !Number.isFinite(zoom)) return null;
+    if (lat < -90 || lat > 90 || lng < -180 || lng > 180 || zoom < 0 || zoom > 22) return null;
+
+    return { lat, lng, zoom: Math.round(zoom) };
+}
+
+/**
+ * Lê o sentido de /linha/:codigo/:sentido (1 ou 2). Qualquer outro valor vale como "os dois sentidos".
+ */
+export function lerSentido(valor: string | null): Sentido | null {
+    return valor === '1' ? 1 : valor === '2' ? 2 : null;
+}
+
+/**
+ * Converte o viewport em query params (com precisão reduzida para a URL ficar curta)
+ */
+export function paramsDoViewport(viewport: Viewport): Params {
+    return {
+        lat: viewport.lat.toFixed(CASAS_DECIMAIS),
+        lng: viewport.lng.toFixed(CASAS_DECIMAIS),
+        z: Math.round(viewport.zoom)
+    };
+}
+
+/**
+ * Compara dois viewports na precisão usada na URL
+ */
+export function mesmoViewport(a: Viewport | null, b: Viewport | null): boolean {
+    if (!a || !b) return a === b;
+    const pa = paramsDoViewport(a);
+    const pb = paramsDoViewport(b);
+    return pa['lat'] === pb['lat'] && pa['lng'] === pb['lng'] && pa['z'] === pb['z'];
+}
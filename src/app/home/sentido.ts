@@ -0,0 +1,10 @@
+import { Sentido } from '../models/sptrans.model';
+
+/**
+ * 🧭 SENTIDO DAS LINHAS NO MAPA
+ *
+ * Ida (sl = 1) e volta (sl = 2) usam sempre as mesmas cores, para o
+ * traçado, os marcadores dos ônibus e a frota combinarem entre si.
+ * Os nomes ('Ida', 'Volta') ficam nos catálogos de tradução (TraducaoService.nomeSentido).
+ */
+export const CORES_SENTIDO: Record<Sentido, string> = { 1: '#1f77b4', 2: '#ff7f0e' };
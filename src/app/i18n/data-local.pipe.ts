@@ -0,0 +1,17 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { TraducaoService } from './traducao.service';
+
+/**
+ * Data no formato do idioma atual: {{ veiculo.chegada | dataLocal:'shortTime' }}
+ *
+ * Igual ao DatePipe, mas acompanha o idioma escolhido em vez do LOCALE_ID fixo.
+ */
+@Pipe({ name: 'dataLocal', pure: false })
+export class DataLocalPipe implements PipeTransform {
+
+  constructor(private traducao: TraducaoService) { }
+
+  transform(valor: Date | number | null | undefined, formato = 'mediumTime'): string {
+    return valor === null || valor === undefined ? '' : this.traducao.formatarData(valor, formato);
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * 🌍 IDIOMAS DA INTERFACE
+ *
+ * O código é o mesmo usado pelo Angular para formatar datas (LOCALE_ID)
+ * e pelo atributo lang do <html>.
+ */
+export type Idioma = 'pt-BR' | 'en';
+
+export const IDIOMA_PADRAO: Idioma = 'pt-BR';
+
+/** Opções do seletor de idioma (o nome fica sempre no próprio idioma) */
+export const IDIOMAS: { codigo: Idioma; nome: string }[] = [
+    { codigo: 'pt-BR', nome: 'Português' },
+    { codigo: 'en', nome: 'English' }
+];
+
+export function ehIdioma(valor: unknown): valor is Idioma {
+    return IDIOMAS.some(idioma => idioma.codigo === valor);
+}
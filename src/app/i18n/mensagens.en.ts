@@ -0,0 +1,277 @@
+import { Mensagens } from './mensagens.pt';
+
+/**
+ * 🇬🇧 TEXTOS DA INTERFACE EM INGLÊS
+ *
+ * Mesmas chaves do catálogo em português (mensagens.pt.ts).
+ */
+export const MENSAGENS_EN: Mensagens = {
+    // Geral
+    'geral.fecharPainel': 'Close panel',
+    'geral.naoInformado': 'N/A',
+    'geral.sim': 'Yes',
+    'geral.nao': 'No',
+    'geral.tentarDeNovo': '🔄 Try again',
+    'idade.segundos': '{valor} s ago',
+    'idade.minutos': '{valor} min ago',
+    'idade.horas': '{valor} h ago',
+    'sentido.1': 'Outbound',
+    'sentido.2': 'Inbound',
+
+    // Cabeçalho
+    'app.subtitulo': 'Follow the buses in real time',
+    'app.altoContraste': '◐ High contrast',
+    'app.idioma': 'Language',
+
+    // Busca
+    'busca.tipo': 'Search type',
+    'busca.modoLinhas': '🚌 Lines',
+    'busca.modoParadas': '🚏 Stops',
+    'busca.placeholderLinhas': 'Type the line number (e.g. 8000) or neighbourhood...',
+    'busca.placeholderParadas': 'Type the stop name or address...',
+    'busca.botaoLinhas': '🔍 Search Buses',
+    'busca.botaoParadas': '🔍 Search Stops',
+    'busca.buscando': '⏳ Searching...',
+    'busca.digiteLinha': 'Type a line number or neighbourhood name!',
+    'busca.digiteParada': 'Type the stop name or address!',
+    'busca.aguardeMapa': 'Wait for the map to load!',
+    'busca.nenhumaParada': 'No stops found for "{termo}"',
+    'busca.nenhumaLinha': 'No lines found for "{termo}"',
+    'busca.nenhumaRespondeu': 'None of the {total} line(s) for "{termo}" responded.',
+    'busca.posicoesIndisponiveis': 'Positions unavailable',
+    'busca.falhaPosicoes': 'Could not fetch the positions',
+    'busca.algumasFalharam': '{falhas} of {total} line(s) did not respond: {letreiros}',
+    'busca.encontrados': 'Found {veiculos} bus(es) on {linhas} line(s) for "{termo}"',
+    'busca.semOnibusAtivo': '{total} line(s) found, but no bus is running right now for "{termo}"',
+
+    // Sugestões
+    'sugestoes.rotulo': 'Suggested lines',
+    'sugestoes.procurando': '⏳ Looking for lines...',
+    'sugestoes.nenhuma': 'No lines for "{termo}"',
+    'sugestoes.circular': '🔁 Circular',
+    'sugestoes.anuncio': '{total} line(s) suggested',
+
+    // Sessão
+    'sessao.desconectada': '🔓 No session (login on the first search)',
+    'sessao.autenticando': '⏳ Logging in...',
+    'sessao.autenticada': '🔐 Session active since {hora}',
+    'sessao.expirada': '🔐 Session expired, renewing...',
+    'sessao.falhou': '⚠️ Login refused at {hora}',
+
+    // Info-bar
+    'info.onibusNoMapa': '📍 {total} bus(es) on the map',
+    'info.acessiveisExibidos': '({total} accessible shown)',
+    'info.paradas': '🚏 {total} stop(s)',
+    'info.buscas': '🔍 {total} search(es) made',
+    'info.frota': '🌐 Fleet: {visiveis} of {total} buses on screen',
+    'info.percentualAcessivelDica': 'Accessible buses of this line on the map',
+    'info.percentualAcessivel': '{percentual}% of the fleet is accessible',
+    'info.progresso': '📡 Positions: {concluidas}/{total} line(s)',
+    'info.semResposta': '❌ {total} line(s) not responding',
+    'info.referencia': '🕒 Positions at {hora} ({idade})',
+    'info.offline': '📴 Offline: last known positions',
+    'info.offlineDica': 'Faded buses are at the last position received before the connection dropped',
+    'info.reproducao': '⏯️ {total} bus(es) at {hora}',
+
+    // Atualização automática
+    'atualizacao.pausada': '⏸️ Updates paused',
+    'atualizacao.ativa': '🔄 Updating every {segundos} s',
+    'atualizacao.aoVivo': '📡 Live',
+    'atualizacao.falhas': '⚠️ {total} failure(s), retrying at {hora}',
+    'atualizacao.intervalo': 'Update interval',
+    'atualizacao.pausar': '⏸️ Pause',
+    'atualizacao.retomar': '▶️ Resume',
+
+    // GTFS
+    'gtfs.dica': 'SPTrans GTFS (.zip), used when the API does not respond',
+    'gtfs.lendo': '⏳ Reading GTFS...',
+    'gtfs.rotas': '📦 GTFS: {rotas} routes',
+    'gtfs.carregar': '📦 Load GTFS',
+    'gtfs.carregado': '📦 GTFS loaded',
+    'gtfs.resumo': '{rotas} routes, {paradas} stops and {horarios} scheduled times',
+    'gtfs.falha': 'Could not read the GTFS',
+
+    // Botões do mapa
+    'mapa.favorita': '★ Favourite',
+    'mapa.favoritar': '☆ Add line to favourites',
+    'mapa.favoritaAdicionada': '⭐ {nome} added to favourites',
+    'mapa.favoritaRemovida': '{nome} removed from favourites',
+    'mapa.acessiveisDica': 'Show only accessible buses (on the map, the fleet and the arrivals)',
+    'mapa.somenteAcessiveis': '♿ Accessible only',
+    'mapa.todosOnibus': '♿ All buses',
+    'mapa.pertoDeMim': '📍 Near me',
+    'mapa.sairPerto': '📍 Leave near me',
+    'mapa.frotaInteira': '🌐 Whole fleet',
+    'mapa.sairFrota': '🚌 Leave fleet',
+    'mapa.reproducao': '⏯️ Playback',
+    'mapa.sairReproducao': '⏹️ Leave playback',
+    'mapa.limpar': '🗑️ Clear',
+    'mapa.buscandoOnibus': 'Searching buses...',
+    'mapa.carregando': 'Loading map...',
+    'mapa.naoCarregou': '⚠️ Map has not loaded yet',
+    'mapa.erroCriar': 'Error creating the map: {erro}',
+    'mapa.dicaTracado': '{letreiro}: {principal} ⇄ {secundario} ({sentido} → {destino})',
+    'mapa.dicaParada': '🚏 {nome}',
+
+    // Controle de camadas
+    'camadas.onibus': '🚌 Buses',
+    'camadas.paradas': '🚏 Stops',
+    'camadas.tracados': '🛣️ Routes',
+    'camadas.localizacao': '📍 My location',
+
+    // Ônibus no mapa
+    'onibus.dica': '🚌 {linha} → {destino} ({prefixo})',
+    'onibus.rotulo': 'Bus {prefixo}, line {linha} towards {destino}',
+    'onibus.rotuloAcessivel': 'Bus {prefixo}, line {linha} towards {destino}, accessible',
+    'onibus.selecionado': 'Bus {prefixo} of line {linha} selected',
+    'onibus.somenteAcessiveis': 'Showing accessible buses only: {acessiveis} of {total}',
+    'onibus.todos': 'Showing all {total} buses',
+
+    // Frota inteira
+    'frota.falhaAtualizar': 'Could not update the fleet. Retrying on the next cycle.',
+    'frota.linha': '🚌 Line {linha}',
+    'frota.destino': 'Destination:',
+    'frota.veiculo': 'Vehicle:',
+    'frota.horario': 'Time:',
+    'frota.acessivel': 'Accessible:',
+
+    // Perto de mim
+    'perto.titulo': '📍 Near me',
+    'perto.raio': 'Radius:',
+    'perto.procurando': '⏳ Looking around...',
+    'perto.paradas': '🚏 Stops',
+    'perto.semParadas': 'No stops within this radius.',
+    'perto.semGtfs': '📦 Load the GTFS to see every nearby stop (without it, only the ones already on the map).',
+    'perto.onibus': '🚌 Buses',
+    'perto.semOnibus': 'No buses within this radius right now.',
+    'perto.aproximandoDica': 'Closer than on the previous update',
+    'perto.aproximando': '⬇️ approaching',
+    'perto.atualizado': 'Updated at {hora}',
+    'perto.voceAqui': '📍 You are here',
+    'perto.dicaOnibus': '🚌 {linha} → {destino} ({distancia})',
+    'perto.falhaAtualizar': 'Could not update the nearby buses. Retrying on the next cycle.',
+    'perto.erro.sem-suporte': 'This browser does not provide your location.',
+    'perto.erro.negada': 'Location permission was denied. Allow it in the browser settings to use "Near me".',
+    'perto.erro.indisponivel': 'Your location could not be determined right now.',
+    'perto.erro.tempo-esgotado': 'The location took too long to arrive. Try again.',
+
+    // Parada
+    'parada.nome': 'Stop {codigo}',
+    'parada.naoEncontrada': 'Stop {codigo} not found',
+    'parada.favoritar': 'Add to favourites',
+    'parada.desfavoritar': 'Remove from favourites',
+    'parada.buscando': '⏳ Fetching arrivals...',
+    'parada.falhaAtualizar': 'Could not update the arrivals',
+    'parada.programados': '📦 Scheduled times (GTFS):',
+    'parada.semPrevisao': 'No buses expected at this stop right now.',
+    'parada.somenteAcessiveis': '♿ Accessible buses only',
+    'parada.linhaSemPrevisao': 'No buses expected for this line.',
+    'parada.semAcessivel': 'No accessible buses expected.',
+    'parada.acessivel': 'Accessible',
+    'parada.chegando': 'arriving',
+    'parada.minutos': '{minutos} min',
+    'parada.previsaoDas': 'Arrivals as of {horario}',
+
+    // Veículo
+    'veiculo.detalhes': 'Vehicle details',
+    'veiculo.titulo': 'Vehicle {prefixo}',
+    'veiculo.semSinal': '⚠️ No new position {idade}: the bus may have lost signal.',
+    'veiculo.parado': '🅿️ Standing in the same place: possibly parked.',
+    'veiculo.ultimaPosicao': 'Last position',
+    'veiculo.velocidade': 'Speed',
+    'veiculo.aguardandoPosicoes': 'Waiting for more positions',
+    'veiculo.rumo': 'Heading',
+    'veiculo.acessivel': 'Accessible',
+    'veiculo.posicoesRastro': 'Positions in the trail',
+
+    // Line service (headways, bunching and gaps)
+    'servico.botao': '📊 Service',
+    'servico.titulo': '📊 Line service',
+    'servico.resumo': '{total} buses',
+    'servico.intervaloMedio': 'average headway ~{minutos} min',
+    'servico.semTracado': 'No route shape: only bunching is detected.',
+    'servico.tudoCerto': '✅ No problems right now',
+    'servico.alerta.comboio': '🚌🚌 {primeiro} and {segundo} bunched ({distancia})',
+    'servico.alerta.lacuna': '↔️ {distancia} without buses (~{minutos} min) ahead of {prefixo}',
+    'servico.alerta.sem-sinal': '📵 {prefixo} with no new position {idade}',
+    'servico.dicaAlerta': 'Show the bus on the map',
+
+    // Recording and playback
+    'gravacao.gravar': '⏺️ Record',
+    'gravacao.gravarDica': 'Stores the positions of the lines on the map in this browser, to play back later',
+    'gravacao.parar': '⏹️ Stop recording',
+    'gravacao.gravando': '⏺️ Recording {total} line(s)',
+    'gravacao.iniciada': '⏺️ Recording the positions of {letreiros} while auto refresh is on',
+    'gravacao.parada': 'Recording stopped',
+    'reproducao.titulo': '⏯️ Playback',
+    'reproducao.carregando': '⏳ Reading recordings...',
+    'reproducao.semGravacoes': 'Nothing recorded yet. Search for a line and use "⏺️ Record" with auto refresh on.',
+    'reproducao.gravadoEntre': 'Recorded from {inicio} to {fim}',
+    'reproducao.de': 'From',
+    'reproducao.ate': 'To',
+    'reproducao.carregar': 'Load period',
+    'reproducao.linhaTempo': 'Timeline',
+    'reproducao.tocar': '▶️ Play',
+    'reproducao.pausar': '⏸️ Pause',
+    'reproducao.velocidade': 'Speed',
+    'reproducao.instantaneos': '{total} snapshot(s)',
+    'reproducao.apagar': '🗑️ Delete recordings',
+    'reproducao.confirmarApagar': 'Delete all positions recorded in this browser?',
+
+    // Export
+    'exportacao.botao': '⬇️ Export',
+    'exportacao.exportando': '⏳ Exporting...',
+    'exportacao.geojson': 'lines and buses on the map',
+    'exportacao.csv': 'buses on the map and recorded positions',
+    'exportacao.gpx': 'trails of the buses on the map',
+    'exportacao.concluida': '⬇️ {arquivo} downloaded',
+    'exportacao.falhou': 'Could not export: {erro}',
+
+    // Ficha da linha (/linha/:codigo, também no SSR)
+    'ficha.rotulo': 'Line information',
+    'ficha.carregando': '⏳ Loading the line...',
+    'ficha.nenhuma': 'No line found for "{termo}".',
+    'ficha.cabecalho': '{letreiro}: {principal} ⇄ {secundario}',
+    'ficha.paradas': '{total} stop(s)',
+    'ficha.paradasIndisponiveis': 'Could not load the stops in this direction.',
+    'ficha.titulo': '{letreiro}: {principal} ⇄ {secundario} | SPTrans Olho Vivo',
+    'ficha.tituloNenhuma': 'Line {termo} not found | SPTrans Olho Vivo',
+    'ficha.descricao': 'Line {letreiro} buses ({principal} ⇄ {secundario}) live on the map, with {paradas} stops.',
+
+    // Favoritos e buscas recentes
+    'atalhos.rotulo': 'Favourites and recent searches',
+    'atalhos.abrirParada': 'Open stop {codigo}',
+    'atalhos.buscarLinha': 'Search line {codigo}',
+    'atalhos.buscadoEm': 'Searched on {data}',
+    'atalhos.limparRecentes': 'Clear recent searches',
+    'atalhos.exportar': '⬇️ Export favourites',
+    'atalhos.importar': '⬆️ Import',
+    'atalhos.importarTitulo': 'Import favourites',
+    'atalhos.importados': '⭐ {total} favourite(s) imported',
+    'atalhos.nenhumNovo': 'Every favourite in the file was already on the list',
+    'atalhos.falhaLer': 'Could not read the file',
+    'importacao.json-invalido': 'The file is not valid JSON',
+    'importacao.sem-lista': 'The file has no list of favourites',
+    'importacao.sem-favoritos': 'No valid favourites in the file',
+
+    // Notificações
+    'notificacoes.rotulo': 'Notifications',
+    'notificacoes.fechar': 'Close notification',
+
+    // Erros da API (ErroApi)
+    'erros.titulo': 'The request could not be completed',
+    'erros.rede': 'No connection to the server. Check the internet or whether the backend is running.',
+    'erros.autenticacao': 'The Olho Vivo API session was not accepted.',
+    'erros.cliente': 'The request was refused by the server.',
+    'erros.servidor': 'The server ran into an error. Try again in a moment.',
+    'erros.tempo-esgotado': 'The server took too long to respond (it may be waking up).',
+    'erros.dados-invalidos': 'The server responded in an unexpected format.',
+    'erros.status404': 'Endpoint not found. Check the API URL.',
+    'erros.status429': 'Too many requests in a row. Wait a few seconds.',
+    'erros.resumo.rede': 'Connection failed',
+    'erros.resumo.autenticacao': 'Not authenticated',
+    'erros.resumo.cliente': 'Request refused',
+    'erros.resumo.servidor': 'Server error',
+    'erros.resumo.tempo-esgotado': 'Timed out',
+    'erros.resumo.dados-invalidos': 'Invalid response'
+};
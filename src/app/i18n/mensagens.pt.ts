@@ -0,0 +1,282 @@
+/**
+ * 🇧🇷 TEXTOS DA INTERFACE EM PORTUGUÊS
+ *
+ * Este catálogo define as chaves; os outros idiomas precisam ter todas elas
+ * (o tipo Mensagens garante isso na compilação).
+ * Parâmetros entre chaves, ex: {total}, são trocados por TraducaoService.traduzir().
+ */
+export const MENSAGENS_PT = {
+    // Geral
+    'geral.fecharPainel': 'Fechar painel',
+    'geral.naoInformado': 'N/A',
+    'geral.sim': 'Sim',
+    'geral.nao': 'Não',
+    'geral.tentarDeNovo': '🔄 Tentar de novo',
+    'idade.segundos': 'há {valor} s',
+    'idade.minutos': 'há {valor} min',
+    'idade.horas': 'há {valor} h',
+    'sentido.1': 'Ida',
+    'sentido.2': 'Volta',
+
+    // Cabeçalho
+    'app.subtitulo': 'Acompanhe os ônibus em tempo real',
+    'app.altoContraste': '◐ Alto contraste',
+    'app.idioma': 'Idioma',
+
+    // Busca
+    'busca.tipo': 'Tipo de busca',
+    'busca.modoLinhas': '🚌 Linhas',
+    'busca.modoParadas': '🚏 Paradas',
+    'busca.placeholderLinhas': 'Digite o número da linha (ex: 8000) ou bairro...',
+    'busca.placeholderParadas': 'Digite o nome ou endereço da parada...',
+    'busca.botaoLinhas': '🔍 Buscar Ônibus',
+    'busca.botaoParadas': '🔍 Buscar Paradas',
+    'busca.buscando': '⏳ Buscando...',
+    'busca.digiteLinha': 'Digite um número de linha ou nome de bairro!',
+    'busca.digiteParada': 'Digite o nome ou endereço da parada!',
+    'busca.aguardeMapa': 'Aguarde o mapa carregar!',
+    'busca.nenhumaParada': 'Nenhuma parada encontrada para "{termo}"',
+    'busca.nenhumaLinha': 'Nenhuma linha encontrada para "{termo}"',
+    'busca.nenhumaRespondeu': 'Nenhuma das {total} linha(s) de "{termo}" respondeu.',
+    'busca.posicoesIndisponiveis': 'Posições indisponíveis',
+    'busca.falhaPosicoes': 'Não foi possível buscar as posições',
+    'busca.algumasFalharam': '{falhas} de {total} linha(s) não responderam: {letreiros}',
+    'busca.encontrados': 'Encontrados {veiculos} ônibus em {linhas} linha(s) para "{termo}"',
+    'busca.semOnibusAtivo': '{total} linha(s) encontrada(s), mas nenhum ônibus está ativo no momento para "{termo}"',
+
+    // Sugestões
+    'sugestoes.rotulo': 'Linhas sugeridas',
+    'sugestoes.procurando': '⏳ Procurando linhas...',
+    'sugestoes.nenhuma': 'Nenhuma linha para "{termo}"',
+    'sugestoes.circular': '🔁 Circular',
+    'sugestoes.anuncio': '{total} linha(s) sugerida(s)',
+
+    // Sessão
+    'sessao.desconectada': '🔓 Sem sessão (login na primeira busca)',
+    'sessao.autenticando': '⏳ Fazendo login...',
+    'sessao.autenticada': '🔐 Sessão ativa desde {hora}',
+    'sessao.expirada': '🔐 Sessão expirada, renovando...',
+    'sessao.falhou': '⚠️ Login recusado às {hora}',
+
+    // Info-bar
+    'info.onibusNoMapa': '📍 {total} ônibus no mapa',
+    'info.acessiveisExibidos': '({total} acessíveis exibidos)',
+    'info.paradas': '🚏 {total} parada(s)',
+    'info.buscas': '🔍 {total} busca(s) realizadas',
+    'info.frota': '🌐 Frota: {visiveis} de {total} ônibus na tela',
+    'info.percentualAcessivelDica': 'Ônibus acessíveis desta linha no mapa',
+    'info.percentualAcessivel': '{percentual}% da frota acessível',
+    'info.progresso': '📡 Posições: {concluidas}/{total} linha(s)',
+    'info.semResposta': '❌ {total} linha(s) sem resposta',
+    'info.referencia': '🕒 Posições das {hora} ({idade})',
+    'info.offline': '📴 Sem conexão: últimas posições conhecidas',
+    'info.offlineDica': 'Os ônibus esmaecidos estão na última posição recebida antes da conexão cair',
+    'info.reproducao': '⏯️ {total} ônibus às {hora}',
+
+    // Atualização automática
+    'atualizacao.pausada': '⏸️ Atualização pausada',
+    'atualizacao.ativa': '🔄 Atualizando a cada {segundos} s',
+    'atualizacao.aoVivo': '📡 Ao vivo',
+    'atualizacao.falhas': '⚠️ {total} falha(s), nova tentativa às {hora}',
+    'atualizacao.intervalo': 'Intervalo de atualização',
+    'atualizacao.pausar': '⏸️ Pausar',
+    'atualizacao.retomar': '▶️ Retomar',
+
+    // GTFS
+    'gtfs.dica': 'GTFS da SPTrans (.zip), usado quando a API não responde',
+    'gtfs.lendo': '⏳ Lendo GTFS...',
+    'gtfs.rotas': '📦 GTFS: {rotas} rotas',
+    'gtfs.carregar': '📦 Carregar GTFS',
+    'gtfs.carregado': '📦 GTFS carregado',
+    'gtfs.resumo': '{rotas} rotas, {paradas} paradas e {horarios} horários programados',
+    'gtfs.falha': 'Não foi possível ler o GTFS',
+
+    // Botões do mapa
+    'mapa.favorita': '★ Favorita',
+    'mapa.favoritar': '☆ Favoritar linha',
+    'mapa.favoritaAdicionada': '⭐ {nome} adicionada aos favoritos',
+    'mapa.favoritaRemovida': '{nome} removida dos favoritos',
+    'mapa.acessiveisDica': 'Mostra só os ônibus com acessibilidade (no mapa, na frota e nas previsões)',
+    'mapa.somenteAcessiveis': '♿ Só acessíveis',
+    'mapa.todosOnibus': '♿ Todos os ônibus',
+    'mapa.pertoDeMim': '📍 Perto de mim',
+    'mapa.sairPerto': '📍 Sair do perto de mim',
+    'mapa.frotaInteira': '🌐 Frota inteira',
+    'mapa.sairFrota': '🚌 Sair da frota',
+    'mapa.reproducao': '⏯️ Reprodução',
+    'mapa.sairReproducao': '⏹️ Sair da reprodução',
+    'mapa.limpar': '🗑️ Limpar',
+    'mapa.buscandoOnibus': 'Buscando ônibus...',
+    'mapa.carregando': 'Carregando mapa...',
+    'mapa.naoCarregou': '⚠️ Mapa ainda não carregou',
+    'mapa.erroCriar': 'Erro ao criar mapa: {erro}',
+    'mapa.dicaTracado': '{letreiro}: {principal} ⇄ {secundario} ({sentido} → {destino})',
+    'mapa.dicaParada': '🚏 {nome}',
+
+    // Controle de camadas
+    'camadas.onibus': '🚌 Ônibus',
+    'camadas.paradas': '🚏 Paradas',
+    'camadas.tracados': '🛣️ Traçados',
+    'camadas.localizacao': '📍 Minha localização',
+
+    // Ônibus no mapa
+    'onibus.dica': '🚌 {linha} → {destino} ({prefixo})',
+    'onibus.rotulo': 'Ônibus {prefixo}, linha {linha} sentido {destino}',
+    'onibus.rotuloAcessivel': 'Ônibus {prefixo}, linha {linha} sentido {destino}, acessível',
+    'onibus.selecionado': 'Ônibus {prefixo} da linha {linha} selecionado',
+    'onibus.somenteAcessiveis': 'Mostrando só ônibus acessíveis: {acessiveis} de {total}',
+    'onibus.todos': 'Mostrando todos os {total} ônibus',
+
+    // Frota inteira
+    'frota.falhaAtualizar': 'Não foi possível atualizar a frota. Nova tentativa no próximo ciclo.',
+    'frota.linha': '🚌 Linha {linha}',
+    'frota.destino': 'Destino:',
+    'frota.veiculo': 'Veículo:',
+    'frota.horario': 'Horário:',
+    'frota.acessivel': 'Acessível:',
+
+    // Perto de mim
+    'perto.titulo': '📍 Perto de mim',
+    'perto.raio': 'Raio:',
+    'perto.procurando': '⏳ Procurando o que há por perto...',
+    'perto.paradas': '🚏 Paradas',
+    'perto.semParadas': 'Nenhuma parada neste raio.',
+    'perto.semGtfs': '📦 Carregue o GTFS para ver todas as paradas próximas (sem ele, só as que já estão no mapa).',
+    'perto.onibus': '🚌 Ônibus',
+    'perto.semOnibus': 'Nenhum ônibus neste raio agora.',
+    'perto.aproximandoDica': 'Mais perto que na consulta anterior',
+    'perto.aproximando': '⬇️ chegando',
+    'perto.atualizado': 'Atualizado às {hora}',
+    'perto.voceAqui': '📍 Você está aqui',
+    'perto.dicaOnibus': '🚌 {linha} → {destino} ({distancia})',
+    'perto.falhaAtualizar': 'Não foi possível atualizar os ônibus próximos. Nova tentativa no próximo ciclo.',
+    'perto.erro.sem-suporte': 'Este navegador não informa a localização.',
+    'perto.erro.negada': 'A permissão de localização foi negada. Libere nas configurações do navegador para usar "Perto de mim".',
+    'perto.erro.indisponivel': 'Não foi possível descobrir a sua localização agora.',
+    'perto.erro.tempo-esgotado': 'A localização demorou demais para chegar. Tente de novo.',
+
+    // Parada
+    'parada.nome': 'Parada {codigo}',
+    'parada.naoEncontrada': 'Parada {codigo} não encontrada',
+    'parada.favoritar': 'Adicionar aos favoritos',
+    'parada.desfavoritar': 'Remover dos favoritos',
+    'parada.buscando': '⏳ Buscando previsões...',
+    'parada.falhaAtualizar': 'Não foi possível atualizar as previsões',
+    'parada.programados': '📦 Horários programados (GTFS):',
+    'parada.semPrevisao': 'Nenhum ônibus previsto para esta parada agora.',
+    'parada.somenteAcessiveis': '♿ Só ônibus acessíveis',
+    'parada.linhaSemPrevisao': 'Nenhum ônibus previsto para esta linha.',
+    'parada.semAcessivel': 'Nenhum ônibus acessível previsto.',
+    'parada.acessivel': 'Acessível',
+    'parada.chegando': 'chegando',
+    'parada.minutos': '{minutos} min',
+    'parada.previsaoDas': 'Previsão das {horario}',
+
+    // Veículo
+    'veiculo.detalhes': 'Detalhes do veículo',
+    'veiculo.titulo': 'Veículo {prefixo}',
+    'veiculo.semSinal': '⚠️ Sem posição nova {idade}: o ônibus pode estar sem sinal.',
+    'veiculo.parado': '🅿️ Parado no mesmo lugar: possivelmente estacionado.',
+    'veiculo.ultimaPosicao': 'Última posição',
+    'veiculo.velocidade': 'Velocidade',
+    'veiculo.aguardandoPosicoes': 'Aguardando mais posições',
+    'veiculo.rumo': 'Rumo',
+    'veiculo.acessivel': 'Acessível',
+    'veiculo.posicoesRastro': 'Posições no rastro',
+
+    // Serviço das linhas (intervalos, comboios e lacunas)
+    'servico.botao': '📊 Serviço',
+    'servico.titulo': '📊 Serviço das linhas',
+    'servico.resumo': '{total} ônibus',
+    'servico.intervaloMedio': 'intervalo médio ~{minutos} min',
+    'servico.semTracado': 'Sem traçado: só os comboios são detectados.',
+    'servico.tudoCerto': '✅ Nenhum problema no momento',
+    'servico.alerta.comboio': '🚌🚌 {primeiro} e {segundo} em comboio ({distancia})',
+    'servico.alerta.lacuna': '↔️ {distancia} sem ônibus (~{minutos} min) à frente de {prefixo}',
+    'servico.alerta.sem-sinal': '📵 {prefixo} sem posição nova {idade}',
+    'servico.dicaAlerta': 'Mostrar o ônibus no mapa',
+
+    // Gravação e reprodução
+    'gravacao.gravar': '⏺️ Gravar',
+    'gravacao.gravarDica': 'Guarda as posições das linhas no mapa neste navegador, para reproduzir depois',
+    'gravacao.parar': '⏹️ Parar gravação',
+    'gravacao.gravando': '⏺️ Gravando {total} linha(s)',
+    'gravacao.iniciada': '⏺️ Gravando as posições de {letreiros} enquanto a atualização automática estiver ligada',
+    'gravacao.parada': 'Gravação encerrada',
+    'reproducao.titulo': '⏯️ Reprodução',
+    'reproducao.carregando': '⏳ Lendo as gravações...',
+    'reproducao.semGravacoes': 'Nada gravado ainda. Busque uma linha e use "⏺️ Gravar" com a atualização automática ligada.',
+    'reproducao.gravadoEntre': 'Gravado de {inicio} a {fim}',
+    'reproducao.de': 'De',
+    'reproducao.ate': 'Até',
+    'reproducao.carregar': 'Carregar período',
+    'reproducao.linhaTempo': 'Linha do tempo',
+    'reproducao.tocar': '▶️ Tocar',
+    'reproducao.pausar': '⏸️ Pausar',
+    'reproducao.velocidade': 'Velocidade',
+    'reproducao.instantaneos': '{total} instantâneo(s)',
+    'reproducao.apagar': '🗑️ Apagar gravações',
+    'reproducao.confirmarApagar': 'Apagar todas as posições gravadas neste navegador?',
+
+    // Exportação
+    'exportacao.botao': '⬇️ Exportar',
+    'exportacao.exportando': '⏳ Exportando...',
+    'exportacao.geojson': 'linhas e ônibus no mapa',
+    'exportacao.csv': 'ônibus no mapa e posições gravadas',
+    'exportacao.gpx': 'rastros dos ônibus no mapa',
+    'exportacao.concluida': '⬇️ {arquivo} baixado',
+    'exportacao.falhou': 'Não foi possível exportar: {erro}',
+
+    // Ficha da linha (/linha/:codigo, também no SSR)
+    'ficha.rotulo': 'Informações da linha',
+    'ficha.carregando': '⏳ Carregando a linha...',
+    'ficha.nenhuma': 'Nenhuma linha encontrada para "{termo}".',
+    'ficha.cabecalho': '{letreiro}: {principal} ⇄ {secundario}',
+    'ficha.paradas': '{total} parada(s)',
+    'ficha.paradasIndisponiveis': 'Não foi possível carregar as paradas deste sentido.',
+    'ficha.titulo': '{letreiro}: {principal} ⇄ {secundario} | SPTrans Olho Vivo',
+    'ficha.tituloNenhuma': 'Linha {termo} não encontrada | SPTrans Olho Vivo',
+    'ficha.descricao': 'Ônibus da linha {letreiro} ({principal} ⇄ {secundario}) em tempo real no mapa, com {paradas} paradas.',
+
+    // Favoritos e buscas recentes
+    'atalhos.rotulo': 'Favoritos e buscas recentes',
+    'atalhos.abrirParada': 'Abrir a parada {codigo}',
+    'atalhos.buscarLinha': 'Buscar a linha {codigo}',
+    'atalhos.buscadoEm': 'Buscado em {data}',
+    'atalhos.limparRecentes': 'Limpar buscas recentes',
+    'atalhos.exportar': '⬇️ Exportar favoritos',
+    'atalhos.importar': '⬆️ Importar',
+    'atalhos.importarTitulo': 'Importar favoritos',
+    'atalhos.importados': '⭐ {total} favorito(s) importado(s)',
+    'atalhos.nenhumNovo': 'Todos os favoritos do arquivo já estavam na lista',
+    'atalhos.falhaLer': 'Não foi possível ler o arquivo',
+    'importacao.json-invalido': 'O arquivo não é um JSON válido',
+    'importacao.sem-lista': 'O arquivo não tem uma lista de favoritos',
+    'importacao.sem-favoritos': 'Nenhum favorito válido no arquivo',
+
+    // Notificações
+    'notificacoes.rotulo': 'Notificações',
+    'notificacoes.fechar': 'Fechar notificação',
+
+    // Erros da API (ErroApi)
+    'erros.titulo': 'Não foi possível {operacao}',
+    'erros.rede': 'Sem conexão com o servidor. Verifique a internet ou se o backend está rodando.',
+    'erros.autenticacao': 'A sessão com a API Olho Vivo não foi aceita.',
+    'erros.cliente': 'A requisição foi recusada pelo servidor.',
+    'erros.servidor': 'O servidor encontrou um erro. Tente novamente em instantes.',
+    'erros.tempo-esgotado': 'O servidor demorou demais para responder (ele pode estar acordando).',
+    'erros.dados-invalidos': 'O servidor respondeu em um formato inesperado.',
+    'erros.status404': 'Endpoint não encontrado. Verifique a URL da API.',
+    'erros.status429': 'Muitas requisições seguidas. Aguarde alguns segundos.',
+    'erros.resumo.rede': 'Conexão falhou',
+    'erros.resumo.autenticacao': 'Não autenticado',
+    'erros.resumo.cliente': 'Requisição recusada',
+    'erros.resumo.servidor': 'Erro no servidor',
+    'erros.resumo.tempo-esgotado': 'Tempo esgotado',
+    'erros.resumo.dados-invalidos': 'Resposta inválida'
+};
+
+export type ChaveMensagem = keyof typeof MENSAGENS_PT;
+
+/** Catálogo de um idioma: todas as chaves do catálogo em português */
+export type Mensagens = Record<ChaveMensagem, string>;
@@ -0,0 +1,55 @@
+import { TestBed } from '@angular/core/testing';
+import { DOCUMENT } from '@angular/common';
+import { HttpErrorResponse } from '@angular/common/http';
+import { classificarErro } from '../models/erros-api';
+import { MENSAGENS_EN } from './mensagens.en';
+import { ChaveMensagem, MENSAGENS_PT } from './mensagens.pt';
+import { TraducaoService } from './traducao.service';
+
+describe('TraducaoService', () => {
+  let service: TraducaoService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(TraducaoService);
+  });
+
+  it('traduz com os parâmetros e acompanha a troca de idioma', () => {
+    expect(service.traduzir('info.paradas', { total: 3 })).toBe('🚏 3 parada(s)');
+    expect(TestBed.inject(DOCUMENT).documentElement.lang).toBe('pt-BR');
+
+    service.alterarIdioma('en');
+
+    expect(service.traduzir('info.paradas', { total: 3 })).toBe('🚏 3 stop(s)');
+    expect(service.nomeSentido(2)).toBe('Inbound');
+    expect(service.formatarIdade(125)).toBe('2 min ago');
+    expect(TestBed.inject(DOCUMENT).documentElement.lang).toBe('en');
+  });
+
+  it('só usa no inglês parâmetros que existem no português', () => {
+    // O contrário pode acontecer: 'erros.titulo' em inglês não repete a operação (que vem em português)
+    const parametros = (texto: string) => texto.match(/\{\w+\}/g) ?? [];
+
+    (Object.keys(MENSAGENS_PT) as ChaveMensagem[]).forEach(chave => {
+      const doPortugues = parametros(MENSAGENS_PT[chave]);
+      parametros(MENSAGENS_EN[chave]).forEach(parametro => {
+        expect(doPortugues).withContext(chave).toContain(parametro);
+      });
+    });
+  });
+
+  it('formata horários e erros da API no idioma atual', () => {
+    const data = new Date(2024, 0, 15, 14, 5, 9);
+    const erro = classificarErro(new HttpErrorResponse({ status: 500 }), 'buscar linhas');
+
+    expect(service.formatarData(data, 'shortTime')).toBe('14:05');
+    expect(service.resumoDoErro(erro)).toBe('Erro no servidor (500)');
+
+    service.alterarIdioma('en');
+
+    expect(service.formatarData(data, 'shortTime')).toMatch(/^2:05\sPM$/);
+    expect(service.resumoDoErro(erro)).toBe('Server error (500)');
+    expect(service.mensagemDoErro(classificarErro(new HttpErrorResponse({ status: 429 }), 'buscar')))
+      .toBe('Too many requests in a row. Wait a few seconds.');
+  });
+});
@@ -0,0 +1,113 @@
+import { Inject, Injectable } from '@angular/core';
+import { DOCUMENT, formatDate, registerLocaleData } from '@angular/common';
+import localePt from '@angular/common/locales/pt';
+import { Observable } from 'rxjs';
+import { distinctUntilChanged, map } from 'rxjs/operators';
+import { ErroApi } from '../models/erros-api';
+import { Sentido } from '../models/sptrans.model';
+import { PreferenciasService } from '../preferencias/preferencias.service';
+import { Idioma } from './idiomas';
+import { ChaveMensagem, MENSAGENS_PT, Mensagens } from './mensagens.pt';
+import { MENSAGENS_EN } from './mensagens.en';
+
+// O Angular já vem com o 'en'; o 'pt' é registrado com o código usado pelo app
+registerLocaleData(localePt, 'pt-BR');
+
+const CATALOGOS: Record<Idioma, Mensagens> = {
+    'pt-BR': MENSAGENS_PT,
+    'en': MENSAGENS_EN
+};
+
+/** Valores para os parâmetros da mensagem, ex: { total: 3 } para '{total} parada(s)' */
+export type ParametrosTraducao = Record<string, string | number>;
+
+/**
+ * 🌍 TRADUÇÃO DA INTERFACE
+ *
+ * Traduz as chaves dos catálogos (mensagens.pt.ts, mensagens.en.ts) para o
+ * idioma escolhido pelo usuário, que fica guardado nas preferências.
+ * Os templates usam os pipes `traduzir` e `dataLocal`; o código TypeScript
+ * (notificações, dicas do mapa) chama traduzir() direto.
+ *
+ * Exemplo de uso:
+ * ```
+ * this.traducao.traduzir('info.paradas', { total: 12 });   // '🚏 12 parada(s)'
+ * this.traducao.formatarData(veiculo.atualizadoEm, 'mediumTime');
+ * this.traducao.alterarIdioma('en');
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class TraducaoService {
+
+    readonly idioma$: Observable<Idioma>;
+
+    constructor(
+        private preferencias: PreferenciasService,
+        @Inject(DOCUMENT) private documento: Document
+    ) {
+        this.idioma$ = this.preferencias.preferencias$.pipe(
+            map(preferencias => preferencias.idioma),
+            distinctUntilChanged()
+        );
+        this.idioma$.subscribe(idioma => this.documento.documentElement.lang = idioma);
+    }
+
+    get idioma(): Idioma {
+        return this.preferencias.atuais.idioma;
+    }
+
+    alterarIdioma(idioma: Idioma): void {
+        this.preferencias.alterar({ idioma });
+    }
+
+    /**
+     * Texto da chave no idioma atual, com os parâmetros preenchidos.
+     * Uma chave que não existe volta como está (aparece na tela e é fácil de achar).
+     */
+    traduzir(chave: ChaveMensagem, parametros: ParametrosTraducao = {}): string {
+        const texto: string | undefined = CATALOGOS[this.idioma][chave] ?? MENSAGENS_PT[chave];
+        if (texto === undefined) return chave;
+        return texto.replace(/\{(\w+)\}/g, (original, nome: string) =>
+            nome in parametros ? String(parametros[nome]) : original
+        );
+    }
+
+    /**
+     * Data no formato do idioma atual (mesmos formatos do DatePipe, ex: 'shortTime', 'mediumTime')
+     */
+    formatarData(valor: Date | number, formato: string): string {
+        return formatDate(valor, formato, this.idioma);
+    }
+
+    /**
+     * Tempo decorrido, ex: 'há 40 s' / '40 s ago'
+     */
+    formatarIdade(segundos: number): string {
+        if (segundos < 60) return this.traduzir('idade.segundos', { valor: segundos });
+        const minutos = Math.floor(segundos / 60);
+        if (minutos < 60) return this.traduzir('idade.minutos', { valor: minutos });
+        return this.traduzir('idade.horas', { valor: Math.floor(minutos / 60) });
+    }
+
+    /** 'Ida' ou 'Volta' no idioma atual */
+    nomeSentido(sentido: Sentido): string {
+        return this.traduzir(`sentido.${sentido}`);
+    }
+
+    /**
+     * Mensagem de um ErroApi para a notificação (as de 404 e 429 são mais específicas)
+     */
+    mensagemDoErro(erro: ErroApi): string {
+        if (erro.status === 404) return this.traduzir('erros.status404');
+        if (erro.status === 429) return this.traduzir('erros.status429');
+        return this.traduzir(`erros.${erro.tipo}`);
+    }
+
+    /**
+     * Texto curto de um ErroApi para a info-bar, ex: 'Erro no servidor (500)'
+     */
+    resumoDoErro(erro: ErroApi): string {
+        const rotulo = this.traduzir(`erros.resumo.${erro.tipo}`);
+        return erro.status ? `${rotulo} (${erro.status})` : rotulo;
+    }
+}
@@ -0,0 +1,18 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { ChaveMensagem } from './mensagens.pt';
+import { ParametrosTraducao, TraducaoService } from './traducao.service';
+
+/**
+ * Texto da chave no idioma atual: {{ 'info.paradas' | traduzir:{ total: totalParadas } }}
+ *
+ * Impuro para a tela mudar na hora em que o usuário troca o idioma.
+ */
+@Pipe({ name: 'traduzir', pure: false })
+export class TraduzirPipe implements PipeTransform {
+
+  constructor(private traducao: TraducaoService) { }
+
+  transform(chave: ChaveMensagem, parametros?: ParametrosTraducao): string {
+    return this.traducao.traduzir(chave, parametros);
+  }
+}
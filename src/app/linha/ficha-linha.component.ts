@@ -0,0 +1,163 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Meta, Title } from '@angular/platform-browser';
+import { ActivatedRoute, NavigationEnd, Router, RouterLink } from '@angular/router';
+import { Observable, Subscription, of } from 'rxjs';
+import { catchError, distinctUntilChanged, filter, map, startWith, switchMap } from 'rxjs/operators';
+import { CORES_SENTIDO } from '../home/sentido';
+import { lerSentido } from '../home/rota-mapa';
+import { ErroApi } from '../models/erros-api';
+import { Sentido } from '../models/sptrans.model';
+import { TraducaoService } from '../i18n/traducao.service';
+import { TraduzirPipe } from '../i18n/traduzir.pipe';
+import { FichaLinha, FichaLinhaService } from './ficha-linha.service';
+
+/** Título da página fora de /linha */
+export const TITULO_PADRAO = 'SPTrans Olho Vivo';
+
+/** Meta tags que a ficha preenche (e tira ao sair da linha) */
+const METAS_FICHA = [
+  'name="description"',
+  'name="robots"',
+  'property="og:title"',
+  'property="og:description"',
+  'property="og:type"',
+  'property="og:site_name"',
+  'name="twitter:card"'
+];
+
+/**
+ * Linha pedida pela URL (/linha/:codigo ou /linha/:codigo/:sentido)
+ */
+interface LinhaDaRota {
+  termo: string;
+  sentido: Sentido | null;
+}
+
+/**
+ * Estado da ficha exibida
+ */
+interface EstadoFicha {
+  ficha: FichaLinha | null;
+  carregando: boolean;
+  erro: string;
+}
+
+/**
+ * 🪧 FICHA DA LINHA (/linha/:codigo)
+ *
+ * Terminais, sentidos e paradas da linha em HTML, abaixo do mapa. Ao
+ * contrário do mapa, é renderizada também no servidor: quem abre um link
+ * de linha (ou um buscador, ou a prévia de um link) já recebe o conteúdo,
+ * o <title> e as meta tags (description e OpenGraph).
+ * Os dados vêm do FichaLinhaService, que os passa do servidor para o
+ * navegador pelo TransferState.
+ */
+@Component({
+  selector: 'app-ficha-linha',
+  imports: [CommonModule, RouterLink, TraduzirPipe],
+  templateUrl: './ficha-linha.component.html',
+  styleUrl: './ficha-linha.component.scss'
+})
+export class FichaLinhaComponent implements OnInit, OnDestroy {
+
+  ficha: FichaLinha | null = null;
+  carregando = false;
+  erro = '';
+
+  readonly coresSentido = CORES_SENTIDO;
+
+  private inscricao?: Subscription;
+
+  constructor(
+    private fichas: FichaLinhaService,
+    public traducao: TraducaoService,
+    private titulo: Title,
+    private meta: Meta,
+    private router: Router,
+    private route: ActivatedRoute
+  ) { }
+
+  ngOnInit(): void {
+    this.inscricao = this.router.events.pipe(
+      filter(evento => evento instanceof NavigationEnd),
+      startWith(null),
+      map(() => this.lerLinhaDaRota()),
+      distinctUntilChanged((a, b) => a?.termo === b?.termo && a?.sentido === b?.sentido),
+      switchMap(linha => linha ? this.carregar(linha) : of<EstadoFicha>({ ficha: null, carregando: false, erro: '' }))
+    ).subscribe(estado => {
+      this.ficha = estado.ficha;
+      this.carregando = estado.carregando;
+      this.erro = estado.erro;
+      if (!estado.carregando) this.aplicarMetadados(estado.ficha);
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.inscricao?.unsubscribe();
+    this.aplicarMetadados(null);
+  }
+
+  /** Letreiros da busca sem repetição (ex: '8000-10') */
+  letreiros(ficha: FichaLinha): string {
+    return [...new Set(ficha.sentidos.map(({ linha }) => linha.letreiro))].join(', ');
+  }
+
+  /**
+   * A linha de /linha/:codigo é a rota filha do HomeComponent
+   */
+  private lerLinhaDaRota(): LinhaDaRota | null {
+    const filha = this.route.firstChild?.snapshot;
+    const termo = filha?.paramMap.get('codigo');
+    if (filha?.data['tipo'] !== 'linha' || !termo) return null;
+    return { termo, sentido: lerSentido(filha.paramMap.get('sentido')) };
+  }
+
+  private carregar({ termo, sentido }: LinhaDaRota): Observable<EstadoFicha> {
+    return this.fichas.carregar(termo, sentido).pipe(
+      map((ficha): EstadoFicha => ({ ficha, carregando: false, erro: '' })),
+      catchError((erro: ErroApi) => of<EstadoFicha>({ ficha: null, carregando: false, erro: this.traducao.mensagemDoErro(erro) })),
+      startWith<EstadoFicha>({ ficha: null, carregando: true, erro: '' })
+    );
+  }
+
+  /**
+   * <title>, description e OpenGraph da linha; sem ficha, volta ao título padrão
+   */
+  private aplicarMetadados(ficha: FichaLinha | null): void {
+    METAS_FICHA.forEach(seletor => this.meta.removeTag(seletor));
+
+    if (!ficha) {
+      this.titulo.setTitle(TITULO_PADRAO);
+      return;
+    }
+
+    if (ficha.sentidos.length === 0) {
+      this.titulo.setTitle(this.traducao.traduzir('ficha.tituloNenhuma', { termo: ficha.termo }));
+      this.meta.addTag({ name: 'robots', content: 'noindex' });
+      return;
+    }
+
+    const { linha } = ficha.sentidos[0];
+    const params = {
+      letreiro: this.letreiros(ficha),
+      principal: linha.terminalPrincipal,
+      secundario: linha.terminalSecundario
+    };
+    const titulo = this.traducao.traduzir('ficha.titulo', params);
+    const descricao = this.traducao.traduzir('ficha.descricao', {
+      ...params,
+      paradas: Math.max(...ficha.sentidos.map(({ paradas }) => paradas?.length ?? 0))
+    });
+
+    this.titulo.setTitle(titulo);
+    this.meta.addTags([
+      { name: 'description', content: descricao },
+      { property: 'og:title', content: titulo },
+      { property: 'og:description', content: descricao },
+      { property: 'og:type', content: 'website' },
+      { property: 'og:site_name', content: TITULO_PADRAO },
+      { name: 'twitter:card', content: 'summary' }
+    ]);
+  }
+}
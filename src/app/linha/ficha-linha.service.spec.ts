@@ -0,0 +1,68 @@
+import { TestBed } from '@angular/core/testing';
+import { TransferState, makeStateKey } from '@angular/core';
+import { of, throwError } from 'rxjs';
+import { SptransService } from '../app.service';
+import { Linha, Parada } from '../models/sptrans.model';
+import { injetarNaPlataforma } from '../testing/plataforma';
+import { FichaLinha, FichaLinhaService } from './ficha-linha.service';
+
+describe('FichaLinhaService', () => {
+  let service: FichaLinhaService;
+  let sptrans: jasmine.SpyObj<SptransService>;
+  let transferState: TransferState;
+
+  const ida: Linha = {
+    codigo: 1273, letreiro: '8000-10', circular: false, sentido: 1,
+    terminalPrincipal: 'PCA.RAMOS DE AZEVEDO', terminalSecundario: 'TERMINAL LAPA', destino: 'TERMINAL LAPA'
+  };
+  const volta: Linha = { ...ida, codigo: 34041, sentido: 2, destino: 'PCA.RAMOS DE AZEVEDO' };
+  const parada: Parada = { codigo: 340015329, nome: 'AFONSO BRAZ B/C1', endereco: 'R DOUTORA MARIA', lat: -23.59, lng: -46.67 };
+
+  beforeEach(() => {
+    sptrans = jasmine.createSpyObj<SptransService>('SptransService', ['buscarLinhas', 'buscarParadasPorLinha']);
+  });
+
+  it('monta a ficha com as paradas de cada sentido e a guarda para o navegador', () => {
+    sptrans.buscarLinhas.and.returnValue(of([ida, volta]));
+    sptrans.buscarParadasPorLinha.and.callFake(codigo =>
+      codigo === volta.codigo ? throwError(() => new Error('offline')) : of([parada]));
+    // A ficha só é guardada no TransferState quando montada no servidor
+    service = injetarNaPlataforma(FichaLinhaService, 'server', [{ provide: SptransService, useValue: sptrans }]);
+    transferState = TestBed.inject(TransferState);
+    let ficha: FichaLinha | undefined;
+
+    service.carregar('8000-10', null).subscribe(resultado => ficha = resultado);
+
+    expect(ficha!.sentidos).toEqual([{ linha: ida, paradas: [parada] }, { linha: volta, paradas: null }]);
+    expect(transferState.get(makeStateKey<FichaLinha>('ficha-linha:8000-10:'), null)).toEqual(ficha!);
+  });
+
+  it('filtra o sentido pedido na URL', () => {
+    sptrans.buscarLinhas.and.returnValue(of([ida, volta]));
+    sptrans.buscarParadasPorLinha.and.returnValue(of([]));
+    service = injetarNaPlataforma(FichaLinhaService, 'browser', [{ provide: SptransService, useValue: sptrans }]);
+    transferState = TestBed.inject(TransferState);
+    let ficha: FichaLinha | undefined;
+
+    service.carregar('8000-10', 2).subscribe(resultado => ficha = resultado);
+
+    expect(ficha!.sentidos.map(({ linha }) => linha.codigo)).toEqual([34041]);
+    expect(sptrans.buscarParadasPorLinha).toHaveBeenCalledOnceWith(34041);
+    expect(transferState.isEmpty).toBeTrue();
+  });
+
+  it('usa a ficha transferida do servidor sem buscar de novo', () => {
+    service = injetarNaPlataforma(FichaLinhaService, 'browser', [{ provide: SptransService, useValue: sptrans }]);
+    transferState = TestBed.inject(TransferState);
+    const transferida: FichaLinha = { termo: '8000-10', sentidos: [{ linha: ida, paradas: [parada] }] };
+    const chave = makeStateKey<FichaLinha>('ficha-linha:8000-10:1');
+    transferState.set(chave, transferida);
+    let ficha: FichaLinha | undefined;
+
+    service.carregar('8000-10', 1).subscribe(resultado => ficha = resultado);
+
+    expect(ficha).toEqual(transferida);
+    expect(sptrans.buscarLinhas).not.toHaveBeenCalled();
+    expect(transferState.hasKey(chave)).toBeFalse();
+  });
+});
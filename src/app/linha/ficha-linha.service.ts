@@ -0,0 +1,81 @@
+import { Inject, Injectable, PLATFORM_ID, TransferState, makeStateKey } from '@angular/core';
+import { isPlatformServer } from '@angular/common';
+import { Observable, forkJoin, of } from 'rxjs';
+import { catchError, map, switchMap, tap } from 'rxjs/operators';
+import { SptransService } from '../app.service';
+import { Linha, Parada, Sentido } from '../models/sptrans.model';
+
+/** Quantos sentidos da busca entram na ficha (cada um custa uma chamada de paradas) */
+export const MAXIMO_SENTIDOS_FICHA = 6;
+
+/**
+ * Um sentido da linha com as paradas em ordem
+ */
+export interface SentidoFicha {
+    linha: Linha;
+    paradas: Parada[] | null;    // null: a busca das paradas falhou
+}
+
+/**
+ * O que a página /linha/:codigo mostra sobre a linha
+ */
+export interface FichaLinha {
+    termo: string;
+    sentidos: SentidoFicha[];    // vazio: nenhuma linha com esse termo
+}
+
+/**
+ * 🪧 FICHA DA LINHA
+ *
+ * Busca os sentidos de uma linha e as paradas de cada um. No SSR a ficha é
+ * montada no servidor, vira HTML (para buscadores e prévias de link) e vai
+ * para o navegador pelo TransferState: a hidratação usa a mesma ficha em
+ * vez de buscar tudo de novo.
+ *
+ * Exemplo de uso:
+ * ```
+ * this.fichas.carregar('8000-10', null).subscribe(ficha => console.log(ficha.sentidos));
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class FichaLinhaService {
+
+    private readonly isServer: boolean;
+
+    constructor(
+        private sptransService: SptransService,
+        private transferState: TransferState,
+        @Inject(PLATFORM_ID) platformId: Object
+    ) {
+        this.isServer = isPlatformServer(platformId);
+    }
+
+    /**
+     * @param termo - termo de /linha/:codigo (ex: '8000-10')
+     * @param sentido - só um sentido (/linha/:codigo/:sentido) ou null para todos
+     */
+    carregar(termo: string, sentido: Sentido | null): Observable<FichaLinha> {
+        const chave = makeStateKey<FichaLinha>(`ficha-linha:${termo.trim().toUpperCase()}:${sentido ?? ''}`);
+
+        const transferida = this.transferState.get(chave, null);
+        if (transferida) {
+            // Vale só para a hidratação: uma nova visita à mesma linha busca de novo
+            this.transferState.remove(chave);
+            return of(transferida);
+        }
+
+        return this.sptransService.buscarLinhas(termo).pipe(
+            map(linhas => linhas.filter(linha => sentido === null || linha.sentido === sentido).slice(0, MAXIMO_SENTIDOS_FICHA)),
+            switchMap(linhas => linhas.length === 0 ? of([]) : forkJoin(linhas.map(linha =>
+                this.sptransService.buscarParadasPorLinha(linha.codigo).pipe(
+                    map((paradas): SentidoFicha => ({ linha, paradas })),
+                    catchError(() => of<SentidoFicha>({ linha, paradas: null }))
+                )
+            ))),
+            map((sentidos): FichaLinha => ({ termo, sentidos })),
+            tap(ficha => {
+                if (this.isServer) this.transferState.set(chave, ficha);
+            })
+        );
+    }
+}
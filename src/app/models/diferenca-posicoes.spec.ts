@@ -0,0 +1,42 @@
+import { aplicarMensagem, diferencaPosicoes, diferencaVazia, paraTransmissao } from './diferenca-posicoes';
+import { Veiculo } from './sptrans.model';
+
+describe('diferenca-posicoes', () => {
+  const veiculo = (prefixo: string, lat: number): Veiculo => ({
+    prefixo, acessivel: true, lat, lng: -46.63, atualizadoEm: new Date('2024-05-10T12:59:30Z')
+  });
+
+  it('separa os ônibus que apareceram, se moveram e sumiram', () => {
+    const diferenca = diferencaPosicoes(
+      [veiculo('A', -23.50), veiculo('B', -23.51), veiculo('C', -23.52)],
+      [veiculo('A', -23.50), veiculo('B', -23.60), veiculo('D', -23.53)]
+    );
+
+    expect(diferenca.adicionados.map(v => v.prefixo)).toEqual(['D']);
+    expect(diferenca.movidos.map(v => v.prefixo)).toEqual(['B']);
+    expect(diferenca.removidos).toEqual(['C']);
+    expect(diferencaVazia(diferencaPosicoes([veiculo('A', -23.5)], [veiculo('A', -23.5)]))).toBeTrue();
+  });
+
+  it('reconstrói os ônibus a partir da inicial e das diferenças', () => {
+    const inicial = aplicarMensagem(undefined, {
+      tipo: 'inicial', codigoLinha: 1273, horario: '10:00',
+      veiculos: [veiculo('A', -23.50), veiculo('B', -23.51)].map(paraTransmissao)
+    });
+    const depois = aplicarMensagem(inicial!, {
+      tipo: 'diferenca', codigoLinha: 1273, horario: '10:01',
+      adicionados: [paraTransmissao(veiculo('C', -23.52))],
+      movidos: [paraTransmissao(veiculo('B', -23.60))],
+      removidos: ['A']
+    });
+
+    expect(depois!.map(v => [v.prefixo, v.lat])).toEqual([['B', -23.60], ['C', -23.52]]);
+    expect(depois![0].atualizadoEm).toEqual(new Date('2024-05-10T12:59:30Z'));
+  });
+
+  it('não aplica uma diferença antes da inicial', () => {
+    expect(aplicarMensagem(undefined, {
+      tipo: 'diferenca', codigoLinha: 1273, horario: '10:01', adicionados: [], movidos: [], removidos: []
+    })).toBeNull();
+  });
+});
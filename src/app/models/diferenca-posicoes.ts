@@ -0,0 +1,116 @@
+import { Veiculo } from './sptrans.model';
+
+/**
+ * 📡 MENSAGENS DO STREAM DE POSIÇÕES (/api/stream/posicoes)
+ *
+ * O servidor consulta cada linha uma única vez para todos os clientes e
+ * manda, por Server-Sent Events (evento 'posicoes'):
+ * - 'inicial': todos os ônibus da linha (ao conectar e a cada reconexão)
+ * - 'diferenca': só os ônibus que se moveram, apareceram ou sumiram
+ * - 'falha': a consulta da linha falhou (os ônibus ficam como estavam)
+ *
+ * Não depende do Angular: o server.ts monta as mensagens e o
+ * SptransService as aplica com as mesmas funções.
+ */
+
+/** Nome do evento SSE que carrega uma MensagemPosicoes */
+export const EVENTO_POSICOES = 'posicoes';
+
+/**
+ * Veículo como vai no JSON (o horário em ISO 8601)
+ */
+export interface VeiculoTransmitido {
+    prefixo: string;
+    acessivel: boolean;
+    atualizadoEm: string;
+    lat: number;
+    lng: number;
+}
+
+export type MensagemPosicoes =
+    | { tipo: 'inicial'; codigoLinha: number; horario: string; veiculos: VeiculoTransmitido[] }
+    | {
+        tipo: 'diferenca';
+        codigoLinha: number;
+        horario: string;
+        adicionados: VeiculoTransmitido[];
+        movidos: VeiculoTransmitido[];
+        removidos: string[];   // prefixos
+    }
+    | { tipo: 'falha'; codigoLinha: number };
+
+/**
+ * O que mudou entre duas consultas da mesma linha
+ */
+export interface DiferencaPosicoes {
+    adicionados: Veiculo[];
+    movidos: Veiculo[];      // mesma posição com horário novo também conta
+    removidos: string[];
+}
+
+/**
+ * Compara as consultas pelo prefixo de cada ônibus
+ */
+export function diferencaPosicoes(anteriores: Veiculo[], atuais: Veiculo[]): DiferencaPosicoes {
+    const porPrefixo = new Map(anteriores.map(veiculo => [veiculo.prefixo, veiculo]));
+    const prefixosAtuais = new Set(atuais.map(veiculo => veiculo.prefixo));
+
+    const adicionados: Veiculo[] = [];
+    const movidos: Veiculo[] = [];
+    for (const veiculo of atuais) {
+        const anterior = porPrefixo.get(veiculo.prefixo);
+        if (!anterior) {
+            adicionados.push(veiculo);
+        } else if (
+            anterior.lat !== veiculo.lat ||
+            anterior.lng !== veiculo.lng ||
+            anterior.acessivel !== veiculo.acessivel ||
+            anterior.atualizadoEm.getTime() !== veiculo.atualizadoEm.getTime()
+        ) {
+            movidos.push(veiculo);
+        }
+    }
+
+    return {
+        adicionados,
+        movidos,
+        removidos: anteriores.map(veiculo => veiculo.prefixo).filter(prefixo => !prefixosAtuais.has(prefixo))
+    };
+}
+
+export function diferencaVazia(diferenca: DiferencaPosicoes): boolean {
+    return diferenca.adicionados.length === 0 && diferenca.movidos.length === 0 && diferenca.removidos.length === 0;
+}
+
+export function paraTransmissao(veiculo: Veiculo): VeiculoTransmitido {
+    return { ...veiculo, atualizadoEm: veiculo.atualizadoEm.toISOString() };
+}
+
+function daTransmissao(veiculo: VeiculoTransmitido): Veiculo {
+    return { ...veiculo, atualizadoEm: new Date(veiculo.atualizadoEm) };
+}
+
+/**
+ * Ônibus da linha depois da mensagem. Uma diferença sem os ônibus anteriores
+ * (a 'inicial' ainda não chegou) não tem como ser aplicada: devolve null.
+ * Mantém a ordem de chegada; ônibus novos entram no fim.
+ */
+export function aplicarMensagem(anteriores: Veiculo[] | undefined, mensagem: MensagemPosicoes): Veiculo[] | null {
+    switch (mensagem.tipo) {
+        case 'inicial':
+            return mensagem.veiculos.map(daTransmissao);
+        case 'diferenca': {
+            if (!anteriores) return null;
+            const removidos = new Set(mensagem.removidos);
+            const movidos = new Map(mensagem.movidos.map(veiculo => [veiculo.prefixo, daTransmissao(veiculo)]));
+            return [
+                ...anteriores
+                    .filter(veiculo => !removidos.has(veiculo.prefixo))
+                    .map(veiculo => movidos.get(veiculo.prefixo) ?? veiculo),
+                ...mensagem.adicionados.map(daTransmissao)
+            ];
+        }
+        case 'falha':
+            return anteriores ?? null;
+    }
+}
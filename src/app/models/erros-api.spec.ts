@@ -0,0 +1,34 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { TimeoutError } from 'rxjs';
+import { ErroApi, classificarErro } from './erros-api';
+import { ErroDecodificacao } from './sptrans.decoders';
+
+describe('classificarErro', () => {
+
+    const http = (status: number) => new HttpErrorResponse({ status, url: '/api/linhas' });
+
+    it('classifica os erros HTTP pelo status', () => {
+        expect(classificarErro(http(0), 'buscar linhas').tipo).toBe('rede');
+        expect(classificarErro(http(401), 'buscar linhas').tipo).toBe('autenticacao');
+        expect(classificarErro(http(404), 'buscar linhas').tipo).toBe('cliente');
+        expect(classificarErro(http(500), 'buscar linhas').tipo).toBe('servidor');
+        expect(classificarErro(http(504), 'buscar linhas').tipo).toBe('tempo-esgotado');
+    });
+
+    it('classifica timeout e resposta em formato inesperado', () => {
+        expect(classificarErro(new TimeoutError(), 'buscar').tipo).toBe('tempo-esgotado');
+        expect(classificarErro(new ErroDecodificacao('sem vs', {}), 'buscar').tipo).toBe('dados-invalidos');
+    });
+
+    it('diz quais erros valem uma nova tentativa', () => {
+        expect(classificarErro(http(503), 'buscar').temporario).toBeTrue();
+        expect(classificarErro(http(429), 'buscar').temporario).toBeTrue();
+        expect(classificarErro(http(404), 'buscar').temporario).toBeFalse();
+    });
+
+    it('mantém um ErroApi já classificado', () => {
+        const erro = new ErroApi('servidor', 'buscar linhas', 500, null);
+        expect(classificarErro(erro, 'outra coisa')).toBe(erro);
+        expect(erro.resumo).toBe('Erro no servidor (500)');
+    });
+});
@@ -0,0 +1,101 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { TimeoutError } from 'rxjs';
+import { ErroDecodificacao } from './sptrans.decoders';
+
+/**
+ * 🚨 ERROS DA API
+ *
+ * Todo erro que sai do SptransService é um ErroApi, com um `tipo` que diz
+ * o que aconteceu. Assim a tela consegue diferenciar "nenhum resultado"
+ * (lista vazia) de "backend fora do ar" (erro), e escolher a mensagem.
+ *
+ *   rede             - sem conexão, backend desligado, CORS (HTTP status 0)
+ *   autenticacao     - 401/403: sessão com a API Olho Vivo expirou ou foi recusada
+ *   cliente          - outros 4xx: endpoint errado, parâmetro inválido, limite de requisições
+ *   servidor         - 5xx: o backend (ou a API da SPTrans) falhou
+ *   tempo-esgotado   - 408/504 ou timeout do próprio app
+ *   dados-invalidos  - a resposta chegou, mas não tem o formato esperado
+ */
+
+export type TipoErroApi = 'rede' | 'autenticacao' | 'cliente' | 'servidor' | 'tempo-esgotado' | 'dados-invalidos';
+
+const MENSAGENS: Record<TipoErroApi, string> = {
+    'rede': 'Sem conexão com o servidor. Verifique a internet ou se o backend está rodando.',
+    'autenticacao': 'A sessão com a API Olho Vivo não foi aceita.',
+    'cliente': 'A requisição foi recusada pelo servidor.',
+    'servidor': 'O servidor encontrou um erro. Tente novamente em instantes.',
+    'tempo-esgotado': 'O servidor demorou demais para responder (ele pode estar acordando).',
+    'dados-invalidos': 'O servidor respondeu em um formato inesperado.'
+};
+
+/**
+ * Erro de uma chamada à API, já classificado
+ */
+export class ErroApi extends Error {
+    constructor(
+        readonly tipo: TipoErroApi,
+        readonly operacao: string,        // ex: 'buscar linhas'
+        readonly status: number | null,   // status HTTP, quando houver
+        readonly causa: unknown,
+        mensagem: string = MENSAGENS[tipo]
+    ) {
+        super(mensagem);
+        this.name = 'ErroApi';
+    }
+
+    /** Se faz sentido oferecer "tentar de novo" (o problema pode ser passageiro) */
+    get temporario(): boolean {
+        return this.tipo === 'rede' || this.tipo === 'servidor' || this.tipo === 'tempo-esgotado' || this.status === 429;
+    }
+
+    /** Texto curto para a info-bar, ex: 'Servidor 500' */
+    get resumo(): string {
+        const rotulos: Record<TipoErroApi, string> = {
+            'rede': 'Conexão falhou',
+            'autenticacao': 'Não autenticado',
+            'cliente': 'Requisição recusada',
+            'servidor': 'Erro no servidor',
+            'tempo-esgotado': 'Tempo esgotado',
+            'dados-invalidos': 'Resposta inválida'
+        };
+        return this.status ? `${rotulos[this.tipo]} (${this.status})` : rotulos[this.tipo];
+    }
+}
+
+/**
+ * Converte qualquer erro de uma chamada em ErroApi
+ * @param operacao - O que estava sendo feito, para as mensagens e os logs
+ */
+export function classificarErro(erro: unknown, operacao: string): ErroApi {
+    if (erro instanceof ErroApi) return erro;
+
+    if (erro instanceof HttpErrorResponse) {
+        return new ErroApi(tipoDoStatus(erro.status), operacao, erro.status || null, erro, mensagemDoStatus(erro.status));
+    }
+
+    if (erro instanceof TimeoutError || (erro instanceof Error && erro.name === 'TimeoutError')) {
+        return new ErroApi('tempo-esgotado', operacao, null, erro);
+    }
+
+    if (erro instanceof ErroDecodificacao || erro instanceof SyntaxError) {
+        return new ErroApi('dados-invalidos', operacao, null, erro);
+    }
+
+    return new ErroApi('rede', operacao, null, erro);
+}
+
+function tipoDoStatus(status: number): TipoErroApi {
+    if (status === 0) return 'rede';
+    if (status === 401 || status === 403) return 'autenticacao';
+    if (status === 408 || status === 504) return 'tempo-esgotado';
+    // 200 com corpo que não é JSON também chega como HttpErrorResponse
+    if (status >= 200 && status < 300) return 'dados-invalidos';
+    if (status >= 400 && status < 500) return 'cliente';
+    return 'servidor';
+}
+
+function mensagemDoStatus(status: number): string | undefined {
+    if (status === 404) return 'Endpoint não encontrado. Verifique a URL da API.';
+    if (status === 429) return 'Muitas requisições seguidas. Aguarde alguns segundos.';
+    return undefined;
+}
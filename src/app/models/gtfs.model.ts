@@ -0,0 +1,70 @@
+import { Parada, Sentido } from './sptrans.model';
+
+/**
+ * 📦 MODELO DOS DADOS GTFS (programação oficial da SPTrans)
+ *
+ * O GTFS estático é um zip com arquivos CSV. Usamos:
+ *   routes.txt      → RotaGtfs
+ *   trips.txt       → ViagemGtfs
+ *   stops.txt       → Parada (o mesmo tipo da API Olho Vivo; stop_id = cp)
+ *   stop_times.txt  → HorarioGtfs
+ *   shapes.txt      → traçados ([lat, lng][] por shape_id)
+ */
+
+/**
+ * Linha da programação (routes.txt). Ex: id '8000-10'
+ */
+export interface RotaGtfs {
+    id: string;              // route_id
+    nomeCurto: string;       // route_short_name - ex: '8000-10'
+    nomeLongo: string;       // route_long_name - ex: 'Terminal Lapa - Pça. Ramos de Azevedo'
+    tipo: number;            // route_type (3 = ônibus)
+    cor: string | null;      // route_color, já com '#'
+}
+
+/**
+ * Uma viagem programada de uma rota (trips.txt)
+ */
+export interface ViagemGtfs {
+    id: string;              // trip_id
+    rotaId: string;          // route_id
+    servicoId: string;       // service_id (dias em que a viagem roda)
+    sentido: Sentido;        // direction_id 0 → 1 (ida), 1 → 2 (volta)
+    destino: string;         // trip_headsign
+    tracadoId: string | null; // shape_id
+}
+
+/**
+ * Passagem programada de uma viagem em uma parada (stop_times.txt)
+ * Os horários são segundos desde 00:00 do dia de serviço e podem passar de 24 h.
+ */
+export interface HorarioGtfs {
+    viagemId: string;        // trip_id
+    paradaId: number;        // stop_id
+    chegada: number;         // arrival_time em segundos
+    partida: number;         // departure_time em segundos
+    sequencia: number;       // stop_sequence
+}
+
+/**
+ * Próxima passagem programada em uma parada, pronta para exibir
+ */
+export interface HorarioProgramado {
+    rota: RotaGtfs;
+    viagem: ViagemGtfs;
+    parada: Parada;
+    chegada: Date;
+}
+
+/**
+ * Quantidades carregadas de cada arquivo
+ */
+export interface ResumoGtfs {
+    rotas: number;
+    viagens: number;
+    paradas: number;
+    horarios: number;
+    tracados: number;
+    rejeitados: number;      // linhas dos CSVs que não puderam ser convertidas
+    carregadoEm: Date;
+}
@@ -0,0 +1,230 @@
+import {
+    decodificarLinha,
+    decodificarLinhas,
+    decodificarParadas,
+    decodificarPosicoes,
+    decodificarPosicoesFrota,
+    decodificarPrevisaoDaLinha,
+    decodificarPrevisaoParada,
+    decodificarStatus,
+    decodificarTracado,
+    decodificarVeiculo,
+    ErroDecodificacao,
+    horarioDeHoje,
+    horarioPrevisto
+} from './sptrans.decoders';
+
+describe('Decodificadores SPTrans', () => {
+
+    const linhaBruta = { cl: 1273, lc: false, lt: '8000', tl: 10, sl: 1, tp: 'PCA.RAMOS DE AZEVEDO', ts: 'TERMINAL LAPA' };
+    const veiculoBruto = { p: 11433, a: true, ta: '2024-05-07T09:44:09Z', py: -23.5431, px: -46.6420 };
+
+    describe('decodificarLinha', () => {
+        it('converte os campos curtos da API', () => {
+            const linha = decodificarLinha(linhaBruta);
+
+            expect(linha.codigo).toBe(1273);
+            expect(linha.letreiro).toBe('8000-10');
+            expect(linha.circular).toBeFalse();
+            expect(linha.sentido).toBe(1);
+            expect(linha.destino).toBe('TERMINAL LAPA');
+        });
+
+        it('usa o terminal principal como destino no sentido 2', () => {
+            const linha = decodificarLinha({ ...linhaBruta, sl: 2 });
+            expect(linha.destino).toBe('PCA.RAMOS DE AZEVEDO');
+        });
+
+        it('aceita código em campos alternativos', () => {
+            const { cl, ...semCl } = linhaBruta;
+            expect(decodificarLinha({ ...semCl, codigoLinha: '1273' }).codigo).toBe(1273);
+        });
+
+        it('rejeita linha sem código ou com sentido inválido', () => {
+            expect(() => decodificarLinha({ ...linhaBruta, cl: undefined })).toThrowError(ErroDecodificacao);
+            expect(() => decodificarLinha({ ...linhaBruta, sl: 3 })).toThrowError(ErroDecodificacao);
+        });
+    });
+
+    describe('decodificarLinhas', () => {
+        it('separa registros válidos dos rejeitados', () => {
+            const resultado = decodificarLinhas([linhaBruta, { lt: 'sem código' }, null]);
+
+            expect(resultado.validos.length).toBe(1);
+            expect(resultado.rejeitados.length).toBe(2);
+        });
+
+        it('rejeita resposta que não é array', () => {
+            const resultado = decodificarLinhas({ erro: 'x' });
+            expect(resultado.validos).toEqual([]);
+            expect(resultado.rejeitados.length).toBe(1);
+        });
+    });
+
+    describe('decodificarVeiculo', () => {
+        it('converte coordenadas e horário', () => {
+            const veiculo = decodificarVeiculo({ ...veiculoBruto, py: '-23.5431', px: '-46.6420' });
+
+            expect(veiculo.prefixo).toBe('11433');
+            expect(veiculo.acessivel).toBeTrue();
+            expect(veiculo.lat).toBeCloseTo(-23.5431, 4);
+            expect(veiculo.lng).toBeCloseTo(-46.6420, 4);
+            expect(veiculo.atualizadoEm.toISOString()).toBe('2024-05-07T09:44:09.000Z');
+        });
+
+        it('rejeita coordenadas ou horário inválidos', () => {
+            expect(() => decodificarVeiculo({ ...veiculoBruto, py: 'abc' })).toThrowError(ErroDecodificacao);
+            expect(() => decodificarVeiculo({ ...veiculoBruto, py: 0, px: 0 })).toThrowError(ErroDecodificacao);
+            expect(() => decodificarVeiculo({ ...veiculoBruto, ta: 'ontem' })).toThrowError(ErroDecodificacao);
+        });
+    });
+
+    describe('decodificarPosicoes', () => {
+        it('mantém os veículos válidos e conta os rejeitados', () => {
+            const posicoes = decodificarPosicoes({ hr: '09:45', vs: [veiculoBruto, { p: 1 }] });
+
+            expect(posicoes.horario).toBe('09:45');
+            expect(posicoes.veiculos.length).toBe(1);
+            expect(posicoes.rejeitados).toBe(1);
+        });
+
+        it('tolera resposta sem vs', () => {
+            expect(decodificarPosicoes({ hr: '' }).veiculos).toEqual([]);
+        });
+    });
+
+    describe('decodificarPosicoesFrota', () => {
+        it('converte todas as linhas e conta os veículos', () => {
+            const frota = decodificarPosicoesFrota({
+                hr: '09:45',
+                l: [
+                    { c: '8000-10', cl: 1273, sl: 1, lt0: 'TERMINAL LAPA', lt1: 'PCA.RAMOS DE AZEVEDO', qv: 2, vs: [veiculoBruto, { p: 1 }] },
+                    { c: '8000-10', cl: 34041, sl: 2, lt0: 'PCA.RAMOS DE AZEVEDO', lt1: 'TERMINAL LAPA', qv: 1, vs: [veiculoBruto] },
+                    { c: 'sem código', sl: 1 }
+                ]
+            }, new Date(2024, 4, 7, 10, 0));
+
+            expect(frota.linhas.map(l => l.codigoLinha)).toEqual([1273, 34041]);
+            expect(frota.linhas[1].sentido).toBe(2);
+            expect(frota.totalVeiculos).toBe(2);
+            expect(frota.rejeitados).toBe(1);
+        });
+    });
+
+    describe('horarioDeHoje', () => {
+        it('usa a data atual com o horário informado', () => {
+            const agora = new Date(2024, 4, 7, 10, 0);
+            const data = horarioDeHoje('09:45', agora);
+
+            expect(data?.getDate()).toBe(7);
+            expect(data?.getHours()).toBe(9);
+            expect(data?.getMinutes()).toBe(45);
+        });
+
+        it('volta um dia quando o horário é da véspera', () => {
+            const agora = new Date(2024, 4, 7, 0, 5);
+            expect(horarioDeHoje('23:58', agora)?.getDate()).toBe(6);
+        });
+
+        it('retorna null para horário inválido', () => {
+            expect(horarioDeHoje('')).toBeNull();
+        });
+    });
+
+    describe('decodificarParadas', () => {
+        it('converte as paradas e descarta as sem coordenadas', () => {
+            const resultado = decodificarParadas([
+                { cp: 340015329, np: 'AFONSO BRAZ B/C1', ed: 'R ARMINDA/ R BALTHAZAR DA VEIGA', py: -23.592938, px: -46.672727 },
+                { cp: 1, np: 'SEM POSIÇÃO' }
+            ]);
+
+            expect(resultado.validos.length).toBe(1);
+            expect(resultado.validos[0].codigo).toBe(340015329);
+            expect(resultado.validos[0].nome).toBe('AFONSO BRAZ B/C1');
+            expect(resultado.rejeitados.length).toBe(1);
+        });
+    });
+
+    describe('decodificarPrevisaoParada', () => {
+        const agora = new Date(2024, 4, 7, 10, 0);
+        const resposta = {
+            hr: '10:00',
+            p: {
+                cp: 4200953, np: 'PARADA ROBERTO SELMI DEI', py: -23.675, px: -46.752,
+                l: [{
+                    c: '7021-10', cl: 1989, sl: 1, lt0: 'TERM. JOÃO DIAS', lt1: 'JD. MARACÁ',
+                    vs: [
+                        { ...veiculoBruto, p: '2', t: '10:12' },
+                        { ...veiculoBruto, p: '1', t: '10:04' }
+                    ]
+                }]
+            }
+        };
+
+        it('converte parada, linhas e veículos ordenados pela chegada', () => {
+            const previsao = decodificarPrevisaoParada(resposta, agora);
+
+            expect(previsao.parada?.codigo).toBe(4200953);
+            expect(previsao.linhas.length).toBe(1);
+            expect(previsao.linhas[0].destino).toBe('TERM. JOÃO DIAS');
+            expect(previsao.linhas[0].veiculos.map(v => v.prefixo)).toEqual(['1', '2']);
+            expect(previsao.linhas[0].veiculos[0].chegada.getMinutes()).toBe(4);
+        });
+
+        it('tolera resposta sem parada', () => {
+            expect(decodificarPrevisaoParada({ hr: '10:00', p: null }, agora).linhas).toEqual([]);
+        });
+    });
+
+    describe('decodificarPrevisaoDaLinha', () => {
+        it('converte as paradas da linha com seus veículos', () => {
+            const previsao = decodificarPrevisaoDaLinha({
+                hr: '10:00',
+                ps: [{ cp: 1, np: 'A', py: -23.5, px: -46.6, vs: [{ ...veiculoBruto, t: '10:05' }] }]
+            }, new Date(2024, 4, 7, 10, 0));
+
+            expect(previsao.paradas.length).toBe(1);
+            expect(previsao.paradas[0].veiculos.length).toBe(1);
+        });
+    });
+
+    describe('decodificarTracado', () => {
+        it('ordena os pontos do shapes.txt pela sequência', () => {
+            const tracado = decodificarTracado([
+                { shape_pt_lat: '-23.51', shape_pt_lon: '-46.61', shape_pt_sequence: '2' },
+                { shape_pt_lat: '-23.50', shape_pt_lon: '-46.60', shape_pt_sequence: '1' },
+                { shape_pt_lat: 'x', shape_pt_lon: '-46.62', shape_pt_sequence: '3' }
+            ], 1273);
+
+            expect(tracado.codigoLinha).toBe(1273);
+            expect(tracado.pontos).toEqual([[-23.50, -46.60], [-23.51, -46.61]]);
+        });
+
+        it('aceita pares [lat, lng] e rejeita traçado sem pontos suficientes', () => {
+            expect(decodificarTracado({ pontos: [[-23.5, -46.6], [-23.6, -46.7]] }, 1).pontos.length).toBe(2);
+            expect(() => decodificarTracado({ pontos: [[-23.5, -46.6]] }, 1)).toThrowError(ErroDecodificacao);
+            expect(() => decodificarTracado({}, 1)).toThrowError(ErroDecodificacao);
+        });
+    });
+
+    describe('decodificarStatus', () => {
+        it('aceita o booleano do login ou um objeto com autenticado', () => {
+            expect(decodificarStatus(true)).toEqual({ autenticado: true, mensagem: '' });
+            expect(decodificarStatus('false').autenticado).toBeFalse();
+            expect(decodificarStatus({ autenticado: 'true', mensagem: ' ok ' })).toEqual({ autenticado: true, mensagem: 'ok' });
+            expect(() => decodificarStatus(null)).toThrowError(ErroDecodificacao);
+        });
+    });
+
+    describe('horarioPrevisto', () => {
+        it('usa o dia seguinte para previsões após a meia-noite', () => {
+            const agora = new Date(2024, 4, 7, 23, 50);
+            expect(horarioPrevisto('00:10', agora)?.getDate()).toBe(8);
+        });
+
+        it('mantém previsões mais de 1 h à frente no mesmo dia', () => {
+            const agora = new Date(2024, 4, 7, 10, 0);
+            expect(horarioPrevisto('12:30', agora)?.getDate()).toBe(7);
+        });
+    });
+});
@@ -0,0 +1,497 @@
+import {
+    Linha,
+    LinhaDaFrota,
+    Parada,
+    PosicoesFrota,
+    PosicoesLinha,
+    PrevisaoDaLinha,
+    PrevisaoLinha,
+    PrevisaoNaParada,
+    PrevisaoParada,
+    RegistroRejeitado,
+    ResultadoDecodificacao,
+    Sentido,
+    StatusApi,
+    TracadoLinha,
+    Veiculo,
+    VeiculoPrevisto
+} from './sptrans.model';
+
+/**
+ * 🔎 DECODIFICADORES DA API OLHO VIVO
+ *
+ * Convertem os dados brutos (campos curtos, tipos variados) nos tipos
+ * do modelo de domínio. Registros inválidos são descartados e listados
+ * em `rejeitados`, para que o restante do app nunca precise adivinhar
+ * nomes de campos nem fazer parseFloat.
+ *
+ * Formato bruto esperado:
+ *   Linha:    { cl, lc, lt, tl, sl, tp, ts }
+ *   Posição:  { hr, vs: [{ p, a, ta, py, px }] }
+ *   Frota:    { hr, l: [{ c, cl, sl, lt0, lt1, qv, vs: [{ p, a, ta, py, px }] }] }
+ *   Traçado:  [{ shape_pt_lat, shape_pt_lon, shape_pt_sequence }] (linhas do shapes.txt do GTFS)
+ *             ou { pontos: [[lat, lng], ...] }
+ *   Parada:   { cp, np, ed, py, px }
+ *   Previsão: { hr, p: { cp, np, py, px, l: [{ c, cl, sl, lt0, lt1, vs: [{ p, t, a, ta, py, px }] }] } }
+ *   Status:   true | 'true' | { autenticado, mensagem }
+ */
+
+type Bruto = Record<string, unknown>;
+
+/**
+ * Erro lançado quando um registro não pode ser convertido
+ */
+export class ErroDecodificacao extends Error {
+    constructor(motivo: string, readonly registro: unknown) {
+        super(motivo);
+        this.name = 'ErroDecodificacao';
+    }
+}
+
+// ========================================
+// LINHAS
+// ========================================
+
+/**
+ * Converte uma linha bruta da API
+ * @throws ErroDecodificacao se faltar código ou sentido
+ */
+export function decodificarLinha(bruto: unknown): Linha {
+    const dados = comoObjeto(bruto);
+
+    // O backend já devolveu 'cl', 'c', 'codigo' ou 'codigoLinha' dependendo da versão
+    const codigo = comoNumero(dados['cl'] ?? dados['codigoLinha'] ?? dados['codigo'] ?? dados['c']);
+    if (codigo === null || !Number.isInteger(codigo)) {
+        throw new ErroDecodificacao('Linha sem código (cl) válido', bruto);
+    }
+
+    const sentido = comoNumero(dados['sl']);
+    if (sentido !== 1 && sentido !== 2) {
+        throw new ErroDecodificacao(`Sentido (sl) inválido: ${dados['sl']}`, bruto);
+    }
+
+    const terminalPrincipal = comoTexto(dados['tp']);
+    const terminalSecundario = comoTexto(dados['ts']);
+
+    return {
+        codigo,
+        letreiro: montarLetreiro(dados),
+        circular: dados['lc'] === true || dados['lc'] === 'true',
+        sentido: sentido as Sentido,
+        terminalPrincipal,
+        terminalSecundario,
+        destino: sentido === 1 ? terminalSecundario : terminalPrincipal
+    };
+}
+
+/**
+ * Converte a resposta de /linhas
+ */
+export function decodificarLinhas(bruto: unknown): ResultadoDecodificacao<Linha> {
+    if (!Array.isArray(bruto)) {
+        return { validos: [], rejeitados: [{ registro: bruto, motivo: 'Resposta de linhas não é um array' }] };
+    }
+    return decodificarLista(bruto, decodificarLinha);
+}
+
+// ========================================
+// VEÍCULOS E POSIÇÕES
+// ========================================
+
+/**
+ * Converte um veículo bruto da API
+ * @throws ErroDecodificacao se prefixo, coordenadas ou horário forem inválidos
+ */
+export function decodificarVeiculo(bruto: unknown): Veiculo {
+    const dados = comoObjeto(bruto);
+
+    const prefixo = comoTexto(dados['p']);
+    if (!prefixo) {
+        throw new ErroDecodificacao('Veículo sem prefixo (p)', bruto);
+    }
+
+    const lat = comoNumero(dados['py']);
+    const lng = comoNumero(dados['px']);
+    if (!coordenadaValida(lat, lng)) {
+        throw new ErroDecodificacao(`Coordenadas inválidas: py=${dados['py']} px=${dados['px']}`, bruto);
+    }
+
+    const atualizadoEm = new Date(comoTexto(dados['ta']));
+    if (isNaN(atualizadoEm.getTime())) {
+        throw new ErroDecodificacao(`Horário (ta) inválido: ${dados['ta']}`, bruto);
+    }
+
+    return {
+        prefixo,
+        acessivel: dados['a'] === true || dados['a'] === 'true',
+        atualizadoEm,
+        lat: lat as number,
+        lng: lng as number
+    };
+}
+
+/**
+ * Converte a resposta de /Posicao/Linha
+ * Veículos inválidos são descartados e contados em `rejeitados`
+ */
+export function decodificarPosicoes(bruto: unknown, agora: Date = new Date()): PosicoesLinha {
+    const dados = comoObjeto(bruto);
+    const horario = comoTexto(dados['hr']);
+    const vs = Array.isArray(dados['vs']) ? dados['vs'] : [];
+    const { validos, rejeitados } = decodificarLista(vs, decodificarVeiculo);
+
+    if (rejeitados.length > 0) {
+        console.warn(`⚠️ ${rejeitados.length} veículo(s) descartado(s):`, rejeitados);
+    }
+
+    return {
+        horario,
+        referencia: horarioDeHoje(horario, agora),
+        veiculos: validos,
+        rejeitados: rejeitados.length
+    };
+}
+
+/**
+ * Converte a resposta de /Posicao (todas as linhas).
+ * Linhas sem código ou sentido são descartadas; veículos inválidos são contados em `rejeitados`.
+ */
+export function decodificarPosicoesFrota(bruto: unknown, agora: Date = new Date()): PosicoesFrota {
+    const dados = comoObjeto(bruto);
+    const horario = comoTexto(dados['hr']);
+    const l = Array.isArray(dados['l']) ? dados['l'] : [];
+    let rejeitados = 0;
+
+    const linhas = decodificarLista(l, (registro): LinhaDaFrota => {
+        const linha = decodificarLinhaDaFrota(registro);
+        rejeitados += linha.rejeitados;
+        return linha.dados;
+    });
+
+    if (linhas.rejeitados.length > 0 || rejeitados > 0) {
+        console.warn(`⚠️ Frota: ${linhas.rejeitados.length} linha(s) e ${rejeitados} veículo(s) descartados`);
+    }
+
+    return {
+        horario,
+        referencia: horarioDeHoje(horario, agora),
+        linhas: linhas.validos,
+        totalVeiculos: linhas.validos.reduce((soma, linha) => soma + linha.veiculos.length, 0),
+        rejeitados
+    };
+}
+
+/**
+ * Converte 'HH:mm' em um Date de hoje (horário local).
+ * Se o resultado ficar no futuro (virada do dia), usa o dia anterior.
+ */
+export function horarioDeHoje(horario: string, agora: Date = new Date()): Date | null {
+    const partes = /^(\d{1,2}):(\d{2})$/.exec(horario.trim());
+    if (!partes) return null;
+
+    const data = new Date(agora);
+    data.setHours(Number(partes[1]), Number(partes[2]), 0, 0);
+
+    if (data.getTime() - agora.getTime() > 60 * 60 * 1000) {
+        data.setDate(data.getDate() - 1);
+    }
+    return data;
+}
+
+// ========================================
+// PARADAS E PREVISÕES
+// ========================================
+
+/**
+ * Converte uma parada bruta da API
+ * @throws ErroDecodificacao se faltar código ou coordenadas
+ */
+export function decodificarParada(bruto: unknown): Parada {
+    const dados = comoObjeto(bruto);
+
+    const codigo = comoNumero(dados['cp']);
+    if (codigo === null || !Number.isInteger(codigo)) {
+        throw new ErroDecodificacao('Parada sem código (cp) válido', bruto);
+    }
+
+    const lat = comoNumero(dados['py']);
+    const lng = comoNumero(dados['px']);
+    if (!coordenadaValida(lat, lng)) {
+        throw new ErroDecodificacao(`Coordenadas inválidas: py=${dados['py']} px=${dados['px']}`, bruto);
+    }
+
+    return {
+        codigo,
+        nome: comoTexto(dados['np']),
+        endereco: comoTexto(dados['ed']),
+        lat: lat as number,
+        lng: lng as number
+    };
+}
+
+/**
+ * Converte a resposta de /Parada/Buscar e /Parada/BuscarParadasPorLinha
+ */
+export function decodificarParadas(bruto: unknown): ResultadoDecodificacao<Parada> {
+    if (!Array.isArray(bruto)) {
+        return { validos: [], rejeitados: [{ registro: bruto, motivo: 'Resposta de paradas não é um array' }] };
+    }
+    return decodificarLista(bruto, decodificarParada);
+}
+
+/**
+ * Converte um veículo de uma previsão (veículo + horário previsto 't')
+ * @throws ErroDecodificacao se o veículo ou o horário previsto forem inválidos
+ */
+export function decodificarVeiculoPrevisto(bruto: unknown, agora: Date = new Date()): VeiculoPrevisto {
+    const veiculo = decodificarVeiculo(bruto);
+    const chegada = horarioPrevisto(comoTexto(comoObjeto(bruto)['t']), agora);
+    if (!chegada) {
+        throw new ErroDecodificacao(`Horário previsto (t) inválido: ${comoObjeto(bruto)['t']}`, bruto);
+    }
+    return { ...veiculo, chegada };
+}
+
+/**
+ * Converte a resposta de /Previsao/Parada e /Previsao
+ */
+export function decodificarPrevisaoParada(bruto: unknown, agora: Date = new Date()): PrevisaoParada {
+    const dados = comoObjeto(bruto);
+    const horario = comoTexto(dados['hr']);
+    const p = dados['p'];
+
+    if (typeof p !== 'object' || p === null) {
+        return { horario, referencia: horarioDeHoje(horario, agora), parada: null, linhas: [] };
+    }
+
+    let parada: Parada | null = null;
+    try {
+        parada = decodificarParada(p);
+    } catch (erro) {
+        console.warn('⚠️ Parada da previsão descartada:', erro);
+    }
+
+    const l = (p as Bruto)['l'];
+    const { validos } = decodificarLista(Array.isArray(l) ? l : [], linha => decodificarPrevisaoLinha(linha, agora));
+
+    return { horario, referencia: horarioDeHoje(horario, agora), parada, linhas: validos };
+}
+
+/**
+ * Converte a resposta de /Previsao/Linha
+ */
+export function decodificarPrevisaoDaLinha(bruto: unknown, agora: Date = new Date()): PrevisaoDaLinha {
+    const dados = comoObjeto(bruto);
+    const horario = comoTexto(dados['hr']);
+    const ps = Array.isArray(dados['ps']) ? dados['ps'] : [];
+
+    const { validos } = decodificarLista(ps, (registro): PrevisaoNaParada => ({
+        parada: decodificarParada(registro),
+        veiculos: decodificarVeiculosPrevistos((registro as Bruto)['vs'], agora)
+    }));
+
+    return { horario, referencia: horarioDeHoje(horario, agora), paradas: validos };
+}
+
+/**
+ * Converte 'HH:mm' de uma previsão no Date mais próximo de agora.
+ * Previsões ficam no futuro, mas logo após a meia-noite um 'hr' de 23:59
+ * ainda pode aparecer — por isso a janela de ±12 h.
+ */
+export function horarioPrevisto(horario: string, agora: Date = new Date()): Date | null {
+    const data = horarioDeHoje(horario, agora);
+    if (!data) return null;
+
+    // horarioDeHoje joga para ontem o que estiver mais de 1 h no futuro; aqui queremos o mais próximo
+    const doze = 12 * 60 * 60 * 1000;
+    while (data.getTime() - agora.getTime() < -doze) data.setDate(data.getDate() + 1);
+    while (data.getTime() - agora.getTime() > doze) data.setDate(data.getDate() - 1);
+    return data;
+}
+
+function decodificarPrevisaoLinha(bruto: unknown, agora: Date): PrevisaoLinha {
+    const dados = comoObjeto(bruto);
+
+    const codigoLinha = comoNumero(dados['cl']);
+    if (codigoLinha === null || !Number.isInteger(codigoLinha)) {
+        throw new ErroDecodificacao('Previsão sem código de linha (cl)', bruto);
+    }
+
+    const sentido = comoNumero(dados['sl']);
+    if (sentido !== 1 && sentido !== 2) {
+        throw new ErroDecodificacao(`Sentido (sl) inválido: ${dados['sl']}`, bruto);
+    }
+
+    return {
+        codigoLinha,
+        letreiro: comoTexto(dados['c']),
+        sentido: sentido as Sentido,
+        origem: comoTexto(dados['lt1']),
+        destino: comoTexto(dados['lt0']),
+        veiculos: decodificarVeiculosPrevistos(dados['vs'], agora)
+    };
+}
+
+function decodificarLinhaDaFrota(bruto: unknown): { dados: LinhaDaFrota; rejeitados: number } {
+    const dados = comoObjeto(bruto);
+
+    const codigoLinha = comoNumero(dados['cl']);
+    if (codigoLinha === null || !Number.isInteger(codigoLinha)) {
+        throw new ErroDecodificacao('Linha da frota sem código (cl)', bruto);
+    }
+
+    const sentido = comoNumero(dados['sl']);
+    if (sentido !== 1 && sentido !== 2) {
+        throw new ErroDecodificacao(`Sentido (sl) inválido: ${dados['sl']}`, bruto);
+    }
+
+    const vs = Array.isArray(dados['vs']) ? dados['vs'] : [];
+    const { validos, rejeitados } = decodificarLista(vs, decodificarVeiculo);
+
+    return {
+        dados: {
+            codigoLinha,
+            letreiro: comoTexto(dados['c']),
+            sentido: sentido as Sentido,
+            origem: comoTexto(dados['lt1']),
+            destino: comoTexto(dados['lt0']),
+            veiculos: validos
+        },
+        rejeitados: rejeitados.length
+    };
+}
+
+function decodificarVeiculosPrevistos(vs: unknown, agora: Date): VeiculoPrevisto[] {
+    const { validos } = decodificarLista(Array.isArray(vs) ? vs : [], v => decodificarVeiculoPrevisto(v, agora));
+    return validos.sort((a, b) => a.chegada.getTime() - b.chegada.getTime());
+}
+
+// ========================================
+// TRAÇADOS
+// ========================================
+
+/**
+ * Converte o traçado de uma linha. Aceita os pontos do shapes.txt do GTFS
+ * (ordenados por shape_pt_sequence) ou uma lista de pares [lat, lng].
+ * Pontos inválidos são descartados; com menos de 2 pontos não há traçado.
+ * @throws ErroDecodificacao se não sobrar um traçado desenhável
+ */
+export function decodificarTracado(bruto: unknown, codigoLinha: number): TracadoLinha {
+    const lista = Array.isArray(bruto) ? bruto : comoObjeto(bruto)['pontos'];
+    if (!Array.isArray(lista)) {
+        throw new ErroDecodificacao('Resposta de traçado sem pontos', bruto);
+    }
+
+    const { validos } = decodificarLista(lista, decodificarPontoTracado);
+    const pontos = validos
+        .sort((a, b) => a.sequencia - b.sequencia)
+        .map(ponto => [ponto.lat, ponto.lng] as [number, number]);
+
+    if (pontos.length < 2) {
+        throw new ErroDecodificacao(`Traçado da linha ${codigoLinha} com menos de 2 pontos`, bruto);
+    }
+
+    return { codigoLinha, pontos };
+}
+
+/**
+ * Sem shape_pt_sequence, vale a posição do ponto na lista
+ */
+function decodificarPontoTracado(bruto: unknown, indice: number): { lat: number; lng: number; sequencia: number } {
+    let lat: number | null;
+    let lng: number | null;
+    let sequencia = indice;
+
+    if (Array.isArray(bruto)) {
+        lat = comoNumero(bruto[0]);
+        lng = comoNumero(bruto[1]);
+    } else {
+        const dados = comoObjeto(bruto);
+        lat = comoNumero(dados['shape_pt_lat'] ?? dados['py'] ?? dados['lat']);
+        lng = comoNumero(dados['shape_pt_lon'] ?? dados['px'] ?? dados['lng']);
+        sequencia = comoNumero(dados['shape_pt_sequence']) ?? indice;
+    }
+
+    if (!coordenadaValida(lat, lng)) {
+        throw new ErroDecodificacao('Ponto do traçado com coordenadas inválidas', bruto);
+    }
+
+    return { lat: lat as number, lng: lng as number, sequencia };
+}
+
+// ========================================
+// STATUS
+// ========================================
+
+/**
+ * Converte a resposta de /status. O backend devolve só o booleano do login
+ * ou um objeto com `autenticado`; qualquer outra coisa conta como não autenticado.
+ */
+export function decodificarStatus(bruto: unknown): StatusApi {
+    if (typeof bruto === 'boolean' || typeof bruto === 'string') {
+        return { autenticado: bruto === true || bruto === 'true', mensagem: '' };
+    }
+    const dados = comoObjeto(bruto);
+    const autenticado = dados['autenticado'] ?? dados['authenticated'];
+    return {
+        autenticado: autenticado === true || autenticado === 'true',
+        mensagem: comoTexto(dados['mensagem'] ?? dados['message'])
+    };
+}
+
+// ========================================
+// AUXILIARES
+// ========================================
+
+function decodificarLista<T>(lista: unknown[], decodificar: (bruto: unknown, indice: number) => T): ResultadoDecodificacao<T> {
+    const validos: T[] = [];
+    const rejeitados: RegistroRejeitado[] = [];
+
+    lista.forEach((registro, indice) => {
+        try {
+            validos.push(decodificar(registro, indice));
+        } catch (erro) {
+            const motivo = erro instanceof Error ? erro.message : String(erro);
+            rejeitados.push({ registro, motivo });
+        }
+    });
+
+    return { validos, rejeitados };
+}
+
+function montarLetreiro(dados: Bruto): string {
+    const lt = comoTexto(dados['lt']);
+    const tl = comoTexto(dados['tl']);
+    if (lt && tl) return `${lt}-${tl}`;
+    if (lt) return lt;
+    // Versões antigas do backend devolviam o letreiro completo em 'c'
+    return typeof dados['c'] === 'string' ? dados['c'] : '';
+}
+
+function comoObjeto(valor: unknown): Bruto {
+    if (typeof valor !== 'object' || valor === null || Array.isArray(valor)) {
+        throw new ErroDecodificacao('Registro não é um objeto', valor);
+    }
+    return valor as Bruto;
+}
+
+function comoNumero(valor: unknown): number | null {
+    if (typeof valor === 'number') return Number.isFinite(valor) ? valor : null;
+    if (typeof valor === 'string' && valor.trim() !== '') {
+        const numero = Number(valor);
+        return Number.isFinite(numero) ? numero : null;
+    }
+    return null;
+}
+
+function comoTexto(valor: unknown): string {
+    if (typeof valor === 'string') return valor.trim();
+    if (typeof valor === 'number') return String(valor);
+    return '';
+}
+
+function coordenadaValida(lat: number | null, lng: number | null): boolean {
+    if (lat === null || lng === null) return false;
+    if (lat === 0 && lng === 0) return false;
+    return lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180;
+}
@@ -0,0 +1,193 @@
+/**
+ * 🧩 MODELO DE DOMÍNIO DA API SPTRANS
+ *
+ * Tipos usados pelo app depois que os dados brutos do Olho Vivo
+ * passam pelos decodificadores (ver sptrans.decoders.ts).
+ *
+ * Os componentes trabalham SOMENTE com estes tipos — os nomes curtos
+ * da API (cl, sl, tp, ts, px, py, ta...) ficam restritos aos decodificadores.
+ */
+
+/**
+ * Sentido de operação da linha
+ * 1 = Terminal Principal → Terminal Secundário
+ * 2 = Terminal Secundário → Terminal Principal
+ */
+export type Sentido = 1 | 2;
+
+/**
+ * Linha de ônibus (um registro por sentido)
+ */
+export interface Linha {
+    codigo: number;             // cl  - código interno usado nas outras consultas
+    letreiro: string;           // lt-tl - ex: '8000-10'
+    circular: boolean;          // lc  - se a linha é circular
+    sentido: Sentido;           // sl
+    terminalPrincipal: string;  // tp
+    terminalSecundario: string; // ts
+    destino: string;            // tp ou ts, conforme o sentido
+}
+
+/**
+ * Veículo com a última posição conhecida
+ */
+export interface Veiculo {
+    prefixo: string;     // p  - prefixo do veículo (identifica o ônibus)
+    acessivel: boolean;  // a  - acessível para pessoas com deficiência
+    atualizadoEm: Date;  // ta - horário (UTC) da captura da posição
+    lat: number;         // py
+    lng: number;         // px
+}
+
+/**
+ * Posições dos veículos de uma linha
+ */
+export interface PosicoesLinha {
+    horario: string;             // hr - horário de referência ('HH:mm')
+    referencia: Date | null;     // hr convertido para Date (hoje, horário local)
+    veiculos: Veiculo[];         // vs
+    rejeitados: number;          // quantos veículos vieram com dados inválidos
+    guardadaEm?: Date;           // só nas posições lidas do cache offline (sem conexão)
+}
+
+/**
+ * Linha acompanhada das posições dos seus veículos
+ */
+export interface LinhaComPosicoes {
+    linha: Linha;
+    posicoes: PosicoesLinha;
+}
+
+/**
+ * Resultado da busca de posições de uma linha, dentro de uma busca com várias linhas
+ */
+export type ResultadoLinha =
+    | { status: 'ok'; linha: Linha; posicoes: PosicoesLinha }
+    | { status: 'erro'; linha: Linha; erro: unknown };
+
+/**
+ * Andamento da busca de posições de várias linhas.
+ * É emitido a cada linha concluída; o último tem `finalizado = true`.
+ */
+export interface ProgressoPosicoes {
+    linhas: Linha[];                 // todas as linhas que serão consultadas
+    resultados: ResultadoLinha[];    // linhas concluídas até agora (na ordem em que terminaram)
+    concluidas: number;
+    total: number;
+    totalVeiculos: number;
+    falhas: number;
+    finalizado: boolean;
+}
+
+/**
+ * Registro descartado por um decodificador, com o motivo
+ */
+export interface RegistroRejeitado {
+    registro: unknown;
+    motivo: string;
+}
+
+/**
+ * Resultado da decodificação de uma lista
+ */
+export interface ResultadoDecodificacao<T> {
+    validos: T[];
+    rejeitados: RegistroRejeitado[];
+}
+
+/**
+ * Parada (ponto de ônibus)
+ */
+export interface Parada {
+    codigo: number;     // cp
+    nome: string;       // np
+    endereco: string;   // ed
+    lat: number;        // py
+    lng: number;        // px
+}
+
+/**
+ * Veículo com horário previsto de chegada em uma parada
+ */
+export interface VeiculoPrevisto extends Veiculo {
+    chegada: Date;      // t - horário previsto ('HH:mm') convertido para Date
+}
+
+/**
+ * Previsão de uma linha em uma parada
+ */
+export interface PrevisaoLinha {
+    codigoLinha: number;   // cl
+    letreiro: string;      // c
+    sentido: Sentido;      // sl
+    origem: string;        // lt1
+    destino: string;       // lt0
+    veiculos: VeiculoPrevisto[];  // vs - ordenados pela chegada
+}
+
+/**
+ * Resposta de /Previsao/Parada e /Previsao (parada + linhas)
+ */
+export interface PrevisaoParada {
+    horario: string;            // hr
+    referencia: Date | null;
+    parada: Parada | null;      // p
+    linhas: PrevisaoLinha[];    // p.l
+}
+
+/**
+ * Previsões de uma linha em cada uma das suas paradas
+ */
+export interface PrevisaoNaParada {
+    parada: Parada;
+    veiculos: VeiculoPrevisto[];
+}
+
+/**
+ * Resposta de /Previsao/Linha
+ */
+export interface PrevisaoDaLinha {
+    horario: string;            // hr
+    referencia: Date | null;
+    paradas: PrevisaoNaParada[];  // ps
+}
+
+/**
+ * Uma linha e seus veículos na resposta de /Posicao (frota inteira)
+ */
+export interface LinhaDaFrota {
+    codigoLinha: number;   // cl
+    letreiro: string;      // c
+    sentido: Sentido;      // sl
+    origem: string;        // lt1
+    destino: string;       // lt0
+    veiculos: Veiculo[];   // vs
+}
+
+/**
+ * Resposta de /Posicao: todos os veículos de todas as linhas
+ */
+export interface PosicoesFrota {
+    horario: string;            // hr
+    referencia: Date | null;
+    linhas: LinhaDaFrota[];     // l
+    totalVeiculos: number;
+    rejeitados: number;         // veículos descartados pelo decodificador
+}
+
+/**
+ * Traçado (caminho no mapa) de uma linha em um sentido.
+ * No Olho Vivo cada sentido tem o seu código de linha, então um traçado = uma Linha.
+ */
+export interface TracadoLinha {
+    codigoLinha: number;
+    pontos: [number, number][];   // [lat, lng] na ordem do percurso
+}
+
+/**
+ * Resposta de /status: se o backend está autenticado no Olho Vivo
+ */
+export interface StatusApi {
+    autenticado: boolean;
+    mensagem: string;    // texto devolvido pelo backend, se houver
+}
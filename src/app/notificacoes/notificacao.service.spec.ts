@@ -0,0 +1,52 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { HttpErrorResponse } from '@angular/common/http';
+import { DURACAO_PADRAO_MS, MAXIMO_NOTIFICACOES, Notificacao, NotificacaoService } from './notificacao.service';
+
+describe('NotificacaoService', () => {
+  let service: NotificacaoService;
+  let atuais: Notificacao[];
+
+  beforeEach(() => {
+    service = TestBed.inject(NotificacaoService);
+    service.notificacoes$.subscribe(lista => atuais = lista);
+  });
+
+  it('fecha sozinha depois do tempo padrão', fakeAsync(() => {
+    service.sucesso('12 ônibus encontrados');
+    expect(atuais.length).toBe(1);
+
+    tick(DURACAO_PADRAO_MS);
+    expect(atuais.length).toBe(0);
+  }));
+
+  it('substitui uma notificação igual e limita quantas aparecem', fakeAsync(() => {
+    service.aviso('Frota desatualizada');
+    service.aviso('Frota desatualizada');
+    expect(atuais.length).toBe(1);
+
+    for (let i = 0; i < MAXIMO_NOTIFICACOES + 2; i++) service.info(`aviso ${i}`);
+    expect(atuais.length).toBe(MAXIMO_NOTIFICACOES);
+
+    tick(DURACAO_PADRAO_MS);
+  }));
+
+  it('oferece "tentar de novo" para erros passageiros e fica até o usuário agir', fakeAsync(() => {
+    const tentarDeNovo = jasmine.createSpy('tentarDeNovo');
+    service.erroApi(new HttpErrorResponse({ status: 503 }), tentarDeNovo);
+
+    tick(60_000);
+    expect(atuais.length).toBe(1);
+    expect(atuais[0].acao).toBeDefined();
+
+    service.executar(atuais[0]);
+    expect(tentarDeNovo).toHaveBeenCalled();
+    expect(atuais.length).toBe(0);
+  }));
+
+  it('não oferece "tentar de novo" quando o erro não é passageiro', fakeAsync(() => {
+    service.erroApi(new HttpErrorResponse({ status: 404 }), () => { });
+    expect(atuais[0].acao).toBeUndefined();
+    tick(60_000);
+    expect(atuais.length).toBe(0);
+  }));
+});
@@ -0,0 +1,135 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { classificarErro } from '../models/erros-api';
+import { TraducaoService } from '../i18n/traducao.service';
+
+/** Tempo na tela de uma notificação comum (ms) */
+export const DURACAO_PADRAO_MS = 5_000;
+
+/** Erros ficam mais tempo, para dar tempo de ler */
+export const DURACAO_ERRO_MS = 10_000;
+
+/** Quantas notificações aparecem ao mesmo tempo (as mais antigas saem) */
+export const MAXIMO_NOTIFICACOES = 4;
+
+export type TipoNotificacao = 'sucesso' | 'info' | 'aviso' | 'erro';
+
+/**
+ * Botão da notificação, ex: "Tentar de novo"
+ */
+export interface AcaoNotificacao {
+    rotulo: string;
+    executar: () => void;
+}
+
+export interface Notificacao {
+    id: number;
+    tipo: TipoNotificacao;
+    mensagem: string;
+    titulo?: string;
+    acao?: AcaoNotificacao;
+}
+
+export interface OpcoesNotificacao {
+    titulo?: string;
+    acao?: AcaoNotificacao;
+    duracaoMs?: number | null;   // null = fica até o usuário fechar
+}
+
+/**
+ * 🔔 NOTIFICAÇÕES
+ *
+ * Avisos que aparecem no canto da tela sem bloquear o uso do mapa
+ * (substituem o alert()). O NotificacoesComponent, no AppComponent, exibe a lista.
+ *
+ * Exemplo de uso:
+ * ```
+ * this.notificacoes.sucesso('12 ônibus encontrados');
+ * this.notificacoes.erroApi(erro, () => this.buscar());   // com botão "Tentar de novo"
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class NotificacaoService implements OnDestroy {
+
+    private proximoId = 1;
+    private readonly lista = new BehaviorSubject<Notificacao[]>([]);
+    private readonly temporizadores = new Map<number, ReturnType<typeof setTimeout>>();
+
+    /** Notificações na tela, da mais antiga para a mais nova */
+    readonly notificacoes$: Observable<Notificacao[]> = this.lista.asObservable();
+
+    constructor(private traducao: TraducaoService) { }
+
+    /**
+     * Mostra uma notificação. Uma notificação igual (mesmo tipo e mensagem) que
+     * ainda está na tela é substituída, para atualizações periódicas não empilharem avisos.
+     * @returns id, para fechar depois
+     */
+    mostrar(tipo: TipoNotificacao, mensagem: string, opcoes: OpcoesNotificacao = {}): number {
+        const repetida = this.lista.value.find(n => n.tipo === tipo && n.mensagem === mensagem);
+        if (repetida) this.fechar(repetida.id);
+
+        const notificacao: Notificacao = { id: this.proximoId++, tipo, mensagem, titulo: opcoes.titulo, acao: opcoes.acao };
+        this.lista.next([...this.lista.value, notificacao].slice(-MAXIMO_NOTIFICACOES));
+
+        const duracao = opcoes.duracaoMs !== undefined
+            ? opcoes.duracaoMs
+            : tipo === 'erro' ? DURACAO_ERRO_MS : DURACAO_PADRAO_MS;
+        if (duracao !== null) {
+            this.temporizadores.set(notificacao.id, setTimeout(() => this.fechar(notificacao.id), duracao));
+        }
+
+        return notificacao.id;
+    }
+
+    sucesso(mensagem: string, opcoes?: OpcoesNotificacao): number {
+        return this.mostrar('sucesso', mensagem, opcoes);
+    }
+
+    info(mensagem: string, opcoes?: OpcoesNotificacao): number {
+        return this.mostrar('info', mensagem, opcoes);
+    }
+
+    aviso(mensagem: string, opcoes?: OpcoesNotificacao): number {
+        return this.mostrar('aviso', mensagem, opcoes);
+    }
+
+    erro(mensagem: string, opcoes?: OpcoesNotificacao): number {
+        return this.mostrar('erro', mensagem, opcoes);
+    }
+
+    /**
+     * Mostra um erro da API com a mensagem do seu tipo, no idioma atual. Se o problema pode ser
+     * passageiro e houver `tentarDeNovo`, a notificação ganha esse botão e fica
+     * na tela até o usuário agir.
+     */
+    erroApi(erro: unknown, tentarDeNovo?: () => void): number {
+        const erroApi = classificarErro(erro, 'falar com o servidor');
+        const acao = tentarDeNovo && erroApi.temporario
+            ? { rotulo: this.traducao.traduzir('geral.tentarDeNovo'), executar: tentarDeNovo }
+            : undefined;
+
+        return this.erro(this.traducao.mensagemDoErro(erroApi), {
+            titulo: this.traducao.traduzir('erros.titulo', { operacao: erroApi.operacao }),
+            acao,
+            duracaoMs: acao ? null : DURACAO_ERRO_MS
+        });
+    }
+
+    /** Executa a ação da notificação e a fecha */
+    executar(notificacao: Notificacao): void {
+        this.fechar(notificacao.id);
+        notificacao.acao?.executar();
+    }
+
+    fechar(id: number): void {
+        clearTimeout(this.temporizadores.get(id));
+        this.temporizadores.delete(id);
+        this.lista.next(this.lista.value.filter(n => n.id !== id));
+    }
+
+    ngOnDestroy(): void {
+        this.temporizadores.forEach(temporizador => clearTimeout(temporizador));
+        this.temporizadores.clear();
+    }
+}
@@ -0,0 +1,33 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Notificacao, NotificacaoService } from './notificacao.service';
+import { TraduzirPipe } from '../i18n/traduzir.pipe';
+
+/**
+ * 🔔 LISTA DE NOTIFICAÇÕES
+ *
+ * Mostra as notificações do NotificacaoService no canto da tela.
+ * Erros são anunciados na hora por leitores de tela (role="alert");
+ * os demais, quando o leitor terminar o que está lendo (aria-live="polite").
+ */
+@Component({
+  selector: 'app-notificacoes',
+  imports: [CommonModule, TraduzirPipe],
+  templateUrl: './notificacoes.component.html',
+  styleUrl: './notificacoes.component.scss'
+})
+export class NotificacoesComponent {
+
+  readonly icones: Record<Notificacao['tipo'], string> = {
+    sucesso: '✅',
+    info: 'ℹ️',
+    aviso: '⚠️',
+    erro: '❌'
+  };
+
+  constructor(public notificacoes: NotificacaoService) { }
+
+  identificar(_: number, notificacao: Notificacao): number {
+    return notificacao.id;
+  }
+}
@@ -0,0 +1,38 @@
+import { CacheOfflineService, MAXIMO_RESPOSTAS_OFFLINE } from './cache-offline.service';
+
+describe('CacheOfflineService', () => {
+
+  beforeEach(() => {
+    localStorage.removeItem('sptrans.offline.linhas');
+    localStorage.removeItem('sptrans.offline.posicoes');
+  });
+
+  it('guarda a última resposta de cada consulta entre recarregamentos', () => {
+    const guardadaEm = new Date(2024, 0, 15, 9, 46);
+    new CacheOfflineService('browser').guardar('posicoes', '1273', { hr: '09:45', vs: [] }, guardadaEm);
+
+    const recarregado = new CacheOfflineService('browser');
+    expect(recarregado.ler('posicoes', '1273')).toEqual({ resposta: { hr: '09:45', vs: [] }, guardadaEm });
+    expect(recarregado.ler('posicoes', '999')).toBeNull();
+    expect(recarregado.ler('linhas', '1273')).toBeNull();
+  });
+
+  it('descarta as respostas mais antigas além do limite', () => {
+    const cache = new CacheOfflineService('browser');
+    for (let i = 0; i <= MAXIMO_RESPOSTAS_OFFLINE; i++) {
+      cache.guardar('linhas', `termo${i}`, [], new Date(2024, 0, 15, 9, i));
+    }
+
+    expect(cache.ler('linhas', 'termo0')).toBeNull();
+    expect(cache.ler('linhas', 'termo1')).not.toBeNull();
+    expect(cache.ler('linhas', `termo${MAXIMO_RESPOSTAS_OFFLINE}`)).not.toBeNull();
+  });
+
+  it('não lê nem grava no servidor e ignora dados corrompidos', () => {
+    new CacheOfflineService('server').guardar('linhas', '8000', []);
+    expect(localStorage.getItem('sptrans.offline.linhas')).toBeNull();
+
+    localStorage.setItem('sptrans.offline.linhas', '{ quebrado');
+    expect(new CacheOfflineService('browser').ler('linhas', '8000')).toBeNull();
+  });
+});
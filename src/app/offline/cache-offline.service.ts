@@ -0,0 +1,93 @@
+import { Inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+
+/** Quantas respostas de cada tipo ficam guardadas (as mais antigas saem primeiro) */
+export const MAXIMO_RESPOSTAS_OFFLINE = 30;
+
+/**
+ * linhas   - respostas de /linhas (por termo)
+ * posicoes - respostas de /Posicao/Linha (por código da linha)
+ */
+export type TipoRespostaOffline = 'linhas' | 'posicoes';
+
+/**
+ * Resposta bruta da API como chegou, com o momento em que foi guardada
+ */
+export interface RespostaGuardada {
+    resposta: unknown;
+    guardadaEm: Date;
+}
+
+/** Chaves no localStorage */
+const CHAVES: Record<TipoRespostaOffline, string> = {
+    linhas: 'sptrans.offline.linhas',
+    posicoes: 'sptrans.offline.posicoes'
+};
+
+/** Formato gravado: chave da consulta → resposta e timestamp (ms) */
+type Gravadas = Record<string, { resposta: unknown; guardadaEm: number }>;
+
+/**
+ * 📴 CACHE OFFLINE DAS RESPOSTAS DA API
+ *
+ * Guarda no localStorage a última resposta de cada busca de linhas e de posições,
+ * para o app ainda mostrar alguma coisa quando a conexão cair.
+ * As respostas ficam brutas (como vieram da API) e são decodificadas de novo na
+ * leitura, com os mesmos decodificadores. No servidor (SSR) nada é lido nem gravado.
+ *
+ * Exemplo de uso:
+ * ```
+ * this.cacheOffline.guardar('posicoes', '1273', resposta);
+ * const guardada = this.cacheOffline.ler('posicoes', '1273');   // null se não houver
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class CacheOfflineService {
+
+    private readonly isBrowser: boolean;
+
+    constructor(@Inject(PLATFORM_ID) platformId: Object) {
+        this.isBrowser = isPlatformBrowser(platformId);
+    }
+
+    /**
+     * Guarda a resposta, substituindo a anterior da mesma consulta
+     * @param chave - termo da busca ou código da linha
+     */
+    guardar(tipo: TipoRespostaOffline, chave: string, resposta: unknown, agora: Date = new Date()): void {
+        if (!this.isBrowser) return;
+
+        const gravadas = this.lerGravadas(tipo);
+        gravadas[chave] = { resposta, guardadaEm: agora.getTime() };
+
+        const chaves = Object.keys(gravadas).sort((a, b) => gravadas[b].guardadaEm - gravadas[a].guardadaEm);
+        chaves.slice(MAXIMO_RESPOSTAS_OFFLINE).forEach(antiga => delete gravadas[antiga]);
+
+        try {
+            localStorage.setItem(CHAVES[tipo], JSON.stringify(gravadas));
+        } catch (erro) {
+            // Cota do localStorage esgotada: o cache é só um extra, o app segue sem ele
+            console.warn('⚠️ Não foi possível guardar a resposta para uso offline:', erro);
+        }
+    }
+
+    /**
+     * Última resposta guardada da consulta, ou null se não houver
+     */
+    ler(tipo: TipoRespostaOffline, chave: string): RespostaGuardada | null {
+        if (!this.isBrowser) return null;
+
+        const gravada = this.lerGravadas(tipo)[chave];
+        if (!gravada || typeof gravada.guardadaEm !== 'number') return null;
+        return { resposta: gravada.resposta, guardadaEm: new Date(gravada.guardadaEm) };
+    }
+
+    private lerGravadas(tipo: TipoRespostaOffline): Gravadas {
+        try {
+            const gravadas: unknown = JSON.parse(localStorage.getItem(CHAVES[tipo]) ?? '{}');
+            return gravadas && typeof gravadas === 'object' && !Array.isArray(gravadas) ? gravadas as Gravadas : {};
+        } catch {
+            return {};
+        }
+    }
+}
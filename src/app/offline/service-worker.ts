@@ -0,0 +1,17 @@
+/**
+ * 📴 Registra o service worker (src/pwa/sw.js), que guarda o shell do app e os
+ * tiles do mapa para abrir sem conexão.
+ *
+ * Só roda no navegador (main.ts) e só em produção: no `ng serve` o cache
+ * atrapalharia o recarregamento automático.
+ */
+export function registrarServiceWorker(): void {
+    if (!('serviceWorker' in navigator)) return;
+
+    // Espera a página carregar para não disputar a rede com o primeiro desenho do mapa
+    window.addEventListener('load', () => {
+        navigator.serviceWorker.register('/sw.js')
+            .then(registro => console.log('📴 Service worker registrado:', registro.scope))
+            .catch(erro => console.warn('⚠️ Não foi possível registrar o service worker:', erro));
+    });
+}
@@ -0,0 +1,124 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+
+import { PainelParadaComponent } from './painel-parada.component';
+import { SptransService } from '../app.service';
+import { GtfsService } from '../gtfs/gtfs.service';
+import { HorarioProgramado } from '../models/gtfs.model';
+import { Parada, PrevisaoParada } from '../models/sptrans.model';
+import { PreferenciasService } from '../preferencias/preferencias.service';
+
+describe('PainelParadaComponent', () => {
+  let component: PainelParadaComponent;
+  let fixture: ComponentFixture<PainelParadaComponent>;
+  let sptrans: jasmine.SpyObj<SptransService>;
+  let gtfs: jasmine.SpyObj<GtfsService>;
+
+  const parada: Parada = { codigo: 4200953, nome: 'PARADA ROBERTO SELMI DEI', endereco: 'AV BRIG LUIS ANTONIO', lat: -23.56, lng: -46.64 };
+  const previsao: PrevisaoParada = {
+    horario: '10:00',
+    referencia: null,
+    parada,
+    linhas: [{
+      codigoLinha: 1273, letreiro: '8000-10', sentido: 1, origem: 'PCA.RAMOS DE AZEVEDO', destino: 'TERMINAL LAPA',
+      veiculos: [{
+        prefixo: '11433', acessivel: true, atualizadoEm: new Date(), lat: -23.5, lng: -46.6,
+        chegada: new Date(Date.now() + 5 * 60_000)
+      }, {
+        prefixo: '11502', acessivel: false, atualizadoEm: new Date(), lat: -23.51, lng: -46.61,
+        chegada: new Date(Date.now() + 12 * 60_000)
+      }]
+    }]
+  };
+
+  beforeEach(async () => {
+    sptrans = jasmine.createSpyObj<SptransService>('SptransService', ['buscarPrevisaoParada']);
+    sptrans.buscarPrevisaoParada.and.returnValue(of(previsao));
+    gtfs = jasmine.createSpyObj<GtfsService>('GtfsService', ['proximosHorarios']);
+    gtfs.proximosHorarios.and.returnValue([]);
+
+    await TestBed.configureTestingModule({
+      imports: [PainelParadaComponent],
+      providers: [
+        { provide: SptransService, useValue: sptrans },
+        { provide: GtfsService, useValue: gtfs }
+      ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PainelParadaComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('parada', parada);
+    fixture.detectChanges();
+  });
+
+  afterEach(() => fixture.destroy());
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('lista as linhas previstas com o tempo até a chegada', () => {
+    const compiled = fixture.nativeElement as HTMLElement;
+
+    expect(sptrans.buscarPrevisaoParada).toHaveBeenCalledWith(4200953);
+    expect(compiled.querySelector('.linha-cabecalho')?.textContent).toContain('8000-10');
+    expect(compiled.querySelector('.tempo')?.textContent).toContain('5 min');
+  });
+
+  it('pula os ônibus sem acessibilidade quando o filtro está ligado', () => {
+    const compiled = fixture.nativeElement as HTMLElement;
+    expect(compiled.querySelectorAll('.chegadas li').length).toBe(2);
+
+    expect(compiled.querySelector('.filtro-acessiveis')).toBeTruthy();
+
+    component.alternarSomenteAcessiveis();
+    fixture.detectChanges();
+
+    expect(TestBed.inject(PreferenciasService).atuais.somenteAcessiveis).toBeTrue();
+    expect(compiled.querySelectorAll('.chegadas li').length).toBe(1);
+    expect(compiled.querySelector('.tempo')?.textContent).toContain('5 min');
+  });
+
+  it('só fala em ônibus acessível quando o filtro esconde todos os previstos', () => {
+    const compiled = fixture.nativeElement as HTMLElement;
+    const semVeiculos = { ...previsao.linhas[0], codigoLinha: 1274, letreiro: '8000-21', veiculos: [] };
+    const semAcessivel = { ...previsao.linhas[0], codigoLinha: 1275, letreiro: '8000-31', veiculos: [previsao.linhas[0].veiculos[1]] };
+    TestBed.inject(PreferenciasService).alterar({ somenteAcessiveis: false });
+    sptrans.buscarPrevisaoParada.and.returnValue(of({ ...previsao, linhas: [semVeiculos, semAcessivel] }));
+    fixture.componentRef.setInput('parada', { ...parada });
+    fixture.detectChanges();
+
+    const avisos = () => Array.from(compiled.querySelectorAll('.linhas-previstas .aviso')).map(aviso => aviso.textContent?.trim());
+    expect(avisos()).toEqual(['Nenhum ônibus previsto para esta linha.']);
+
+    component.alternarSomenteAcessiveis();
+    fixture.detectChanges();
+    expect(avisos()).toEqual(['Nenhum ônibus previsto para esta linha.', 'Nenhum ônibus acessível previsto.']);
+  });
+
+  it('avisa quando não consegue buscar as previsões', () => {
+    sptrans.buscarPrevisaoParada.and.returnValue(throwError(() => new Error('offline')));
+    fixture.componentRef.setInput('parada', { ...parada });
+    fixture.detectChanges();
+
+    expect(component.erro).toBeTruthy();
+  });
+
+  it('mostra os horários programados do GTFS quando a API não responde', () => {
+    const programado: HorarioProgramado = {
+      rota: { id: '8000-10', nomeCurto: '8000-10', nomeLongo: 'Terminal Lapa', tipo: 3, cor: null },
+      viagem: { id: '8000-10-0', rotaId: '8000-10', servicoId: 'USD', sentido: 1, destino: 'Terminal Lapa', tracadoId: null },
+      parada,
+      chegada: new Date()
+    };
+    gtfs.proximosHorarios.and.returnValue([programado]);
+    sptrans.buscarPrevisaoParada.and.returnValue(throwError(() => new Error('offline')));
+    fixture.componentRef.setInput('parada', { ...parada });
+    fixture.detectChanges();
+
+    const compiled = fixture.nativeElement as HTMLElement;
+    expect(gtfs.proximosHorarios).toHaveBeenCalledWith(4200953);
+    expect(compiled.querySelector('.programados')?.textContent).toContain('Terminal Lapa');
+  });
+});
@@ -0,0 +1,119 @@
+import { Component, EventEmitter, Input, OnChanges, OnDestroy, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { EMPTY, Subscription, interval } from 'rxjs';
+import { catchError, startWith, switchMap } from 'rxjs/operators';
+import { SptransService } from '../app.service';
+import { GtfsService } from '../gtfs/gtfs.service';
+import { FavoritosService } from '../favoritos/favoritos.service';
+import { PreferenciasService } from '../preferencias/preferencias.service';
+import { DataLocalPipe } from '../i18n/data-local.pipe';
+import { TraducaoService } from '../i18n/traducao.service';
+import { TraduzirPipe } from '../i18n/traduzir.pipe';
+import { HorarioProgramado } from '../models/gtfs.model';
+import { PrevisaoLinha, Parada, PrevisaoParada, VeiculoPrevisto } from '../models/sptrans.model';
+
+/** Intervalo de atualização das previsões (ms) */
+export const INTERVALO_PREVISAO_MS = 30_000;
+
+/**
+ * 🚏 PAINEL DA PARADA
+ *
+ * Mostra as próximas chegadas em uma parada, agrupadas por linha,
+ * e atualiza as previsões periodicamente enquanto está aberto.
+ * Sem previsão em tempo real, mostra os horários programados do GTFS (se carregado).
+ * Com a preferência "só acessíveis", pula os ônibus sem acessibilidade.
+ */
+@Component({
+  selector: 'app-painel-parada',
+  imports: [CommonModule, TraduzirPipe, DataLocalPipe],
+  templateUrl: './painel-parada.component.html',
+  styleUrl: './painel-parada.component.scss'
+})
+export class PainelParadaComponent implements OnChanges, OnDestroy {
+
+  @Input({ required: true }) parada!: Parada;
+  @Output() fechar = new EventEmitter<void>();
+
+  previsao: PrevisaoParada | null = null;
+  programados: HorarioProgramado[] = [];   // horários do GTFS, quando a API não responde
+  carregando = false;
+  erro = '';
+  agora = Date.now();
+
+  private inscricao?: Subscription;
+
+  constructor(
+    private sptransService: SptransService,
+    private gtfs: GtfsService,
+    private favoritos: FavoritosService,
+    private preferencias: PreferenciasService,
+    private traducao: TraducaoService
+  ) { }
+
+  ngOnChanges(): void {
+    this.previsao = null;
+    this.programados = [];
+    this.erro = '';
+    this.acompanhar();
+  }
+
+  ngOnDestroy(): void {
+    this.inscricao?.unsubscribe();
+  }
+
+  get favorita(): boolean {
+    return this.favoritos.ehFavorito('parada', String(this.parada.codigo));
+  }
+
+  alternarFavorita(): void {
+    this.favoritos.alternarFavorito('parada', String(this.parada.codigo),
+      this.parada.nome || this.traducao.traduzir('parada.nome', { codigo: this.parada.codigo }));
+  }
+
+  get somenteAcessiveis(): boolean {
+    return this.preferencias.atuais.somenteAcessiveis;
+  }
+
+  alternarSomenteAcessiveis(): void {
+    this.preferencias.alterar({ somenteAcessiveis: !this.somenteAcessiveis });
+  }
+
+  /**
+   * Chegadas da linha que passam pelo filtro de acessibilidade
+   */
+  chegadas(linha: PrevisaoLinha): VeiculoPrevisto[] {
+    return this.somenteAcessiveis ? linha.veiculos.filter(veiculo => veiculo.acessivel) : linha.veiculos;
+  }
+
+  /**
+   * Tempo estimado até a chegada, ex: '3 min' ou 'chegando'
+   */
+  tempoAteChegada(veiculo: VeiculoPrevisto): string {
+    const minutos = Math.round((veiculo.chegada.getTime() - this.agora) / 60_000);
+    return minutos <= 0 ? this.traducao.traduzir('parada.chegando') : this.traducao.traduzir('parada.minutos', { minutos });
+  }
+
+  private acompanhar(): void {
+    this.inscricao?.unsubscribe();
+    this.carregando = true;
+
+    this.inscricao = interval(INTERVALO_PREVISAO_MS).pipe(
+      startWith(0),
+      switchMap(() => this.sptransService.buscarPrevisaoParada(this.parada.codigo).pipe(
+        catchError(() => {
+          // Mantém a última previsão na tela e avisa que não foi possível atualizar
+          this.carregando = false;
+          this.erro = this.traducao.traduzir('parada.falhaAtualizar');
+          this.programados = this.gtfs.proximosHorarios(this.parada.codigo);
+          return EMPTY;
+        })
+      ))
+    ).subscribe(previsao => {
+      this.previsao = previsao;
+      this.agora = Date.now();
+      this.carregando = false;
+      this.erro = '';
+      this.programados = [];
+    });
+  }
+}
@@ -0,0 +1,75 @@
+import { CORES_SENTIDO } from '../home/sentido';
+import { formatarDistancia } from './distancia';
+import { Arredores } from './perto-de-mim.service';
+import { TraducaoService } from '../i18n/traducao.service';
+
+/**
+ * 📍 CAMADA "PERTO DE MIM"
+ *
+ * Desenha a posição do usuário, o círculo do raio da busca e os ônibus
+ * dentro dele (na cor do sentido). As paradas próximas usam a camada de
+ * paradas do próprio mapa.
+ *
+ * Exemplo de uso:
+ * ```
+ * const camada = new CamadaPerto(L, grupoLocalizacao, traducao);
+ * camada.atualizar(arredores);
+ * camada.remover();
+ * ```
+ */
+export class CamadaPerto {
+
+    private readonly grupo: any;   // L.LayerGroup
+
+    /**
+     * @param destino - onde desenhar: o mapa ou um L.LayerGroup (ex: a sobreposição de localização)
+     */
+    constructor(private L: any, private destino: any, private traducao: TraducaoService) {
+        this.grupo = L.layerGroup().addTo(destino);
+    }
+
+    atualizar(arredores: Arredores): void {
+        const { origem, raioMetros, veiculos } = arredores;
+        this.grupo.clearLayers();
+
+        this.L.circle([origem.lat, origem.lng], {
+            radius: raioMetros,
+            color: '#007cba',
+            weight: 1,
+            fillOpacity: 0.05,
+            interactive: false
+        }).addTo(this.grupo);
+
+        veiculos.forEach(({ veiculo, linha, distanciaMetros }) => {
+            this.L.circleMarker([veiculo.lat, veiculo.lng], {
+                radius: 6,
+                weight: 1,
+                color: '#ffffff',
+                fillColor: CORES_SENTIDO[linha.sentido],
+                fillOpacity: 0.9
+            })
+                .bindTooltip(this.traducao.traduzir('perto.dicaOnibus', {
+                    linha: linha.letreiro,
+                    destino: linha.destino,
+                    distancia: formatarDistancia(distanciaMetros)
+                }))
+                .addTo(this.grupo);
+        });
+
+        // Por último, para ficar por cima dos ônibus
+        this.L.circleMarker([origem.lat, origem.lng], {
+            radius: 8,
+            weight: 3,
+            color: '#ffffff',
+            fillColor: '#007cba',
+            fillOpacity: 1
+        })
+            .bindTooltip(this.traducao.traduzir('perto.voceAqui'))
+            .addTo(this.grupo);
+    }
+
+    remover(): void {
+        this.grupo.clearLayers();
+        this.destino.removeLayer(this.grupo);
+    }
+}
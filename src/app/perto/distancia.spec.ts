@@ -0,0 +1,37 @@
+import { distanciaMetros, formatarDistancia, maisProximos, pontoCardeal, rumoGraus } from './distancia';
+
+describe('distancia', () => {
+  const se = { lat: -23.55052, lng: -46.633308 };
+  const paulista = { lat: -23.561414, lng: -46.655881 };
+
+  it('calcula a distância pela fórmula de haversine', () => {
+    // Praça da Sé até o MASP: ~2,6 km em linha reta
+    expect(distanciaMetros(se, paulista)).toBeCloseTo(2620, -2);
+    expect(distanciaMetros(se, se)).toBe(0);
+    expect(distanciaMetros(se, paulista)).toBeCloseTo(distanciaMetros(paulista, se), 6);
+  });
+
+  it('lista só os itens dentro do raio, do mais perto para o mais longe', () => {
+    const pontos = [
+      { nome: 'MASP', ...paulista },
+      { nome: 'Sé', ...se },
+      { nome: 'Pátio do Colégio', lat: -23.54795, lng: -46.63270 }
+    ];
+
+    const proximos = maisProximos(pontos, se, 1000, p => p);
+    expect(proximos.map(p => p.item.nome)).toEqual(['Sé', 'Pátio do Colégio']);
+    expect(maisProximos(pontos, se, 5000, p => p, 1).length).toBe(1);
+  });
+
+  it('calcula o rumo entre dois pontos', () => {
+    expect(rumoGraus(se, { lat: -23.54, lng: se.lng })).toBeCloseTo(0, 5);
+    expect(rumoGraus(se, { lat: se.lat, lng: -46.62 })).toBeCloseTo(90, 0);
+    expect(pontoCardeal(rumoGraus(se, paulista))).toBe('SO');
+    expect(pontoCardeal(350)).toBe('N');
+  });
+
+  it('formata metros e quilômetros', () => {
+    expect(formatarDistancia(347)).toBe('350 m');
+    expect(formatarDistancia(1240)).toBe('1,2 km');
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * 📏 DISTÂNCIAS NO MAPA
+ *
+ * Distância entre dois pontos em graus (lat/lng) pela fórmula de haversine,
+ * que considera a curvatura da Terra, e rumo de um ponto para outro.
+ * Para as distâncias dentro da cidade o erro é de poucos metros.
+ */
+
+/** Raio médio da Terra (m) */
+const RAIO_TERRA_METROS = 6_371_000;
+
+export interface Coordenada {
+    lat: number;
+    lng: number;
+}
+
+/**
+ * Item junto com a distância até a origem da busca
+ */
+export interface ComDistancia<T> {
+    item: T;
+    distanciaMetros: number;
+}
+
+function radianos(graus: number): number {
+    return graus * Math.PI / 180;
+}
+
+/**
+ * Distância em metros entre `a` e `b` (haversine)
+ */
+export function distanciaMetros(a: Coordenada, b: Coordenada): number {
+    const dLat = radianos(b.lat - a.lat);
+    const dLng = radianos(b.lng - a.lng);
+    const h = Math.sin(dLat / 2) ** 2 +
+        Math.cos(radianos(a.lat)) * Math.cos(radianos(b.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * RAIO_TERRA_METROS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Rumo de `a` para `b` em graus, no sentido horário a partir do norte (0 = N, 90 = L)
+ */
+export function rumoGraus(a: Coordenada, b: Coordenada): number {
+    const dLng = radianos(b.lng - a.lng);
+    const y = Math.sin(dLng) * Math.cos(radianos(b.lat));
+    const x = Math.cos(radianos(a.lat)) * Math.sin(radianos(b.lat)) -
+        Math.sin(radianos(a.lat)) * Math.cos(radianos(b.lat)) * Math.cos(dLng);
+    return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+}
+
+/**
+ * Ponto cardeal mais próximo do rumo, ex: 45 → 'NE'
+ */
+export function pontoCardeal(graus: number): string {
+    const pontos = ['N', 'NE', 'L', 'SE', 'S', 'SO', 'O', 'NO'];
+    return pontos[Math.round(graus / 45) % 8];
+}
+
+/**
+ * Itens dentro do raio, do mais perto para o mais longe
+ * @param posicao - Como obter a coordenada de cada item
+ * @param limite - Quantos itens no máximo (os mais próximos)
+ */
+export function maisProximos<T>(
+    itens: Iterable<T>,
+    origem: Coordenada,
+    raioMetros: number,
+    posicao: (item: T) => Coordenada,
+    limite: number = Infinity
+): ComDistancia<T>[] {
+    const dentro: ComDistancia<T>[] = [];
+    for (const item of itens) {
+        const distancia = distanciaMetros(origem, posicao(item));
+        if (distancia <= raioMetros) dentro.push({ item, distanciaMetros: distancia });
+    }
+    return dentro.sort((a, b) => a.distanciaMetros - b.distanciaMetros).slice(0, limite);
+}
+
+/**
+ * Distância para exibir, ex: '350 m' ou '1,2 km'
+ */
+export function formatarDistancia(metros: number): string {
+    return metros < 1000
+        ? `${Math.round(metros / 10) * 10} m`
+        : `${(metros / 1000).toFixed(1).replace('.', ',')} km`;
+}
@@ -0,0 +1,34 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Parada } from '../models/sptrans.model';
+import { CORES_SENTIDO } from '../home/sentido';
+import { formatarDistancia } from './distancia';
+import { Arredores } from './perto-de-mim.service';
+import { DataLocalPipe } from '../i18n/data-local.pipe';
+import { TraduzirPipe } from '../i18n/traduzir.pipe';
+
+/**
+ * 📍 PAINEL "PERTO DE MIM"
+ *
+ * Lista as paradas e os ônibus em volta do usuário, com a distância de cada um.
+ * Clicar em uma parada abre o painel de previsão dela.
+ */
+@Component({
+  selector: 'app-painel-perto',
+  imports: [CommonModule, TraduzirPipe, DataLocalPipe],
+  templateUrl: './painel-perto.component.html',
+  styleUrl: './painel-perto.component.scss'
+})
+export class PainelPertoComponent {
+
+  @Input({ required: true }) arredores!: Arredores | null;
+  @Input() carregando = false;
+  @Input() raioMetros = 0;
+  @Input() raiosDisponiveis: number[] = [];
+  @Output() alterarRaio = new EventEmitter<number>();
+  @Output() selecionarParada = new EventEmitter<Parada>();
+  @Output() fechar = new EventEmitter<void>();
+
+  readonly coresSentido = CORES_SENTIDO;
+  readonly formatarDistancia = formatarDistancia;
+}
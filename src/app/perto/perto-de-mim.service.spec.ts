@@ -0,0 +1,72 @@
+import { of } from 'rxjs';
+
+import { SptransService } from '../app.service';
+import { GtfsService } from '../gtfs/gtfs.service';
+import { Parada, PosicoesFrota, Veiculo } from '../models/sptrans.model';
+import { Plataforma, injetarNaPlataforma } from '../testing/plataforma';
+import { Arredores, ErroLocalizacao, PertoDeMimService } from './perto-de-mim.service';
+
+describe('PertoDeMimService', () => {
+  let sptrans: jasmine.SpyObj<SptransService>;
+  let gtfs: jasmine.SpyObj<GtfsService>;
+
+  const origem = { lat: -23.55052, lng: -46.633308 };   // Praça da Sé
+  const parada: Parada = { codigo: 1, nome: 'Sé', endereco: '', lat: -23.5506, lng: -46.6334 };
+  const veiculo = (prefixo: string, lat: number): Veiculo =>
+    ({ prefixo, acessivel: true, atualizadoEm: new Date(), lat, lng: origem.lng });
+  const frota = (latDoOnibus: number): PosicoesFrota => ({
+    horario: '10:00',
+    referencia: null,
+    linhas: [{
+      codigoLinha: 1273, letreiro: '8000-10', sentido: 1, origem: 'A', destino: 'B',
+      veiculos: [veiculo('perto', latDoOnibus), veiculo('longe', -23.60)]
+    }],
+    totalVeiculos: 2,
+    rejeitados: 0
+  });
+
+  const criar = (plataforma: Plataforma): PertoDeMimService => {
+    sptrans = jasmine.createSpyObj<SptransService>('SptransService', ['buscarPosicoesFrota']);
+    gtfs = jasmine.createSpyObj<GtfsService>('GtfsService', ['paradasProximas'], { carregado: false });
+    return injetarNaPlataforma(PertoDeMimService, plataforma, [
+      { provide: SptransService, useValue: sptrans },
+      { provide: GtfsService, useValue: gtfs }
+    ]);
+  };
+
+  it('lista os ônibus dentro do raio e marca os que estão se aproximando', () => {
+    const service = criar('browser');
+    const respostas: Arredores[] = [];
+
+    sptrans.buscarPosicoesFrota.and.returnValue(of(frota(-23.554)));   // ~390 m ao sul
+    service.buscarArredores(origem, 500).subscribe(a => respostas.push(a));
+    sptrans.buscarPosicoesFrota.and.returnValue(of(frota(-23.552)));   // ~165 m
+    service.buscarArredores(origem, 500).subscribe(a => respostas.push(a));
+
+    expect(respostas[0].veiculos.map(v => v.veiculo.prefixo)).toEqual(['perto']);
+    expect(respostas[0].veiculos[0].aproximando).toBeNull();
+    expect(respostas[1].veiculos[0].aproximando).toBeTrue();
+    expect(respostas[1].veiculos[0].distanciaMetros).toBeLessThan(respostas[0].veiculos[0].distanciaMetros);
+  });
+
+  it('usa as paradas do mapa quando o GTFS não foi carregado', () => {
+    const service = criar('browser');
+    sptrans.buscarPosicoesFrota.and.returnValue(of(frota(-23.554)));
+
+    let arredores: Arredores | undefined;
+    service.buscarArredores(origem, 500, [parada]).subscribe(a => arredores = a);
+
+    expect(arredores?.fonteParadas).toBe('mapa');
+    expect(arredores?.paradas.map(p => p.item.codigo)).toEqual([1]);
+    expect(gtfs.paradasProximas).not.toHaveBeenCalled();
+  });
+
+  it('recusa a localização quando roda no servidor (SSR)', () => {
+    const service = criar('server');
+    let erro: ErroLocalizacao | undefined;
+    service.localizar().subscribe({ error: e => erro = e });
+
+    expect(erro).toBeInstanceOf(ErroLocalizacao);
+    expect(erro?.motivo).toBe('sem-suporte');
+  });
+});
@@ -0,0 +1,162 @@
+import { Inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { SptransService } from '../app.service';
+import { GtfsService } from '../gtfs/gtfs.service';
+import { veiculosDaFrota } from '../home/camada-frota';
+import { LinhaDaFrota, Parada, Veiculo } from '../models/sptrans.model';
+import { ComDistancia, Coordenada, maisProximos } from './distancia';
+
+/** Raio padrão da busca (m) */
+export const RAIO_PADRAO_METROS = 500;
+
+/** Quantas paradas e quantos ônibus aparecem na lista */
+export const LIMITE_PARADAS = 10;
+export const LIMITE_VEICULOS = 20;
+
+/** Um ônibus só conta como "se aproximando" se chegou pelo menos isso mais perto (m) */
+const TOLERANCIA_APROXIMACAO_METROS = 20;
+
+/** Espera máxima pela posição do navegador (ms) */
+const TEMPO_LOCALIZACAO_MS = 15_000;
+
+/**
+ * sem-suporte    - o navegador (ou o servidor, no SSR) não tem Geolocation
+ * negada         - o usuário não deu permissão
+ * indisponivel   - o aparelho não conseguiu a posição
+ * tempo-esgotado - a posição demorou demais
+ */
+export type MotivoErroLocalizacao = 'sem-suporte' | 'negada' | 'indisponivel' | 'tempo-esgotado';
+
+const MENSAGENS_LOCALIZACAO: Record<MotivoErroLocalizacao, string> = {
+    'sem-suporte': 'Este navegador não informa a localização.',
+    'negada': 'A permissão de localização foi negada. Libere nas configurações do navegador para usar "Perto de mim".',
+    'indisponivel': 'Não foi possível descobrir a sua localização agora.',
+    'tempo-esgotado': 'A localização demorou demais para chegar. Tente de novo.'
+};
+
+/**
+ * Não foi possível obter a posição do usuário
+ */
+export class ErroLocalizacao extends Error {
+    constructor(readonly motivo: MotivoErroLocalizacao) {
+        super(MENSAGENS_LOCALIZACAO[motivo]);
+        this.name = 'ErroLocalizacao';
+    }
+}
+
+/**
+ * Ônibus perto do usuário
+ */
+export interface VeiculoProximo {
+    veiculo: Veiculo;
+    linha: LinhaDaFrota;
+    distanciaMetros: number;
+    aproximando: boolean | null;   // null na primeira consulta (ainda não há com o que comparar)
+}
+
+/**
+ * O que há em volta do usuário
+ */
+export interface Arredores {
+    origem: Coordenada;
+    raioMetros: number;
+    paradas: ComDistancia<Parada>[];
+    veiculos: VeiculoProximo[];
+    fonteParadas: 'gtfs' | 'mapa';   // sem GTFS, só as paradas que já estão no mapa
+    atualizadoEm: Date;
+}
+
+/**
+ * 📍 PERTO DE MIM
+ *
+ * Descobre a posição do usuário (Geolocation API) e lista as paradas mais
+ * próximas e os ônibus dentro de um raio, pela distância de haversine.
+ * As paradas vêm do GTFS (a API Olho Vivo não busca paradas por posição);
+ * os ônibus vêm de /Posicao (frota inteira).
+ *
+ * Exemplo de uso:
+ * ```
+ * this.perto.localizar().pipe(
+ *     switchMap(origem => this.perto.buscarArredores(origem, 500))
+ * ).subscribe(arredores => ...);
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class PertoDeMimService {
+
+    private readonly isBrowser: boolean;
+
+    /** Distância de cada ônibus (prefixo) na consulta anterior, para saber quem está se aproximando */
+    private distanciasAnteriores = new Map<string, number>();
+
+    constructor(
+        private sptransService: SptransService,
+        private gtfs: GtfsService,
+        @Inject(PLATFORM_ID) platformId: Object
+    ) {
+        this.isBrowser = isPlatformBrowser(platformId);
+    }
+
+    /**
+     * Posição atual do usuário (pede permissão na primeira vez)
+     * @throws ErroLocalizacao (no Observable) quando não dá para obter a posição
+     */
+    localizar(): Observable<Coordenada> {
+        return new Observable<Coordenada>(assinante => {
+            if (!this.isBrowser || !('geolocation' in navigator)) {
+                assinante.error(new ErroLocalizacao('sem-suporte'));
+                return;
+            }
+
+            navigator.geolocation.getCurrentPosition(
+                posicao => {
+                    assinante.next({ lat: posicao.coords.latitude, lng: posicao.coords.longitude });
+                    assinante.complete();
+                },
+                erro => assinante.error(new ErroLocalizacao(
+                    erro.code === erro.PERMISSION_DENIED ? 'negada'
+                        : erro.code === erro.TIMEOUT ? 'tempo-esgotado'
+                            : 'indisponivel'
+                )),
+                { enableHighAccuracy: true, timeout: TEMPO_LOCALIZACAO_MS, maximumAge: 60_000 }
+            );
+        });
+    }
+
+    /**
+     * Paradas e ônibus dentro do raio
+     * @param paradasNoMapa - Usadas quando o GTFS não foi carregado
+     */
+    buscarArredores(origem: Coordenada, raioMetros: number, paradasNoMapa: Parada[] = []): Observable<Arredores> {
+        const fonteParadas = this.gtfs.carregado ? 'gtfs' : 'mapa';
+        const paradas = fonteParadas === 'gtfs'
+            ? this.gtfs.paradasProximas(origem, raioMetros, LIMITE_PARADAS)
+            : maisProximos(paradasNoMapa, origem, raioMetros, parada => parada, LIMITE_PARADAS);
+
+        return this.sptransService.buscarPosicoesFrota().pipe(
+            map(frota => {
+                const proximos = maisProximos(veiculosDaFrota(frota), origem, raioMetros, ({ veiculo }) => veiculo, LIMITE_VEICULOS);
+                const veiculos = proximos.map(({ item, distanciaMetros }): VeiculoProximo => {
+                    const anterior = this.distanciasAnteriores.get(item.veiculo.prefixo);
+                    return {
+                        ...item,
+                        distanciaMetros,
+                        aproximando: anterior === undefined ? null : distanciaMetros < anterior - TOLERANCIA_APROXIMACAO_METROS
+                    };
+                });
+
+                this.distanciasAnteriores = new Map(veiculos.map(v => [v.veiculo.prefixo, v.distanciaMetros]));
+                return { origem, raioMetros, paradas, veiculos, fonteParadas, atualizadoEm: new Date() };
+            })
+        );
+    }
+
+    /**
+     * Esquece as distâncias anteriores (ao sair do modo ou mudar de lugar)
+     */
+    reiniciar(): void {
+        this.distanciasAnteriores.clear();
+    }
+}
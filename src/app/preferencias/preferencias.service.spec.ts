@@ -0,0 +1,33 @@
+import { injetarNaPlataforma } from '../testing/plataforma';
+import { PREFERENCIAS_PADRAO, PreferenciasService } from './preferencias.service';
+
+describe('PreferenciasService', () => {
+
+  beforeEach(() => localStorage.removeItem('sptrans.preferencias'));
+
+  it('guarda as preferências entre recarregamentos', () => {
+    const service = injetarNaPlataforma(PreferenciasService, 'browser');
+    expect(service.atuais).toEqual(PREFERENCIAS_PADRAO);
+
+    service.alterar({ somenteAcessiveis: true });
+    service.alterar({ altoContraste: true, idioma: 'en' });
+    service.alterar({ camadaMapa: 'escuro' });
+
+    const recarregado = new PreferenciasService('browser');
+    expect(recarregado.atuais).toEqual({ somenteAcessiveis: true, altoContraste: true, idioma: 'en', camadaMapa: 'escuro' });
+  });
+
+  it('ignora valores gravados inválidos e usa o padrão no servidor', () => {
+    localStorage.setItem('sptrans.preferencias', JSON.stringify({ somenteAcessiveis: 'sim', altoContraste: true, idioma: 'xx' }));
+    expect(new PreferenciasService('browser').atuais).toEqual({ somenteAcessiveis: false, altoContraste: true, idioma: 'pt-BR', camadaMapa: '' });
+
+    localStorage.setItem('sptrans.preferencias', '{ quebrado');
+    expect(new PreferenciasService('browser').atuais).toEqual(PREFERENCIAS_PADRAO);
+
+    localStorage.setItem('sptrans.preferencias', JSON.stringify({ somenteAcessiveis: true }));
+    const servidor = injetarNaPlataforma(PreferenciasService, 'server');
+    expect(servidor.atuais.somenteAcessiveis).toBeFalse();
+    servidor.alterar({ altoContraste: true });
+    expect(localStorage.getItem('sptrans.preferencias')).toBe(JSON.stringify({ somenteAcessiveis: true }));
+  });
+});
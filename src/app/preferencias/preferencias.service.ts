@@ -0,0 +1,89 @@
+import { Inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { IDIOMA_PADRAO, Idioma, ehIdioma } from '../i18n/idiomas';
+
+/** Chave no localStorage */
+const CHAVE_PREFERENCIAS = 'sptrans.preferencias';
+
+/**
+ * Preferências do usuário que valem para o app inteiro
+ */
+export interface Preferencias {
+    somenteAcessiveis: boolean;   // esconde os ônibus sem acessibilidade (mapa, frota e previsões)
+    altoContraste: boolean;
+    idioma: Idioma;
+    camadaMapa: string;           // id do fundo do mapa (FonteTiles); '' = o padrão da configuração
+}
+
+export const PREFERENCIAS_PADRAO: Preferencias = {
+    somenteAcessiveis: false,
+    altoContraste: false,
+    idioma: IDIOMA_PADRAO,
+    camadaMapa: ''
+};
+
+/**
+ * ⚙️ PREFERÊNCIAS
+ *
+ * Guarda no localStorage as escolhas do usuário (ex: só ônibus acessíveis,
+ * alto contraste, idioma, fundo do mapa), para valerem na próxima visita. No servidor (SSR) usa
+ * sempre os valores padrão.
+ *
+ * Exemplo de uso:
+ * ```
+ * this.preferencias.preferencias$.subscribe(p => this.somenteAcessiveis = p.somenteAcessiveis);
+ * this.preferencias.alterar({ altoContraste: true });
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class PreferenciasService {
+
+    private readonly isBrowser: boolean;
+    private readonly estado: BehaviorSubject<Preferencias>;
+
+    readonly preferencias$: Observable<Preferencias>;
+
+    constructor(@Inject(PLATFORM_ID) platformId: Object) {
+        this.isBrowser = isPlatformBrowser(platformId);
+        this.estado = new BehaviorSubject(this.ler());
+        this.preferencias$ = this.estado.asObservable();
+    }
+
+    get atuais(): Preferencias {
+        return this.estado.value;
+    }
+
+    alterar(alteracoes: Partial<Preferencias>): void {
+        const preferencias = { ...this.estado.value, ...alteracoes };
+        this.estado.next(preferencias);
+
+        if (!this.isBrowser) return;
+        try {
+            localStorage.setItem(CHAVE_PREFERENCIAS, JSON.stringify(preferencias));
+        } catch (erro) {
+            console.warn('⚠️ Não foi possível gravar as preferências:', erro);
+        }
+    }
+
+    /**
+     * Lê as preferências gravadas; valores ausentes ou de outro tipo ficam com o padrão
+     */
+    private ler(): Preferencias {
+        if (!this.isBrowser) return { ...PREFERENCIAS_PADRAO };
+        try {
+            const gravadas: Record<string, unknown> = JSON.parse(localStorage.getItem(CHAVE_PREFERENCIAS) ?? '{}') ?? {};
+            const preferencias = { ...PREFERENCIAS_PADRAO };
+            (Object.keys(PREFERENCIAS_PADRAO) as (keyof Preferencias)[]).forEach(chave => {
+                if (typeof gravadas[chave] === typeof PREFERENCIAS_PADRAO[chave]) {
+                    (preferencias as Record<string, unknown>)[chave] = gravadas[chave];
+                }
+            });
+            if (!ehIdioma(preferencias.idioma)) preferencias.idioma = IDIOMA_PADRAO;
+            return preferencias;
+        } catch (erro) {
+            console.warn('⚠️ Não foi possível ler as preferências:', erro);
+            return { ...PREFERENCIAS_PADRAO };
+        }
+    }
+}
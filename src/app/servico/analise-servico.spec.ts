@@ -0,0 +1,64 @@
+import { Linha, TracadoLinha, Veiculo } from '../models/sptrans.model';
+import { analisarLinha, posicaoNoTracado, trechoDoTracado } from './analise-servico';
+
+describe('analisarLinha', () => {
+  const agora = new Date('2024-05-10T13:00:00Z');
+  const linha: Linha = {
+    codigo: 1273, letreiro: '8000-10', circular: false, sentido: 1,
+    terminalPrincipal: 'PCA. RAMOS DE AZEVEDO', terminalSecundario: 'TERM. LAPA', destino: 'TERM. LAPA'
+  };
+  // Reta de ~11 km para o sul, ao longo da mesma longitude
+  const tracado: TracadoLinha = { codigoLinha: 1273, pontos: [[-23.5, -46.63], [-23.55, -46.63], [-23.6, -46.63]] };
+  const veiculo = (prefixo: string, lat: number, lng: number = -46.63, minutosAtras: number = 0): Veiculo =>
+    ({ prefixo, acessivel: true, lat, lng, atualizadoEm: new Date(agora.getTime() - minutosAtras * 60_000) });
+  const opcoes = { tracado, amostras: () => [], agora };
+
+  const veiculos = [
+    veiculo('C', -23.59),
+    veiculo('A', -23.51),
+    veiculo('B', -23.512),                 // ~220 m atrás de A
+    veiculo('D', -23.56, -46.63, 10),      // parado no tempo
+    veiculo('E', -23.55, -46.60)           // ~3 km fora do percurso
+  ];
+
+  it('ordena os ônibus no percurso e mede os intervalos', () => {
+    const analise = analisarLinha(linha, veiculos, opcoes);
+
+    expect(analise.comTracado).toBeTrue();
+    expect(analise.totalVeiculos).toBe(5);
+    expect(analise.ordenados).toEqual(['A', 'B', 'C']);
+    expect(analise.intervalos.map(intervalo => [intervalo.anterior, intervalo.seguinte])).toEqual([['A', 'B'], ['B', 'C']]);
+    expect(analise.intervalos[0].metros).toBeCloseTo(222, -1);
+    expect(analise.intervalos[1].minutos).toBe(35);
+    expect(analise.intervaloMedioMinutos).toBe(18);
+  });
+
+  it('aponta comboio, lacuna e ônibus sem sinal', () => {
+    const alertas = analisarLinha(linha, veiculos, opcoes).alertas;
+
+    expect(alertas.map(alerta => alerta.tipo)).toEqual(['comboio', 'lacuna', 'sem-sinal']);
+    expect(alertas[0]).toEqual(jasmine.objectContaining({ prefixos: ['A', 'B'] }));
+    expect(alertas[2]).toEqual({ tipo: 'sem-sinal', prefixo: 'D', segundos: 600 });
+  });
+
+  it('sem traçado, só compara a distância em linha reta', () => {
+    const analise = analisarLinha(linha, veiculos, { ...opcoes, tracado: null });
+
+    expect(analise.comTracado).toBeFalse();
+    expect(analise.ordenados).toEqual([]);
+    expect(analise.intervaloMedioMinutos).toBeNull();
+    expect(analise.alertas.map(alerta => alerta.tipo)).toEqual(['comboio', 'sem-sinal']);
+  });
+
+  it('projeta pontos no traçado e recorta trechos dele', () => {
+    const posicao = posicaoNoTracado({ lat: -23.52, lng: -46.631 }, tracado.pontos)!;
+    expect(posicao.distanciaMetros).toBeCloseTo(2224, -1);
+    expect(posicao.afastamentoMetros).toBeCloseTo(102, -1);
+
+    const trecho = trechoDoTracado(tracado.pontos, 1_000, 6_000);
+    expect(trecho.length).toBe(3);
+    expect(trecho[0][0]).toBeCloseTo(-23.509, 3);
+    expect(trecho[1]).toEqual([-23.55, -46.63]);
+    expect(trecho[2][0]).toBeCloseTo(-23.554, 3);
+  });
+});
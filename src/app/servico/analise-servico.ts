@@ -0,0 +1,230 @@
+import { Linha, TracadoLinha, Veiculo } from '../models/sptrans.model';
+import { Coordenada, distanciaMetros } from '../perto/distancia';
+import { AmostraPosicao, resumirMovimento } from '../veiculo/historico-veiculos.service';
+
+/**
+ * 📊 ANÁLISE DO SERVIÇO DE UMA LINHA
+ *
+ * A partir das posições dos ônibus (e do traçado, quando a linha tem um):
+ * - ordena os ônibus ao longo do percurso e mede o intervalo entre um e o seguinte
+ * - detecta comboios (dois ônibus colados) e lacunas (trechos longos sem ônibus)
+ * - aponta os ônibus cujo `ta` parou de avançar (sem sinal)
+ *
+ * Os intervalos em minutos são estimativas pela velocidade média do ônibus em São Paulo,
+ * não pelo horário programado.
+ */
+
+/** Dois ônibus mais perto que isso estão em comboio (m) */
+export const COMBOIO_METROS = 400;
+
+/** Lacuna: intervalo maior que o dobro do ideal (percurso ÷ ônibus), e nunca menor que isso (m) */
+export const LACUNA_MINIMA_METROS = 2_000;
+
+/** Mais longe que isso do traçado, o ônibus não está no percurso (garagem, desvio) e fica de fora (m) */
+export const AFASTAMENTO_MAXIMO_METROS = 300;
+
+/** Velocidade média usada para converter distância em minutos */
+export const VELOCIDADE_MEDIA_KMH = 15;
+
+/**
+ * Onde um ponto cai no traçado
+ */
+export interface PosicaoNoTracado {
+    distanciaMetros: number;     // do início do percurso até a projeção do ponto
+    afastamentoMetros: number;   // do ponto até o traçado
+}
+
+/**
+ * Espaço entre um ônibus e o seguinte no percurso
+ */
+export interface IntervaloServico {
+    anterior: string;      // prefixo do ônibus mais atrás
+    seguinte: string;      // prefixo do ônibus logo à frente
+    deMetros: number;      // posição do anterior no percurso
+    ateMetros: number;     // posição do seguinte no percurso
+    metros: number;
+    minutos: number;       // estimativa pela VELOCIDADE_MEDIA_KMH
+}
+
+export type TipoAlertaServico = 'comboio' | 'lacuna' | 'sem-sinal';
+
+export type AlertaServico =
+    | { tipo: 'comboio'; prefixos: [string, string]; metros: number }
+    | { tipo: 'lacuna'; intervalo: IntervaloServico }
+    | { tipo: 'sem-sinal'; prefixo: string; segundos: number };
+
+export interface AnaliseLinha {
+    linha: Linha;
+    totalVeiculos: number;
+    comTracado: boolean;
+    ordenados: string[];                    // prefixos na ordem do percurso (vazio sem traçado)
+    intervalos: IntervaloServico[];
+    intervaloMedioMinutos: number | null;   // null com menos de dois ônibus no percurso
+    alertas: AlertaServico[];
+}
+
+export interface OpcoesAnalise {
+    tracado: TracadoLinha | null;
+    amostras: (prefixo: string) => AmostraPosicao[];   // histórico do veículo (HistoricoVeiculosService)
+    agora?: Date;
+}
+
+/**
+ * Analisa os ônibus de uma linha (um sentido)
+ */
+export function analisarLinha(linha: Linha, veiculos: Veiculo[], opcoes: OpcoesAnalise): AnaliseLinha {
+    const agora = opcoes.agora ?? new Date();
+    const alertas: AlertaServico[] = [];
+
+    // 1. Sem sinal: ficam de fora dos intervalos, a posição deles não é confiável
+    const ativos = veiculos.filter(veiculo => {
+        const amostras = opcoes.amostras(veiculo.prefixo);
+        const resumo = resumirMovimento(amostras.length > 0 ? amostras : [veiculo], agora);
+        if (resumo.desatualizado) {
+            alertas.push({ tipo: 'sem-sinal', prefixo: veiculo.prefixo, segundos: resumo.segundosDesdeUltima ?? 0 });
+        }
+        return !resumo.desatualizado;
+    });
+
+    const pontos = opcoes.tracado?.pontos ?? [];
+    if (pontos.length < 2) {
+        // 2a. Sem traçado não há ordem no percurso: só os comboios, pela distância em linha reta
+        const comboios: AlertaServico[] = [];
+        for (let i = 0; i < ativos.length; i++) {
+            for (let j = i + 1; j < ativos.length; j++) {
+                const metros = distanciaMetros(ativos[i], ativos[j]);
+                if (metros < COMBOIO_METROS) {
+                    comboios.push({ tipo: 'comboio', prefixos: [ativos[i].prefixo, ativos[j].prefixo], metros });
+                }
+            }
+        }
+        return {
+            linha,
+            totalVeiculos: veiculos.length,
+            comTracado: false,
+            ordenados: [],
+            intervalos: [],
+            intervaloMedioMinutos: null,
+            alertas: [...comboios, ...alertas]
+        };
+    }
+
+    // 2b. Ordena pela posição no percurso
+    const noPercurso = ativos
+        .map(veiculo => ({ veiculo, posicao: posicaoNoTracado(veiculo, pontos)! }))
+        .filter(({ posicao }) => posicao.afastamentoMetros <= AFASTAMENTO_MAXIMO_METROS)
+        .sort((a, b) => a.posicao.distanciaMetros - b.posicao.distanciaMetros);
+
+    const intervalos: IntervaloServico[] = [];
+    for (let i = 1; i < noPercurso.length; i++) {
+        const anterior = noPercurso[i - 1];
+        const seguinte = noPercurso[i];
+        const metros = seguinte.posicao.distanciaMetros - anterior.posicao.distanciaMetros;
+        intervalos.push({
+            anterior: anterior.veiculo.prefixo,
+            seguinte: seguinte.veiculo.prefixo,
+            deMetros: anterior.posicao.distanciaMetros,
+            ateMetros: seguinte.posicao.distanciaMetros,
+            metros,
+            minutos: minutosPara(metros)
+        });
+    }
+
+    // 3. Comboios e lacunas, comparando com o intervalo ideal (ônibus espalhados por igual)
+    const ideal = comprimentoMetros(pontos) / Math.max(1, noPercurso.length);
+    const lacunaMinima = Math.max(2 * ideal, LACUNA_MINIMA_METROS);
+    const problemas: AlertaServico[] = [];
+    intervalos.forEach(intervalo => {
+        if (intervalo.metros < COMBOIO_METROS) {
+            problemas.push({ tipo: 'comboio', prefixos: [intervalo.anterior, intervalo.seguinte], metros: intervalo.metros });
+        } else if (intervalo.metros > lacunaMinima) {
+            problemas.push({ tipo: 'lacuna', intervalo });
+        }
+    });
+
+    const total = intervalos.reduce((soma, intervalo) => soma + intervalo.minutos, 0);
+    return {
+        linha,
+        totalVeiculos: veiculos.length,
+        comTracado: true,
+        ordenados: noPercurso.map(({ veiculo }) => veiculo.prefixo),
+        intervalos,
+        intervaloMedioMinutos: intervalos.length > 0 ? Math.round(total / intervalos.length) : null,
+        alertas: [...problemas, ...alertas]
+    };
+}
+
+/**
+ * Projeta o ponto no segmento mais próximo do traçado
+ * @returns null se o traçado tiver menos de dois pontos
+ */
+export function posicaoNoTracado(ponto: Coordenada, pontos: [number, number][]): PosicaoNoTracado | null {
+    let melhor: PosicaoNoTracado | null = null;
+    let percorrido = 0;
+
+    for (let i = 1; i < pontos.length; i++) {
+        const a = { lat: pontos[i - 1][0], lng: pontos[i - 1][1] };
+        const b = { lat: pontos[i][0], lng: pontos[i][1] };
+        const segmento = distanciaMetros(a, b);
+
+        // Projeção em um plano local (o segmento tem poucas centenas de metros)
+        const t = fracaoNoSegmento(ponto, a, b);
+        const projecao = { lat: a.lat + (b.lat - a.lat) * t, lng: a.lng + (b.lng - a.lng) * t };
+        const afastamento = distanciaMetros(ponto, projecao);
+
+        if (!melhor || afastamento < melhor.afastamentoMetros) {
+            melhor = { distanciaMetros: percorrido + segmento * t, afastamentoMetros: afastamento };
+        }
+        percorrido += segmento;
+    }
+    return melhor;
+}
+
+/**
+ * Pedaço do traçado entre duas distâncias do início (ex: para destacar uma lacuna no mapa)
+ */
+export function trechoDoTracado(pontos: [number, number][], deMetros: number, ateMetros: number): [number, number][] {
+    const trecho: [number, number][] = [];
+    let percorrido = 0;
+
+    for (let i = 1; i < pontos.length && percorrido <= ateMetros; i++) {
+        const a = pontos[i - 1];
+        const b = pontos[i];
+        const segmento = distanciaMetros({ lat: a[0], lng: a[1] }, { lat: b[0], lng: b[1] });
+        const interpolar = (metros: number): [number, number] => {
+            const t = segmento > 0 ? (metros - percorrido) / segmento : 0;
+            return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+        };
+
+        if (percorrido + segmento >= deMetros) {
+            if (trecho.length === 0) trecho.push(interpolar(Math.max(deMetros, percorrido)));
+            trecho.push(percorrido + segmento <= ateMetros ? b : interpolar(ateMetros));
+        }
+        percorrido += segmento;
+    }
+    return trecho;
+}
+
+function comprimentoMetros(pontos: [number, number][]): number {
+    let total = 0;
+    for (let i = 1; i < pontos.length; i++) {
+        total += distanciaMetros({ lat: pontos[i - 1][0], lng: pontos[i - 1][1] }, { lat: pontos[i][0], lng: pontos[i][1] });
+    }
+    return total;
+}
+
+/** Posição (0 a 1) da projeção do ponto no segmento a→b, com a longitude corrigida pela latitude */
+function fracaoNoSegmento(ponto: Coordenada, a: Coordenada, b: Coordenada): number {
+    const escala = Math.cos(a.lat * Math.PI / 180);
+    const dx = (b.lng - a.lng) * escala;
+    const dy = b.lat - a.lat;
+    const comprimento = dx * dx + dy * dy;
+    if (comprimento === 0) return 0;
+
+    const t = ((ponto.lng - a.lng) * escala * dx + (ponto.lat - a.lat) * dy) / comprimento;
+    return Math.min(1, Math.max(0, t));
+}
+
+function minutosPara(metros: number): number {
+    return Math.round(metros / (VELOCIDADE_MEDIA_KMH / 3.6) / 60);
+}
@@ -0,0 +1,91 @@
+import { Linha, TracadoLinha, Veiculo } from '../models/sptrans.model';
+import { TraducaoService } from '../i18n/traducao.service';
+import { formatarDistancia } from '../perto/distancia';
+import { AmostraPosicao } from '../veiculo/historico-veiculos.service';
+import { AnaliseLinha, IntervaloServico, analisarLinha, trechoDoTracado } from './analise-servico';
+
+/** Alerta que aparece no ícone do ônibus (classe onibus-comboio ou onibus-sem-sinal) */
+export type DestaqueOnibus = 'comboio' | 'sem-sinal';
+
+/**
+ * 📊 CAMADA DO SERVIÇO DAS LINHAS
+ *
+ * Refaz a análise de cada linha no mapa (analise-servico.ts) a cada
+ * atualização e desenha as lacunas, tracejadas por cima do traçado.
+ * Os ônibus em comboio ou sem sinal ficam em `destaques`: os marcadores
+ * são de quem chama, que troca a classe do ícone.
+ *
+ * Exemplo de uso:
+ * ```
+ * const camada = new CamadaServico(L, grupoOnibus, traducao);
+ * camada.atualizar(onibusPorLinha, tracados, prefixo => historico.amostras(prefixo));
+ * camada.destaques.get('11433');   // 'comboio'
+ * camada.limpar();
+ * ```
+ */
+export class CamadaServico {
+
+    private readonly grupo: any;   // L.LayerGroup
+
+    /** Última análise de cada linha (PainelServicoComponent) */
+    analises: AnaliseLinha[] = [];
+
+    /** Alerta de cada ônibus, pelo prefixo */
+    destaques = new Map<string, DestaqueOnibus>();
+
+    constructor(private L: any, private destino: any, private traducao: TraducaoService) {
+        this.grupo = L.layerGroup().addTo(destino);
+    }
+
+    /** Alertas somados de todas as linhas */
+    get totalAlertas(): number {
+        return this.analises.reduce((total, analise) => total + analise.alertas.length, 0);
+    }
+
+    /**
+     * @param onibus - ônibus de cada linha no mapa, na última posição recebida
+     * @param tracados - traçados por código da linha; linha sem traçado fica sem intervalos
+     * @param amostras - histórico de cada ônibus (HistoricoVeiculosService)
+     */
+    atualizar(
+        onibus: { linha: Linha; veiculos: Veiculo[] }[],
+        tracados: Map<number, TracadoLinha>,
+        amostras: (prefixo: string) => AmostraPosicao[]
+    ): void {
+        this.analises = onibus.map(({ linha, veiculos }) => analisarLinha(linha, veiculos, {
+            tracado: tracados.get(linha.codigo) ?? null,
+            amostras
+        }));
+
+        this.grupo.clearLayers();
+        this.destaques.clear();
+        this.analises.forEach(analise => analise.alertas.forEach(alerta => {
+            if (alerta.tipo === 'comboio') alerta.prefixos.forEach(prefixo => this.destaques.set(prefixo, 'comboio'));
+            else if (alerta.tipo === 'sem-sinal') this.destaques.set(alerta.prefixo, 'sem-sinal');
+            else this.desenharLacuna(alerta.intervalo, tracados.get(analise.linha.codigo));
+        }));
+    }
+
+    limpar(): void {
+        this.grupo.clearLayers();
+        this.analises = [];
+        this.destaques.clear();
+    }
+
+    /**
+     * Trecho do traçado sem ônibus
+     */
+    private desenharLacuna(intervalo: IntervaloServico, tracado: TracadoLinha | undefined): void {
+        if (!tracado) return;
+
+        const trecho = trechoDoTracado(tracado.pontos, intervalo.deMetros, intervalo.ateMetros);
+        if (trecho.length < 2) return;
+        this.L.polyline(trecho, { color: '#fd7e14', weight: 8, opacity: 0.9, dashArray: '10 8' })
+            .bindTooltip(this.traducao.traduzir('servico.alerta.lacuna', {
+                distancia: formatarDistancia(intervalo.metros),
+                minutos: intervalo.minutos,
+                prefixo: intervalo.anterior
+            }), { sticky: true })
+            .addTo(this.grupo);
+    }
+}
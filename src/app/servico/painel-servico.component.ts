@@ -0,0 +1,66 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { CORES_SENTIDO } from '../home/sentido';
+import { formatarDistancia } from '../perto/distancia';
+import { TraducaoService } from '../i18n/traducao.service';
+import { TraduzirPipe } from '../i18n/traduzir.pipe';
+import { AlertaServico, AnaliseLinha } from './analise-servico';
+
+/**
+ * 📊 PAINEL DO SERVIÇO DAS LINHAS
+ *
+ * Resumo de cada linha no mapa: quantos ônibus, o intervalo médio entre
+ * eles e os alertas (comboio, lacuna, sem sinal). Clicar em um alerta
+ * seleciona o ônibus envolvido no mapa.
+ * A análise é feita pela CamadaServico a cada atualização (analise-servico.ts).
+ */
+@Component({
+  selector: 'app-painel-servico',
+  imports: [CommonModule, TraduzirPipe],
+  templateUrl: './painel-servico.component.html',
+  styleUrl: './painel-servico.component.scss'
+})
+export class PainelServicoComponent {
+
+  @Input() analises: AnaliseLinha[] = [];
+  @Output() selecionarVeiculo = new EventEmitter<string>();   // prefixo
+  @Output() fechar = new EventEmitter<void>();
+
+  readonly coresSentido = CORES_SENTIDO;
+
+  constructor(public traducao: TraducaoService) { }
+
+  /**
+   * Texto do alerta no idioma atual
+   */
+  descrever(alerta: AlertaServico): string {
+    switch (alerta.tipo) {
+      case 'comboio':
+        return this.traducao.traduzir('servico.alerta.comboio', {
+          primeiro: alerta.prefixos[0],
+          segundo: alerta.prefixos[1],
+          distancia: formatarDistancia(alerta.metros)
+        });
+      case 'lacuna':
+        return this.traducao.traduzir('servico.alerta.lacuna', {
+          distancia: formatarDistancia(alerta.intervalo.metros),
+          minutos: alerta.intervalo.minutos,
+          prefixo: alerta.intervalo.anterior
+        });
+      case 'sem-sinal':
+        return this.traducao.traduzir('servico.alerta.sem-sinal', {
+          prefixo: alerta.prefixo,
+          idade: this.traducao.formatarIdade(alerta.segundos)
+        });
+    }
+  }
+
+  /** Ônibus que o alerta mostra no mapa (na lacuna, o que está atrás dela) */
+  prefixoDoAlerta(alerta: AlertaServico): string {
+    switch (alerta.tipo) {
+      case 'comboio': return alerta.prefixos[0];
+      case 'lacuna': return alerta.intervalo.anterior;
+      case 'sem-sinal': return alerta.prefixo;
+    }
+  }
+}
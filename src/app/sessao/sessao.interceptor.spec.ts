@@ -0,0 +1,81 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, HttpErrorResponse, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+
+import { environment } from '../../environments/environment';
+import { respostaDeSessaoExpirada, sessaoInterceptor } from './sessao.interceptor';
+import { SessaoService } from './sessao.service';
+
+describe('sessaoInterceptor', () => {
+  let http: HttpClient;
+  let controle: HttpTestingController;
+  let sessao: SessaoService;
+
+  const api = environment.apiUrl;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(withInterceptors([sessaoInterceptor])), provideHttpClientTesting()]
+    });
+    http = TestBed.inject(HttpClient);
+    controle = TestBed.inject(HttpTestingController);
+    sessao = TestBed.inject(SessaoService);
+  });
+
+  afterEach(() => controle.verify());
+
+  it('faz um único login antes das primeiras chamadas, mesmo que sejam simultâneas', () => {
+    const respostas: unknown[] = [];
+    http.get(`${api}/linhas?termo=8000`).subscribe(r => respostas.push(r));
+    http.get(`${api}/Posicao`).subscribe(r => respostas.push(r));
+
+    controle.expectOne(`${api}/login`).flush(true);
+    controle.expectOne(`${api}/linhas?termo=8000`).flush([]);
+    controle.expectOne(`${api}/Posicao`).flush({ hr: '10:00', l: [] });
+
+    expect(respostas.length).toBe(2);
+
+    // Com a sessão aberta, não faz login de novo
+    http.get(`${api}/linhas?termo=8001`).subscribe();
+    controle.expectNone(`${api}/login`);
+    controle.expectOne(`${api}/linhas?termo=8001`).flush([]);
+    expect(sessao.geracao).toBe(1);
+  });
+
+  it('renova a sessão e repete a chamada uma vez depois de um 401', () => {
+    let resposta: unknown;
+    http.get(`${api}/linhas?termo=8000`).subscribe(r => resposta = r);
+
+    controle.expectOne(`${api}/login`).flush(true);
+    controle.expectOne(`${api}/linhas?termo=8000`).flush(null, { status: 401, statusText: 'Unauthorized' });
+    controle.expectOne(`${api}/login`).flush(true);
+    controle.expectOne(`${api}/linhas?termo=8000`).flush([{ cl: 1 }]);
+
+    expect(resposta).toEqual([{ cl: 1 }]);
+    expect(sessao.geracao).toBe(2);
+  });
+
+  it('trata a mensagem de sessão expirada como 401 e desiste se a repetição também falhar', () => {
+    const expirada = { Message: 'Authorization has been denied for this request.' };
+    let erro: HttpErrorResponse | undefined;
+    http.get(`${api}/Posicao`).subscribe({ error: e => erro = e });
+
+    controle.expectOne(`${api}/login`).flush(true);
+    controle.expectOne(`${api}/Posicao`).flush(expirada);
+    controle.expectOne(`${api}/login`).flush(true);
+    controle.expectOne(`${api}/Posicao`).flush(expirada);
+
+    expect(erro?.status).toBe(401);
+    controle.expectNone(`${api}/login`);
+  });
+
+  it('não interfere em chamadas fora da API nem no próprio login', () => {
+    http.get('/config.json').subscribe();
+    http.get(`${api}/status`).subscribe();
+
+    controle.expectNone(`${api}/login`);
+    controle.expectOne('/config.json').flush({});
+    controle.expectOne(`${api}/status`).flush({});
+    expect(respostaDeSessaoExpirada([{ Message: 'Authorization has been denied' }])).toBeFalse();
+  });
+});
@@ -0,0 +1,76 @@
+import { inject } from '@angular/core';
+import { HttpErrorResponse, HttpEvent, HttpInterceptorFn, HttpResponse } from '@angular/common/http';
+import { Observable, throwError } from 'rxjs';
+import { catchError, switchMap, tap } from 'rxjs/operators';
+import { CONFIG_APP } from '../config/config-app';
+import { SessaoService } from './sessao.service';
+
+/**
+ * Caminhos da API que não dependem da sessão (e que o próprio login usa)
+ */
+const SEM_SESSAO = ['/login', '/status', '/health'];
+
+/**
+ * Se a chamada é para a API Olho Vivo e precisa de sessão
+ * @param base - URL base da API (ConfigApp.apiUrl)
+ */
+export function precisaDeSessao(url: string, base: string): boolean {
+    if (!url.startsWith(`${base}/`)) return false;
+
+    const caminho = url.slice(base.length).split('?')[0].toLowerCase();
+    return !SEM_SESSAO.includes(caminho);
+}
+
+/**
+ * A API Olho Vivo, com a sessão expirada, às vezes responde 200 com
+ * `{"Message": "Authorization has been denied for this request."}` em vez de 401
+ */
+export function respostaDeSessaoExpirada(corpo: unknown): boolean {
+    if (!corpo || typeof corpo !== 'object' || Array.isArray(corpo)) return false;
+    const mensagem = (corpo as Record<string, unknown>)['Message'];
+    return typeof mensagem === 'string' && /authorization has been denied/i.test(mensagem);
+}
+
+/**
+ * 🔐 INTERCEPTOR DA SESSÃO
+ *
+ * Em toda chamada para a API:
+ * 1. faz login antes, se ainda não houver sessão (um login só, compartilhado)
+ * 2. se a resposta for 401 (ou a mensagem de sessão expirada), faz login de
+ *    novo e repete a chamada UMA vez; se falhar de novo, o erro segue adiante
+ *
+ * Registrado em app.config.ts com `withInterceptors([sessaoInterceptor])`.
+ */
+export const sessaoInterceptor: HttpInterceptorFn = (req, next) => {
+    if (!precisaDeSessao(req.url, inject(CONFIG_APP).apiUrl)) return next(req);
+
+    const sessao = inject(SessaoService);
+    let geracao = sessao.geracao;
+
+    const enviar = (): Observable<HttpEvent<unknown>> => next(req).pipe(
+        tap(evento => {
+            if (evento instanceof HttpResponse && respostaDeSessaoExpirada(evento.body)) {
+                throw new HttpErrorResponse({
+                    status: 401,
+                    statusText: 'Sessão expirada',
+                    url: req.url,
+                    error: evento.body
+                });
+            }
+        })
+    );
+
+    return sessao.garantir().pipe(
+        switchMap(() => {
+            geracao = sessao.geracao;
+            return enviar();
+        }),
+        catchError(erro => {
+            if (!(erro instanceof HttpErrorResponse) || erro.status !== 401) return throwError(() => erro);
+
+            return sessao.renovar(geracao).pipe(
+                switchMap(aceito => aceito ? enviar() : throwError(() => erro))
+            );
+        })
+    );
+};
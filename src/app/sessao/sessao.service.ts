@@ -0,0 +1,140 @@
+import { Inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { PlatformLocation, isPlatformServer } from '@angular/common';
+import { HttpBackend, HttpClient } from '@angular/common/http';
+import { BehaviorSubject, Observable, of } from 'rxjs';
+import { catchError, finalize, map, shareReplay, tap } from 'rxjs/operators';
+import { CONFIG_APP, ConfigApp } from '../config/config-app';
+
+/** Depois de um login recusado, espera este tempo antes de tentar de novo (ms) */
+export const ESPERA_APOS_FALHA_MS = 30_000;
+
+/**
+ * desconectada - ainda não fez login (o login só acontece na primeira chamada)
+ * autenticando - login em andamento
+ * autenticada  - a API aceitou o login
+ * expirada     - a API recusou uma chamada; o próximo uso faz login de novo
+ * falhou       - o login foi recusado ou não respondeu
+ */
+export type SituacaoSessao = 'desconectada' | 'autenticando' | 'autenticada' | 'expirada' | 'falhou';
+
+export interface EstadoSessao {
+    situacao: SituacaoSessao;
+    desde: Date | null;   // quando a situação mudou
+}
+
+/**
+ * 🔐 SESSÃO COM A API OLHO VIVO
+ *
+ * A API Olho Vivo só responde depois de um login (GET /login), e a sessão
+ * expira sozinha depois de um tempo. Este serviço guarda o estado da sessão
+ * e garante que só exista UM login em andamento, por mais que várias
+ * chamadas precisem dele ao mesmo tempo.
+ *
+ * Quem usa é o sessaoInterceptor (sessao.interceptor.ts), então os serviços
+ * não precisam se preocupar com login:
+ * ```
+ * provideHttpClient(withInterceptors([sessaoInterceptor]))
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class SessaoService {
+
+    /** HttpClient sem interceptors, para o login não passar pelo próprio sessaoInterceptor */
+    private readonly http: HttpClient;
+
+    private readonly estado = new BehaviorSubject<EstadoSessao>({ situacao: 'desconectada', desde: null });
+    private loginEmAndamento: Observable<boolean> | null = null;
+
+    /** Aumenta a cada login aceito (ver renovar) */
+    private geracaoAtual = 0;
+
+    readonly estado$: Observable<EstadoSessao> = this.estado.asObservable();
+
+    /** Endereço do login; no SSR, absoluto (ver constructor) */
+    private readonly urlLogin: string;
+
+    constructor(
+        backend: HttpBackend,
+        @Inject(CONFIG_APP) config: ConfigApp,
+        @Inject(PLATFORM_ID) platformId: Object,
+        local: PlatformLocation
+    ) {
+        this.http = new HttpClient(backend);
+
+        // No servidor, quem completa URLs relativas ('/api') com o endereço da página é um
+        // interceptor do Angular, e o HttpBackend não passa por ele
+        this.urlLogin = `${config.apiUrl}/login`;
+        if (isPlatformServer(platformId) && local.protocol.startsWith('http')) {
+            this.urlLogin = new URL(this.urlLogin, local.href).toString();
+        }
+    }
+
+    /** Identifica a sessão atual; uma resposta 401 de uma geração antiga não precisa de novo login */
+    get geracao(): number {
+        return this.geracaoAtual;
+    }
+
+    /**
+     * Garante que há uma sessão antes de chamar a API.
+     * Só faz login se ainda não houver sessão; se um login já está em andamento, espera por ele.
+     * @returns true se a sessão foi aceita (false não impede a chamada: o backend pode ter a sua própria sessão)
+     */
+    garantir(): Observable<boolean> {
+        const { situacao } = this.estado.value;
+        if (situacao === 'autenticada') return of(true);
+        if (this.aguardandoNovaTentativa()) return of(false);
+        return this.entrar();
+    }
+
+    /**
+     * Faz login (ou aproveita o login que já está em andamento)
+     */
+    entrar(): Observable<boolean> {
+        if (this.loginEmAndamento) return this.loginEmAndamento;
+
+        console.log('🔐 Fazendo login...');
+        this.definir('autenticando');
+
+        this.loginEmAndamento = this.http.get<unknown>(this.urlLogin).pipe(
+            map(resposta => resposta === true || resposta === 'true'),
+            catchError(erro => {
+                console.error('❌ Erro ao fazer login:', erro);
+                return of(false);
+            }),
+            tap(aceito => {
+                if (aceito) this.geracaoAtual++;
+                this.definir(aceito ? 'autenticada' : 'falhou');
+            }),
+            finalize(() => this.loginEmAndamento = null),
+            // Todos os inscritos recebem o mesmo resultado, e o login continua mesmo se o primeiro desistir
+            shareReplay({ bufferSize: 1, refCount: false })
+        );
+        return this.loginEmAndamento;
+    }
+
+    /**
+     * A API recusou uma chamada feita com a sessão `geracao`: faz login de novo.
+     * Se outra chamada já renovou a sessão nesse meio tempo, não faz outro login.
+     */
+    renovar(geracao: number): Observable<boolean> {
+        if (this.loginEmAndamento) return this.loginEmAndamento;
+        if (geracao !== this.geracaoAtual && this.estado.value.situacao === 'autenticada') return of(true);
+        if (this.aguardandoNovaTentativa()) return of(false);
+
+        console.warn('🔐 Sessão expirada, fazendo login de novo...');
+        this.definir('expirada');
+        return this.entrar();
+    }
+
+    /**
+     * Depois de uma falha, não repete o login a cada chamada (o backend pode nem ter /login)
+     */
+    private aguardandoNovaTentativa(): boolean {
+        const { situacao, desde } = this.estado.value;
+        return situacao === 'falhou' && !!desde && Date.now() - desde.getTime() < ESPERA_APOS_FALHA_MS;
+    }
+
+    private definir(situacao: SituacaoSessao): void {
+        this.estado.next({ situacao, desde: new Date() });
+    }
+}
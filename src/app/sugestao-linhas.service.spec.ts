@@ -0,0 +1,75 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { Subject, of, throwError } from 'rxjs';
+
+import { SptransService } from './app.service';
+import { ErroApi } from './models/erros-api';
+import { Linha } from './models/sptrans.model';
+import { ESPERA_DIGITACAO_MS, SugestaoLinhasService, SugestoesLinhas, linhaCorresponde } from './sugestao-linhas.service';
+
+describe('SugestaoLinhasService', () => {
+  let service: SugestaoLinhasService;
+  let sptrans: jasmine.SpyObj<SptransService>;
+
+  const linha = (letreiro: string, terminalPrincipal: string, terminalSecundario: string): Linha => ({
+    codigo: letreiro.length, letreiro, circular: false, sentido: 1,
+    terminalPrincipal, terminalSecundario, destino: terminalSecundario
+  });
+  const lapa = linha('8000-10', 'PCA.RAMOS DE AZEVEDO', 'TERMINAL LAPA');
+  const lapinha = linha('875A-10', 'PERDIZES', 'LAPINHA');
+
+  beforeEach(() => {
+    sptrans = jasmine.createSpyObj<SptransService>('SptransService', ['buscarLinhas']);
+    TestBed.configureTestingModule({ providers: [{ provide: SptransService, useValue: sptrans }] });
+    service = TestBed.inject(SugestaoLinhasService);
+  });
+
+  it('compara o termo sem acento e sem diferenciar maiúsculas', () => {
+    expect(linhaCorresponde(lapa, 'ramos de azevêdo')).toBeTrue();
+    expect(linhaCorresponde(lapa, '8000')).toBeTrue();
+    expect(linhaCorresponde(lapinha, 'lapa')).toBeFalse();
+  });
+
+  it('espera a digitação parar e só consulta o último termo', fakeAsync(() => {
+    sptrans.buscarLinhas.and.returnValue(of([lapa, lapinha]));
+    const digitado = new Subject<string>();
+    const emitidas: SugestoesLinhas[] = [];
+    service.acompanhar(digitado).subscribe(s => emitidas.push(s));
+
+    digitado.next('l');
+    digitado.next('la');
+    digitado.next('lap');
+    tick(ESPERA_DIGITACAO_MS);
+
+    expect(sptrans.buscarLinhas).toHaveBeenCalledOnceWith('lap');
+    expect(emitidas.at(-1)).toEqual({ termo: 'lap', linhas: [lapa, lapinha], carregando: false, erro: null });
+  }));
+
+  it('filtra localmente um termo que começa com outro já consultado', () => {
+    sptrans.buscarLinhas.and.returnValue(of([lapa, lapinha]));
+    service.linhasDoTermo('Lap').subscribe();
+
+    let linhas: Linha[] = [];
+    service.linhasDoTermo('lapa').subscribe(resultado => linhas = resultado);
+
+    expect(linhas).toEqual([lapa]);
+    expect(sptrans.buscarLinhas).toHaveBeenCalledTimes(1);
+  });
+
+  it('mostra o erro sem encerrar as sugestões', fakeAsync(() => {
+    sptrans.buscarLinhas.and.returnValues(
+      throwError(() => new ErroApi('servidor', 'buscar linhas', 500, null)),
+      of([lapa])
+    );
+    const digitado = new Subject<string>();
+    let atual: SugestoesLinhas | undefined;
+    service.acompanhar(digitado).subscribe(s => atual = s);
+
+    digitado.next('8000');
+    tick(ESPERA_DIGITACAO_MS);
+    expect(atual?.erro?.tipo).toBe('servidor');
+
+    digitado.next('8000-1');
+    tick(ESPERA_DIGITACAO_MS);
+    expect(atual?.linhas).toEqual([lapa]);
+  }));
+});
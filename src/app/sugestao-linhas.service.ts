@@ -0,0 +1,128 @@
+import { Injectable } from '@angular/core';
+import { Observable, of } from 'rxjs';
+import { catchError, debounceTime, distinctUntilChanged, map, startWith, switchMap, tap } from 'rxjs/operators';
+import { SptransService } from './app.service';
+import { ErroApi, classificarErro } from './models/erros-api';
+import { Linha } from './models/sptrans.model';
+
+/** Espera depois da última tecla antes de consultar a API (ms) */
+export const ESPERA_DIGITACAO_MS = 300;
+
+/** Termos mais curtos que isso não geram sugestões (trariam centenas de linhas) */
+export const TAMANHO_MINIMO_TERMO = 2;
+
+/** Quantos termos ficam no cache (os mais antigos saem primeiro) */
+export const MAXIMO_TERMOS_EM_CACHE = 50;
+
+/**
+ * Sugestões para o que está digitado no campo de busca
+ */
+export interface SugestoesLinhas {
+    termo: string;
+    linhas: Linha[];
+    carregando: boolean;
+    erro: ErroApi | null;
+}
+
+/**
+ * Texto sem acentos e em minúsculas, para comparar termos
+ */
+function normalizar(texto: string): string {
+    return texto.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+/**
+ * Se a linha corresponde ao termo, do mesmo jeito que a busca da API:
+ * pelo número (letreiro) ou pelo nome dos terminais
+ */
+export function linhaCorresponde(linha: Linha, termo: string): boolean {
+    const alvo = normalizar(`${linha.letreiro} ${linha.terminalPrincipal} ${linha.terminalSecundario}`);
+    return alvo.includes(normalizar(termo));
+}
+
+/**
+ * 🔎 SUGESTÕES DE LINHAS (BUSCA ENQUANTO DIGITA)
+ *
+ * Consulta SptransService.buscarLinhas enquanto o usuário digita, sem
+ * disparar uma requisição por tecla:
+ * - espera uma pausa na digitação (debounce)
+ * - cancela a consulta anterior quando o termo muda (switchMap)
+ * - guarda os resultados por termo; um termo que começa com outro já
+ *   consultado ('lapa' depois de 'lap') é filtrado localmente, sem ir à API
+ *
+ * Exemplo de uso:
+ * ```
+ * this.sugestoes.acompanhar(this.digitado$).subscribe(s => this.sugestoesAtuais = s);
+ * this.sugestoes.linhasDoTermo('8000').subscribe(linhas => ...);
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class SugestaoLinhasService {
+
+    /** Linhas por termo normalizado; a ordem do Map é a ordem de inserção (para descartar os mais antigos) */
+    private readonly cache = new Map<string, Linha[]>();
+
+    constructor(private sptransService: SptransService) { }
+
+    /**
+     * Transforma o texto digitado em sugestões
+     */
+    acompanhar(digitado$: Observable<string>): Observable<SugestoesLinhas> {
+        return digitado$.pipe(
+            debounceTime(ESPERA_DIGITACAO_MS),
+            map(termo => termo.trim()),
+            distinctUntilChanged(),
+            switchMap(termo => {
+                if (termo.length < TAMANHO_MINIMO_TERMO) {
+                    return of<SugestoesLinhas>({ termo, linhas: [], carregando: false, erro: null });
+                }
+                return this.linhasDoTermo(termo).pipe(
+                    map((linhas): SugestoesLinhas => ({ termo, linhas, carregando: false, erro: null })),
+                    startWith<SugestoesLinhas>({ termo, linhas: [], carregando: true, erro: null }),
+                    catchError(erro => of<SugestoesLinhas>({
+                        termo, linhas: [], carregando: false, erro: classificarErro(erro, 'sugerir linhas')
+                    }))
+                );
+            })
+        );
+    }
+
+    /**
+     * Linhas do termo, usando o cache quando possível
+     */
+    linhasDoTermo(termo: string): Observable<Linha[]> {
+        const chave = normalizar(termo);
+        const emCache = this.doCache(chave);
+        if (emCache) return of(emCache);
+
+        return this.sptransService.buscarLinhas(termo).pipe(
+            tap(linhas => this.guardar(chave, linhas))
+        );
+    }
+
+    /**
+     * Resultado exato do cache ou, se houver, o do maior prefixo já consultado filtrado pelo termo
+     */
+    private doCache(chave: string): Linha[] | null {
+        const exato = this.cache.get(chave);
+        if (exato) return exato;
+
+        for (let tamanho = chave.length - 1; tamanho >= TAMANHO_MINIMO_TERMO; tamanho--) {
+            const doPrefixo = this.cache.get(chave.slice(0, tamanho));
+            if (doPrefixo) {
+                const linhas = doPrefixo.filter(linha => linhaCorresponde(linha, chave));
+                this.guardar(chave, linhas);
+                return linhas;
+            }
+        }
+        return null;
+    }
+
+    private guardar(chave: string, linhas: Linha[]): void {
+        this.cache.delete(chave);
+        this.cache.set(chave, linhas);
+        if (this.cache.size > MAXIMO_TERMOS_EM_CACHE) {
+            this.cache.delete(this.cache.keys().next().value!);
+        }
+    }
+}
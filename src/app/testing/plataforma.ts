@@ -0,0 +1,18 @@
+import { PLATFORM_ID, Provider, Type } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+
+/** Onde o app roda: no navegador ou no servidor (SSR) */
+export type Plataforma = 'browser' | 'server';
+
+/**
+ * 🧪 Configura o TestBed como se o app rodasse em `plataforma` e injeta o serviço
+ *
+ * Exemplo de uso:
+ * ```ts
+ * const service = injetarNaPlataforma(FavoritosService, 'server');
+ * ```
+ */
+export function injetarNaPlataforma<T>(servico: Type<T>, plataforma: Plataforma, providers: Provider[] = []): T {
+  TestBed.configureTestingModule({ providers: [...providers, { provide: PLATFORM_ID, useValue: plataforma }] });
+  return TestBed.inject(servico);
+}
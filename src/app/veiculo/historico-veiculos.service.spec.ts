@@ -0,0 +1,50 @@
+import { TestBed } from '@angular/core/testing';
+import { Veiculo } from '../models/sptrans.model';
+import {
+  AmostraPosicao,
+  HistoricoVeiculosService,
+  MAXIMO_AMOSTRAS,
+  resumirMovimento
+} from './historico-veiculos.service';
+
+describe('HistoricoVeiculosService', () => {
+  const inicio = new Date('2024-05-10T13:00:00Z').getTime();
+  const amostra = (minutos: number, lat: number, lng: number = -46.6333): AmostraPosicao =>
+    ({ lat, lng, atualizadoEm: new Date(inicio + minutos * 60_000) });
+  const veiculo = (minutos: number, lat: number): Veiculo =>
+    ({ prefixo: '11433', acessivel: true, ...amostra(minutos, lat) });
+
+  it('guarda as posições novas e ignora as repetidas', () => {
+    const historico = TestBed.inject(HistoricoVeiculosService);
+    historico.registrar(veiculo(0, -23.55));
+    historico.registrar(veiculo(0, -23.55));
+    historico.registrar(veiculo(1, -23.551));
+    for (let i = 2; i < MAXIMO_AMOSTRAS + 5; i++) historico.registrar(veiculo(i, -23.55 - i / 1000));
+
+    const amostras = historico.amostras('11433');
+    expect(amostras.length).toBe(MAXIMO_AMOSTRAS);
+    expect(amostras.at(-1)?.atualizadoEm.getTime()).toBe(inicio + (MAXIMO_AMOSTRAS + 4) * 60_000);
+    expect(historico.amostras('outro')).toEqual([]);
+  });
+
+  it('estima velocidade e rumo pelas últimas posições', () => {
+    // ~1,1 km para o sul em 2 minutos: ~33 km/h
+    const resumo = resumirMovimento([amostra(0, -23.55), amostra(1, -23.555), amostra(2, -23.56)], new Date(inicio + 2.5 * 60_000));
+
+    expect(resumo.velocidadeKmh).toBeCloseTo(33, -1);
+    expect(resumo.rumoGraus).toBeCloseTo(180, 0);
+    expect(resumo.segundosDesdeUltima).toBe(30);
+    expect(resumo.parado).toBeFalse();
+    expect(resumo.desatualizado).toBeFalse();
+  });
+
+  it('marca o veículo parado no mesmo lugar e a posição desatualizada', () => {
+    const parado = [amostra(0, -23.55), amostra(3, -23.55001), amostra(6, -23.55)];
+    expect(resumirMovimento(parado, new Date(inicio + 6.5 * 60_000)).parado).toBeTrue();
+    expect(resumirMovimento(parado, new Date(inicio + 6.5 * 60_000)).rumoGraus).toBeNull();
+
+    const semSinal = resumirMovimento([amostra(0, -23.55)], new Date(inicio + 10 * 60_000));
+    expect(semSinal.desatualizado).toBeTrue();
+    expect(semSinal.velocidadeKmh).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import { Injectable } from '@angular/core';
+import { Veiculo } from '../models/sptrans.model';
+import { distanciaMetros, rumoGraus } from '../perto/distancia';
+
+/** Quantas posições de cada veículo ficam guardadas (as mais antigas saem) */
+export const MAXIMO_AMOSTRAS = 30;
+
+/** Veículos diferentes guardados ao mesmo tempo (os que não aparecem há mais tempo saem) */
+export const MAXIMO_VEICULOS = 500;
+
+/** Período usado para a velocidade e o rumo (ms) */
+const JANELA_MOVIMENTO_MS = 3 * 60_000;
+
+/** Abaixo disso o veículo é considerado no mesmo lugar (m); o GPS oscila alguns metros */
+const DESLOCAMENTO_MINIMO_METROS = 30;
+
+/** Sem posição nova há mais que isso, a informação está desatualizada (ms) */
+export const DESATUALIZADO_APOS_MS = 3 * 60_000;
+
+/** No mesmo lugar há mais que isso, o veículo pode estar estacionado (ms) */
+export const PARADO_APOS_MS = 5 * 60_000;
+
+/**
+ * Posição de um veículo em um instante (py, px e ta da API)
+ */
+export interface AmostraPosicao {
+    lat: number;
+    lng: number;
+    atualizadoEm: Date;
+}
+
+/**
+ * Resumo do movimento recente de um veículo
+ */
+export interface ResumoMovimento {
+    velocidadeKmh: number | null;      // null com menos de duas posições na janela
+    rumoGraus: number | null;          // null se o veículo não andou o suficiente
+    segundosDesdeUltima: number | null;
+    desatualizado: boolean;            // a API não manda posição nova há algum tempo
+    parado: boolean;                   // as posições chegam, mas não mudam (pode estar estacionado)
+}
+
+/**
+ * Calcula velocidade, rumo e situação a partir das posições (da mais antiga para a mais nova)
+ */
+export function resumirMovimento(amostras: AmostraPosicao[], agora: Date = new Date()): ResumoMovimento {
+    const ultima = amostras.at(-1);
+    if (!ultima) {
+        return { velocidadeKmh: null, rumoGraus: null, segundosDesdeUltima: null, desatualizado: false, parado: false };
+    }
+
+    const segundosDesdeUltima = Math.max(0, Math.round((agora.getTime() - ultima.atualizadoEm.getTime()) / 1000));
+
+    // Velocidade média e rumo entre a primeira posição da janela e a última
+    const inicioJanela = ultima.atualizadoEm.getTime() - JANELA_MOVIMENTO_MS;
+    const primeira = amostras.find(a => a.atualizadoEm.getTime() >= inicioJanela && a !== ultima);
+    let velocidadeKmh: number | null = null;
+    let rumo: number | null = null;
+    if (primeira) {
+        const metros = distanciaMetros(primeira, ultima);
+        const segundos = (ultima.atualizadoEm.getTime() - primeira.atualizadoEm.getTime()) / 1000;
+        velocidadeKmh = segundos > 0 ? Math.round(metros / segundos * 3.6) : null;
+        rumo = metros >= DESLOCAMENTO_MINIMO_METROS ? rumoGraus(primeira, ultima) : null;
+    }
+
+    // Parado: desde quando o veículo está a menos de DESLOCAMENTO_MINIMO_METROS da última posição
+    let paradoDesde = ultima.atualizadoEm.getTime();
+    for (let i = amostras.length - 2; i >= 0; i--) {
+        if (distanciaMetros(amostras[i], ultima) >= DESLOCAMENTO_MINIMO_METROS) break;
+        paradoDesde = amostras[i].atualizadoEm.getTime();
+    }
+
+    return {
+        velocidadeKmh,
+        rumoGraus: rumo,
+        segundosDesdeUltima,
+        desatualizado: segundosDesdeUltima * 1000 > DESATUALIZADO_APOS_MS,
+        parado: agora.getTime() - paradoDesde > PARADO_APOS_MS
+    };
+}
+
+/**
+ * 🛰️ HISTÓRICO DE POSIÇÕES DOS VEÍCULOS
+ *
+ * Guarda as últimas posições de cada veículo (pelo prefixo) que passou pelo
+ * mapa, a cada atualização. O histórico continua mesmo quando os marcadores
+ * são limpos, então ao buscar a linha de novo o rastro do ônibus ainda está lá.
+ *
+ * Exemplo de uso:
+ * ```
+ * this.historico.registrar(veiculo);               // a cada resposta de posições
+ * const amostras = this.historico.amostras('11433');
+ * const resumo = resumirMovimento(amostras);
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class HistoricoVeiculosService {
+
+    /** Posições por prefixo; a ordem do Map é a do último registro (para descartar os mais antigos) */
+    private readonly historico = new Map<string, AmostraPosicao[]>();
+
+    /**
+     * Acrescenta a posição do veículo. Uma amostra com o mesmo `ta` da última é ignorada
+     * (a API repete a posição até o veículo mandar outra).
+     */
+    registrar(veiculo: Veiculo): void {
+        const anteriores = this.historico.get(veiculo.prefixo) ?? [];
+        const ultima = anteriores.at(-1);
+        if (ultima && ultima.atualizadoEm.getTime() >= veiculo.atualizadoEm.getTime()) return;
+
+        const amostra: AmostraPosicao = { lat: veiculo.lat, lng: veiculo.lng, atualizadoEm: veiculo.atualizadoEm };
+        this.historico.delete(veiculo.prefixo);
+        this.historico.set(veiculo.prefixo, [...anteriores, amostra].slice(-MAXIMO_AMOSTRAS));
+
+        if (this.historico.size > MAXIMO_VEICULOS) {
+            this.historico.delete(this.historico.keys().next().value!);
+        }
+    }
+
+    /**
+     * Posições guardadas do veículo, da mais antiga para a mais nova
+     */
+    amostras(prefixo: string): AmostraPosicao[] {
+        return this.historico.get(prefixo) ?? [];
+    }
+}
@@ -0,0 +1,55 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Linha } from '../models/sptrans.model';
+import { CORES_SENTIDO } from '../home/sentido';
+import { pontoCardeal } from '../perto/distancia';
+import { AmostraPosicao, ResumoMovimento, resumirMovimento } from './historico-veiculos.service';
+import { DataLocalPipe } from '../i18n/data-local.pipe';
+import { TraducaoService } from '../i18n/traducao.service';
+import { TraduzirPipe } from '../i18n/traduzir.pipe';
+
+/**
+ * 🚌 PAINEL DO VEÍCULO
+ *
+ * Abre ao clicar em um ônibus: mostra a linha, a velocidade e o rumo
+ * estimados pelas últimas posições, há quanto tempo chegou a última
+ * posição e um aviso quando o ônibus parece parado ou sem sinal.
+ * O rastro das posições é desenhado no mapa pelo HomeComponent.
+ */
+@Component({
+  selector: 'app-painel-veiculo',
+  imports: [CommonModule, TraduzirPipe, DataLocalPipe],
+  templateUrl: './painel-veiculo.component.html',
+  styleUrl: './painel-veiculo.component.scss'
+})
+export class PainelVeiculoComponent implements OnChanges {
+
+  @Input({ required: true }) prefixo!: string;
+  @Input({ required: true }) linha!: Linha;
+  @Input() acessivel = false;
+  @Input() amostras: AmostraPosicao[] = [];
+  @Input() agora = Date.now();     // relógio do mapa, para "há X s"
+  @Output() fechar = new EventEmitter<void>();
+
+  resumo: ResumoMovimento = resumirMovimento([]);
+
+  readonly coresSentido = CORES_SENTIDO;
+
+  constructor(public traducao: TraducaoService) { }
+
+  ngOnChanges(): void {
+    this.resumo = resumirMovimento(this.amostras, new Date(this.agora));
+  }
+
+  get rumo(): string | null {
+    return this.resumo.rumoGraus === null ? null : `${pontoCardeal(this.resumo.rumoGraus)} (${Math.round(this.resumo.rumoGraus)}°)`;
+  }
+
+  /**
+   * Tempo desde a última posição, ex: 'há 40 s' ou 'há 3 min'
+   */
+  get idadeUltima(): string {
+    const segundos = this.resumo.segundosDesdeUltima;
+    return segundos === null ? '-' : this.traducao.formatarIdade(segundos);
+  }
+}
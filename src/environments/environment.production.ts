@@ -1,8 +1,8 @@
 /**
  * Configuração de ambiente para PRODUÇÃO
+ * (apiUrl é só o padrão: o que vale é a ConfigApp, ver app/config/config-app.ts)
  */
 export const environment = {
     production: true,
-    apiUrl: 'https://busmap-back.onrender.com/api', // URL direta do backend em produção
-    backendUrl: 'https://busmap-back.onrender.com' // URL do backend no Render
+    apiUrl: '/api' // Gateway do próprio servidor SSR (server.ts), que repassa para o backend
 };
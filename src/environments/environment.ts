@@ -1,8 +1,8 @@
 /**
  * Configuração de ambiente para DESENVOLVIMENTO
+ * (apiUrl é só o padrão: o que vale é a ConfigApp, ver app/config/config-app.ts)
  */
 export const environment = {
     production: false,
-    apiUrl: '/api', // Usa proxy em desenvolvimento (aponta para localhost:8080)
-    backendUrl: 'http://localhost:8080' // URL do backend local
+    apiUrl: '/api' // Usa proxy em desenvolvimento (aponta para localhost:8080)
 };
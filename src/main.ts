@@ -1,8 +1,18 @@
 import { bootstrapApplication } from '@angular/platform-browser';
-import { importProvidersFrom } from '@angular/core';
+import { mergeApplicationConfig } from '@angular/core';
 import { AppComponent } from './app/app.component';
-import { HttpClientModule } from '@angular/common/http';
+import { appConfig } from './app/app.config';
+import { CONFIG_APP, carregarConfigApp } from './app/config/config-app';
+import { registrarServiceWorker } from './app/offline/service-worker';
+import { environment } from './environments/environment';
 
-bootstrapApplication(AppComponent, {
-  providers: [importProvidersFrom(HttpClientModule)]
-}).catch(err => console.error(err));
+// A configuração (API, tiles, intervalo, centro do mapa) vem do servidor antes do app subir
+carregarConfigApp()
+  .then(config => bootstrapApplication(AppComponent, mergeApplicationConfig(appConfig, {
+    providers: [{ provide: CONFIG_APP, useValue: config }]
+  })))
+  .catch(err => console.error(err));
+
+if (environment.production) {
+  registrarServiceWorker();
+}
@@ -0,0 +1,132 @@
+/**
+ * 📴 SERVICE WORKER
+ *
+ * Deixa o app abrir sem conexão:
+ * - Páginas (navegação): rede primeiro; sem rede, a última versão guardada (ou o shell '/mapa')
+ * - Arquivos do app (JS, CSS, ícones): cache primeiro, já que os nomes mudam a cada build
+ * - Tiles do mapa (imagens de outra origem, URLs em ConfigApp.camadasBase): cache primeiro,
+ *   guardando os da área que o usuário já viu
+ * - /config.json: rede primeiro, para uma configuração nova valer logo
+ * - /api: sempre pela rede. As últimas respostas ficam no localStorage
+ *   (CacheOfflineService), e o app decide o que mostrar sem conexão.
+ *
+ * Ao mudar a lista do shell ou a estratégia, aumente VERSAO para descartar o cache antigo.
+ */
+
+const VERSAO = 2;
+const CACHE_APP = `sptrans-app-v${VERSAO}`;
+const CACHE_TILES = 'sptrans-tiles';
+
+/** Máximo de arquivos em cada cache (os mais antigos saem primeiro) */
+const MAXIMO_APP = 150;
+const MAXIMO_TILES = 1500;
+
+/**
+ * Guardados já na instalação. O shell é '/mapa' (pré-renderizada): o servidor responde '/'
+ * com um redirecionamento, e o navegador recusa resposta redirecionada para uma navegação.
+ */
+const SHELL = ['/mapa', '/manifest.webmanifest', '/icone.svg'];
+
+self.addEventListener('install', evento => {
+    evento.waitUntil(
+        caches.open(CACHE_APP)
+            .then(cache => cache.addAll(SHELL))
+            .then(() => self.skipWaiting())
+    );
+});
+
+self.addEventListener('activate', evento => {
+    evento.waitUntil(
+        caches.keys()
+            .then(nomes => Promise.all(
+                nomes
+                    .filter(nome => nome.startsWith('sptrans-app-') && nome !== CACHE_APP)
+                    .map(nome => caches.delete(nome))
+            ))
+            .then(() => self.clients.claim())
+    );
+});
+
+self.addEventListener('fetch', evento => {
+    const requisicao = evento.request;
+    if (requisicao.method !== 'GET') return;
+
+    const url = new URL(requisicao.url);
+
+    // O servidor de tiles é configurável: qualquer imagem de outra origem é tratada como tile
+    if (url.origin !== self.location.origin) {
+        if (requisicao.destination === 'image') {
+            evento.respondWith(cachePrimeiro(evento, CACHE_TILES, MAXIMO_TILES));
+        }
+        return;
+    }
+
+    if (url.pathname.startsWith('/api/')) return;
+
+    if (requisicao.mode === 'navigate') {
+        evento.respondWith(redePrimeiro(evento, '/mapa'));
+        return;
+    }
+
+    if (url.pathname === '/config.json') {
+        evento.respondWith(redePrimeiro(evento));
+        return;
+    }
+
+    evento.respondWith(cachePrimeiro(evento, CACHE_APP, MAXIMO_APP));
+});
+
+/**
+ * Responde com o cache; o que não estiver lá vem da rede e é guardado
+ */
+async function cachePrimeiro(evento, nomeCache, maximo) {
+    const requisicao = evento.request;
+    const cache = await caches.open(nomeCache);
+    const guardada = await cache.match(requisicao);
+    if (guardada) return guardada;
+
+    const resposta = await fetch(requisicao);
+    // Tiles vêm de outra origem sem CORS: a resposta é opaca (status 0), mas serve para o <img>
+    if (resposta.ok || resposta.type === 'opaque') {
+        guardarEmSegundoPlano(evento, cache.put(requisicao, resposta.clone())
+            .then(() => limitarCache(nomeCache, maximo)));
+    }
+    return resposta;
+}
+
+/**
+ * Busca na rede e guarda a cópia; sem rede, usa a cópia ou a `reserva` (ex: o shell '/mapa')
+ */
+async function redePrimeiro(evento, reserva) {
+    const requisicao = evento.request;
+    const cache = await caches.open(CACHE_APP);
+    try {
+        const resposta = await fetch(requisicao);
+        // Resposta redirecionada não serve de reserva para uma navegação (ver SHELL)
+        if (resposta.ok && !resposta.redirected) {
+            guardarEmSegundoPlano(evento, cache.put(requisicao, resposta.clone()));
+        }
+        return resposta;
+    } catch (erro) {
+        const guardada = await cache.match(requisicao) || (reserva && await cache.match(reserva));
+        if (guardada) return guardada;
+        throw erro;
+    }
+}
+
+/**
+ * Grava no cache sem segurar a resposta. Uma gravação que falha (ex: QuotaExceededError,
+ * já que cada tile opaco conta vários MB na cota) só deixa de guardar: a resposta já foi entregue.
+ */
+function guardarEmSegundoPlano(evento, gravacao) {
+    evento.waitUntil(gravacao.catch(erro => console.warn('📴 Não foi possível guardar no cache:', erro)));
+}
+
+/**
+ * Apaga as entradas mais antigas (cache.keys() vem na ordem de inserção)
+ */
+async function limitarCache(nomeCache, maximo) {
+    const cache = await caches.open(nomeCache);
+    const chaves = await cache.keys();
+    await Promise.all(chaves.slice(0, Math.max(0, chaves.length - maximo)).map(chave => cache.delete(chave)));
+}
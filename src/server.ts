@@ -7,6 +7,8 @@ import {
 import express from 'express';
 import { dirname, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { criarApiGateway } from './server/api-gateway';
+import { configDoAmbiente } from './server/config-runtime';
 
 const serverDistFolder = dirname(fileURLToPath(import.meta.url));
 const browserDistFolder = resolve(serverDistFolder, '../browser');
@@ -15,25 +17,59 @@ const app = express();
 const angularApp = new AngularNodeAppEngine();
 
 /**
- * Example Express Rest API endpoints can be defined here.
- * Uncomment and define endpoints as necessary.
+ * O Render (e outros hosts) ficam atrás de um proxy: confia em um salto
+ * para que req.ip seja o IP do cliente no limite de requisições.
+ */
+app.set('trust proxy', 1);
+
+/**
+ * Gateway da API: o navegador chama /api na mesma origem e o servidor
+ * repassa para o backend, com cache, junção de requisições e limite de taxa.
+ * Também atende /api/export, que exporta as posições de uma busca para scripts,
+ * e /api/stream/posicoes, que consulta cada linha uma vez para todas as abas
+ * abertas e empurra as mudanças por Server-Sent Events.
  *
- * Example:
- * ```ts
- * app.get('/api/**', (req, res) => {
- *   // Handle API request
- * });
- * ```
+ * Variáveis de ambiente:
+ * - API_UPSTREAM: URL do backend (padrão: https://busmap-back.onrender.com/api)
+ * - API_LIMITE_POR_MINUTO: requisições por cliente por minuto (padrão: 120)
+ * - API_STREAM_INTERVALO_MS: intervalo entre as consultas de cada linha do stream (padrão: 10000)
+ */
+app.use(
+  '/api',
+  criarApiGateway({
+    upstream: process.env['API_UPSTREAM'] || 'https://busmap-back.onrender.com/api',
+    limitePorMinuto: Number(process.env['API_LIMITE_POR_MINUTO']) || 120,
+    intervaloStreamMs: Number(process.env['API_STREAM_INTERVALO_MS']) || undefined,
+  }),
+);
+
+/**
+ * Configuração do app (ver server/config-runtime.ts): lida uma vez, na subida do servidor.
+ * Sem cache, para uma mudança nas variáveis valer no próximo carregamento.
  */
+const configApp = configDoAmbiente(process.env);
+
+app.get('/config.json', (_req, res) => {
+  res.setHeader('Cache-Control', 'no-cache');
+  res.json(configApp);
+});
 
 /**
  * Serve static files from /browser
+ *
+ * O service worker e o manifesto não têm hash no nome: sem cache longo,
+ * para o navegador enxergar uma versão nova logo.
  */
 app.use(
   express.static(browserDistFolder, {
     maxAge: '1y',
     index: false,
     redirect: false,
+    setHeaders: (res, caminho) => {
+      if (/(sw\.js|manifest\.webmanifest)$/.test(caminho)) {
+        res.setHeader('Cache-Control', 'no-cache');
+      }
+    },
   }),
 );
 
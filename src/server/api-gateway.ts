@@ -0,0 +1,254 @@
+import { Request, Response, Router } from 'express';
+import { CacheTtl } from './cache-ttl';
+import { LimitadorDeTaxa } from './limitador-taxa';
+import { BuscarJson, exportarBusca } from './exportacao';
+import { MAXIMO_LINHAS_STREAM, TransmissaoPosicoes } from './stream-posicoes';
+import { EVENTO_POSICOES, MensagemPosicoes } from '../app/models/diferenca-posicoes';
+import { FORMATOS_EXPORTACAO, lerFormatoExportacao, nomeArquivoExportacao } from '../app/exportacao/formatos-exportacao';
+
+/**
+ * 🚪 GATEWAY DA API (/api)
+ *
+ * Repassa as chamadas do app para o backend (upstream), para que o navegador
+ * sempre fale com a mesma origem. No caminho:
+ * - guarda as respostas em cache por um tempo que depende do endpoint
+ * - junta requisições idênticas que chegam ao mesmo tempo
+ * - limita a quantidade de requisições por cliente
+ * - expõe /api/health
+ * - expõe /api/export (posições de uma busca em GeoJSON, CSV ou GPX, ver exportacao.ts)
+ * - expõe /api/stream/posicoes (posições ao vivo por Server-Sent Events, ver stream-posicoes.ts)
+ *
+ * Exemplo de uso (server.ts):
+ * ```ts
+ * app.use('/api', criarApiGateway({ upstream: 'http://localhost:8080/api' }));
+ * ```
+ *
+ * Para testar contra um backend falso, basta apontar `upstream` para um
+ * servidor local ou passar uma função `fetch` própria.
+ */
+
+const SEGUNDO = 1000;
+const HORA = 60 * 60 * SEGUNDO;
+
+/**
+ * Tempo de vida do cache para os caminhos que começam com `prefixo`
+ */
+export interface RegraCache {
+    prefixo: string;
+    ttlMs: number;
+}
+
+/**
+ * Linhas, paradas e traçados quase nunca mudam; posições e previsões mudam a cada poucos segundos.
+ * Caminhos sem regra (ex: /login, /status) não são guardados.
+ */
+export const REGRAS_CACHE_PADRAO: RegraCache[] = [
+    { prefixo: '/linhas', ttlMs: 6 * HORA },
+    { prefixo: '/Parada', ttlMs: 24 * HORA },
+    { prefixo: '/Shape', ttlMs: 24 * HORA },
+    { prefixo: '/Previsao', ttlMs: 15 * SEGUNDO },
+    { prefixo: '/Posicao', ttlMs: 10 * SEGUNDO }
+];
+
+export interface OpcoesApiGateway {
+    upstream: string;                 // ex: 'https://busmap-back.onrender.com/api'
+    regrasCache?: RegraCache[];
+    limitePorMinuto?: number;         // requisições por cliente (IP) por minuto
+    timeoutMs?: number;               // tempo máximo de espera pelo upstream
+    intervaloStreamMs?: number;       // de quanto em quanto tempo o stream consulta cada linha
+    fetch?: typeof fetch;             // para testes com upstream falso
+}
+
+/**
+ * Resposta do upstream como fica guardada no cache
+ */
+interface RespostaUpstream {
+    status: number;
+    tipo: string;
+    corpo: string;
+}
+
+/** Comentário mandado pelo stream para a conexão não ficar ociosa (proxies fecham conexões paradas) */
+const BATIMENTO_STREAM_MS = 15 * SEGUNDO;
+
+/** Espera sugerida ao navegador antes de reconectar o stream */
+const RECONEXAO_STREAM_MS = 5 * SEGUNDO;
+
+/**
+ * Códigos de linha de ?linhas=1273,34041 (inválidos e repetidos ficam de fora)
+ */
+export function lerCodigosLinha(valor: unknown): number[] {
+    if (typeof valor !== 'string') return [];
+    const codigos = valor.split(',').map(Number).filter(codigo => Number.isInteger(codigo) && codigo > 0);
+    return [...new Set(codigos)];
+}
+
+/**
+ * TTL do caminho (sem query string), comparando prefixos sem diferenciar maiúsculas
+ */
+export function ttlPara(caminho: string, regras: RegraCache[]): number {
+    const minusculo = caminho.toLowerCase();
+    const regra = regras.find(r => minusculo.startsWith(r.prefixo.toLowerCase()));
+    return regra?.ttlMs ?? 0;
+}
+
+export function criarApiGateway(opcoes: OpcoesApiGateway): Router {
+    const upstream = opcoes.upstream.replace(/\/+$/, '');
+    const regras = opcoes.regrasCache ?? REGRAS_CACHE_PADRAO;
+    const timeoutMs = opcoes.timeoutMs ?? 10 * SEGUNDO;
+    const buscar = opcoes.fetch ?? fetch;
+    const iniciadoEm = Date.now();
+
+    const cache = new CacheTtl<RespostaUpstream>({
+        deveGuardar: resposta => resposta.status >= 200 && resposta.status < 300
+    });
+    const limitador = new LimitadorDeTaxa(opcoes.limitePorMinuto ?? 120, 60 * SEGUNDO);
+    setInterval(() => limitador.limparInativos(), 60 * SEGUNDO).unref();
+
+    /**
+     * Resposta do upstream para `url` (caminho + query), passando pelo cache
+     */
+    const buscarUpstream = (url: string, ttlMs: number) => cache.obter(url, ttlMs, async () => {
+        const resposta = await buscar(`${upstream}${url}`, {
+            headers: { accept: 'application/json' },
+            signal: AbortSignal.timeout(timeoutMs)
+        });
+        return {
+            status: resposta.status,
+            tipo: resposta.headers.get('content-type') ?? 'application/json',
+            corpo: await resposta.text()
+        };
+    });
+
+    const buscarJson: BuscarJson = async url => {
+        const { valor } = await buscarUpstream(url, ttlPara(url, regras));
+        if (valor.status < 200 || valor.status >= 300) {
+            throw new Error(`Upstream respondeu ${valor.status} em ${url}`);
+        }
+        return JSON.parse(valor.corpo);
+    };
+
+    const transmissao = new TransmissaoPosicoes(buscarJson, opcoes.intervaloStreamMs ?? 10 * SEGUNDO);
+    let conexoesStream = 0;
+
+    const router = Router();
+
+    /**
+     * Saúde do gateway (não conta no limite de requisições)
+     */
+    router.get('/health', (req: Request, res: Response) => {
+        res.json({
+            status: 'ok',
+            upstream,
+            cache: { entradas: cache.tamanho },
+            stream: { conexoes: conexoesStream, linhas: transmissao.totalLinhas },
+            uptimeSegundos: Math.round((Date.now() - iniciadoEm) / SEGUNDO)
+        });
+    });
+
+    /**
+     * Limite de requisições por cliente
+     */
+    router.use((req: Request, res: Response, next) => {
+        const decisao = limitador.permitir(req.ip ?? 'desconhecido');
+        res.set('RateLimit-Remaining', String(decisao.restantes));
+
+        if (!decisao.permitido) {
+            res.set('Retry-After', String(Math.ceil(decisao.tentarEmMs / SEGUNDO)));
+            res.status(429).json({ erro: 'Muitas requisições. Tente novamente em instantes.' });
+            return;
+        }
+        next();
+    });
+
+    /**
+     * Exportação para scripts: /api/export?termo=8000&formato=csv (formato padrão: geojson)
+     */
+    router.get('/export', async (req: Request, res: Response) => {
+        const termo = typeof req.query['termo'] === 'string' ? req.query['termo'].trim() : '';
+        const formato = req.query['formato'] === undefined ? 'geojson' : lerFormatoExportacao(req.query['formato']);
+        if (!termo || !formato) {
+            res.status(400).json({ erro: 'Use /api/export?termo=<linha ou bairro>&formato=geojson|csv|gpx' });
+            return;
+        }
+
+        try {
+            const conteudo = await exportarBusca(termo, formato, buscarJson);
+            res.status(200)
+                .set('Content-Type', FORMATOS_EXPORTACAO[formato].tipoMime)
+                .set('Content-Disposition', `attachment; filename="${nomeArquivoExportacao(formato)}"`)
+                .set('Cache-Control', 'no-store')
+                .send(conteudo);
+        } catch (erro) {
+            console.error(`❌ Gateway: falha ao exportar "${termo}":`, erro);
+            res.status(502).json({ erro: 'Não foi possível buscar as linhas no backend' });
+        }
+    });
+
+    /**
+     * Posições ao vivo: /api/stream/posicoes?linhas=1273,34041
+     *
+     * A conexão conta uma vez no limite de requisições, não a cada mensagem.
+     * O id de cada mensagem só numera a conexão: ao reconectar o cliente
+     * recebe a 'inicial' de novo, em vez de as diferenças que perdeu.
+     */
+    router.get('/stream/posicoes', (req: Request, res: Response) => {
+        const codigos = lerCodigosLinha(req.query['linhas']);
+        if (codigos.length === 0 || codigos.length > MAXIMO_LINHAS_STREAM) {
+            res.status(400).json({ erro: `Use /api/stream/posicoes?linhas=<códigos separados por vírgula> (até ${MAXIMO_LINHAS_STREAM})` });
+            return;
+        }
+
+        res.status(200).set({
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-store',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no'
+        });
+        res.flushHeaders();
+        res.write(`retry: ${RECONEXAO_STREAM_MS}\n\n`);
+
+        let id = 0;
+        const enviar = (mensagem: MensagemPosicoes) => {
+            res.write(`id: ${++id}\nevent: ${EVENTO_POSICOES}\ndata: ${JSON.stringify(mensagem)}\n\n`);
+        };
+        const batimento = setInterval(() => res.write(': batimento\n\n'), BATIMENTO_STREAM_MS);
+        const cancelar = transmissao.inscrever(codigos, enviar);
+        conexoesStream++;
+
+        req.on('close', () => {
+            clearInterval(batimento);
+            cancelar();
+            conexoesStream--;
+        });
+    });
+
+    /**
+     * Repasse para o upstream (somente GET, que é o que a API Olho Vivo usa)
+     */
+    router.get('*', async (req: Request, res: Response) => {
+        const ttlMs = ttlPara(req.path, regras);
+
+        try {
+            const { valor, origem } = await buscarUpstream(req.url, ttlMs);
+
+            res.status(valor.status)
+                .set('Content-Type', valor.tipo)
+                .set('X-Cache', origem)
+                .set('Cache-Control', ttlMs > 0 ? `public, max-age=${Math.floor(ttlMs / SEGUNDO)}` : 'no-store')
+                .send(valor.corpo);
+        } catch (erro) {
+            const tempoEsgotado = erro instanceof Error && (erro.name === 'TimeoutError' || erro.name === 'AbortError');
+            console.error(`❌ Gateway: falha ao chamar ${upstream}${req.url}:`, erro);
+            res.status(tempoEsgotado ? 504 : 502).json({
+                erro: tempoEsgotado ? 'O backend demorou demais para responder' : 'Não foi possível falar com o backend'
+            });
+        }
+    });
+
+    router.all('*', (req: Request, res: Response) => {
+        res.status(405).set('Allow', 'GET').json({ erro: `Método ${req.method} não suportado` });
+    });
+
+    return router;
+}
@@ -0,0 +1,57 @@
+import { CacheTtl } from './cache-ttl';
+
+describe('CacheTtl', () => {
+  let agora: number;
+  let cache: CacheTtl<string>;
+
+  beforeEach(() => {
+    agora = 0;
+    cache = new CacheTtl<string>({ relogio: () => agora });
+  });
+
+  it('devolve do cache enquanto o TTL não expira', async () => {
+    const carregar = jasmine.createSpy('carregar').and.resolveTo('linhas');
+
+    expect((await cache.obter('/linhas', 1000, carregar)).origem).toBe('MISS');
+    agora = 999;
+    expect((await cache.obter('/linhas', 1000, carregar)).origem).toBe('HIT');
+    expect(carregar).toHaveBeenCalledTimes(1);
+
+    agora = 1000;
+    expect((await cache.obter('/linhas', 1000, carregar)).origem).toBe('MISS');
+    expect(carregar).toHaveBeenCalledTimes(2);
+  });
+
+  it('junta requisições iguais feitas ao mesmo tempo', async () => {
+    let resolver!: (valor: string) => void;
+    const carregar = jasmine.createSpy('carregar').and.returnValue(new Promise<string>(r => resolver = r));
+
+    const primeira = cache.obter('/Posicao', 0, carregar);
+    const segunda = cache.obter('/Posicao', 0, carregar);
+    resolver('posicoes');
+
+    expect(await primeira).toEqual({ valor: 'posicoes', origem: 'MISS' });
+    expect(await segunda).toEqual({ valor: 'posicoes', origem: 'COALESCED' });
+    expect(carregar).toHaveBeenCalledTimes(1);
+  });
+
+  it('não guarda valores recusados por deveGuardar nem falhas', async () => {
+    cache = new CacheTtl<string>({ relogio: () => agora, deveGuardar: valor => valor !== 'erro' });
+
+    await cache.obter('/a', 1000, () => Promise.resolve('erro'));
+    await expectAsync(cache.obter('/b', 1000, () => Promise.reject(new Error('offline')))).toBeRejected();
+
+    expect(cache.tamanho).toBe(0);
+  });
+
+  it('descarta as entradas mais antigas ao passar do limite', async () => {
+    cache = new CacheTtl<string>({ relogio: () => agora, maxEntradas: 2 });
+
+    await cache.obter('/1', 1000, () => Promise.resolve('1'));
+    await cache.obter('/2', 1000, () => Promise.resolve('2'));
+    await cache.obter('/3', 1000, () => Promise.resolve('3'));
+
+    expect(cache.tamanho).toBe(2);
+    expect((await cache.obter('/1', 1000, () => Promise.resolve('1'))).origem).toBe('MISS');
+  });
+});
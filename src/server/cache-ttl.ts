@@ -0,0 +1,95 @@
+/**
+ * 🗄️ CACHE COM TEMPO DE VIDA (TTL)
+ *
+ * Guarda respostas por chave durante `ttlMs` e junta requisições iguais
+ * que chegam ao mesmo tempo: enquanto a primeira está em andamento, as
+ * outras recebem a mesma Promise em vez de irem de novo ao upstream.
+ *
+ * Não depende de Node nem de Express, para poder ser testado isoladamente.
+ */
+
+/**
+ * De onde veio o valor devolvido por CacheTtl.obter
+ */
+export type OrigemCache = 'HIT' | 'MISS' | 'COALESCED';
+
+export interface ResultadoCache<T> {
+    valor: T;
+    origem: OrigemCache;
+}
+
+interface Entrada<T> {
+    valor: T;
+    expiraEm: number;
+}
+
+export interface OpcoesCacheTtl<T> {
+    maxEntradas?: number;                   // limite de entradas guardadas (as mais antigas saem primeiro)
+    deveGuardar?: (valor: T) => boolean;    // ex: só guardar respostas 2xx
+    relogio?: () => number;                 // para testes
+}
+
+export class CacheTtl<T> {
+
+    private entradas = new Map<string, Entrada<T>>();
+    private emAndamento = new Map<string, Promise<T>>();
+    private readonly maxEntradas: number;
+    private readonly deveGuardar: (valor: T) => boolean;
+    private readonly relogio: () => number;
+
+    constructor(opcoes: OpcoesCacheTtl<T> = {}) {
+        this.maxEntradas = opcoes.maxEntradas ?? 500;
+        this.deveGuardar = opcoes.deveGuardar ?? (() => true);
+        this.relogio = opcoes.relogio ?? Date.now;
+    }
+
+    /**
+     * Devolve o valor da chave: do cache se ainda válido, da requisição em
+     * andamento se houver uma, ou chamando `carregar`.
+     *
+     * @param ttlMs - tempo de vida; 0 desliga o cache (mas mantém a junção de requisições)
+     */
+    async obter(chave: string, ttlMs: number, carregar: () => Promise<T>): Promise<ResultadoCache<T>> {
+        const entrada = this.entradas.get(chave);
+        if (entrada && entrada.expiraEm > this.relogio()) {
+            return { valor: entrada.valor, origem: 'HIT' };
+        }
+        if (entrada) {
+            this.entradas.delete(chave);
+        }
+
+        const andamento = this.emAndamento.get(chave);
+        if (andamento) {
+            return { valor: await andamento, origem: 'COALESCED' };
+        }
+
+        const promessa = carregar();
+        this.emAndamento.set(chave, promessa);
+        try {
+            const valor = await promessa;
+            if (ttlMs > 0 && this.deveGuardar(valor)) {
+                this.guardar(chave, valor, ttlMs);
+            }
+            return { valor, origem: 'MISS' };
+        } finally {
+            this.emAndamento.delete(chave);
+        }
+    }
+
+    get tamanho(): number {
+        return this.entradas.size;
+    }
+
+    limpar(): void {
+        this.entradas.clear();
+    }
+
+    private guardar(chave: string, valor: T, ttlMs: number): void {
+        // Map mantém a ordem de inserção: a primeira chave é a mais antiga
+        while (this.entradas.size >= this.maxEntradas) {
+            const maisAntiga = this.entradas.keys().next().value as string;
+            this.entradas.delete(maisAntiga);
+        }
+        this.entradas.set(chave, { valor, expiraEm: this.relogio() + ttlMs });
+    }
+}
@@ -0,0 +1,46 @@
+import { CONFIG_PADRAO } from '../app/config/config-app';
+import { configDoAmbiente } from './config-runtime';
+
+describe('configDoAmbiente', () => {
+  it('usa o padrão quando nenhuma variável foi definida', () => {
+    expect(configDoAmbiente({})).toEqual(CONFIG_PADRAO);
+  });
+
+  it('lê as variáveis de ambiente e descarta os valores inválidos', () => {
+    const config = configDoAmbiente({
+      API_URL: 'https://homologacao.exemplo.com/api/',
+      INTERVALO_ATUALIZACAO_MS: '30000',
+      MAPA_CENTRO_LAT: '-22.9068',
+      MAPA_CENTRO_LNG: 'oeste',
+      MAPA_ZOOM: '40'
+    });
+
+    expect(config.apiUrl).toBe('https://homologacao.exemplo.com/api');
+    expect(config.intervaloAtualizacaoMs).toBe(30000);
+    expect(config.centroMapa).toEqual({ lat: -22.9068, lng: CONFIG_PADRAO.centroMapa.lng, zoom: CONFIG_PADRAO.centroMapa.zoom });
+  });
+
+  it('não aceita intervalo abaixo do mínimo', () => {
+    expect(configDoAmbiente({ INTERVALO_ATUALIZACAO_MS: '1000' }).intervaloAtualizacaoMs)
+      .toBe(CONFIG_PADRAO.intervaloAtualizacaoMs);
+  });
+
+  it('acrescenta os fundos do mapa configurados aos padrão', () => {
+    const config = configDoAmbiente({
+      TILES_URL: 'http://tiles.local/{z}/{x}/{y}.png',
+      CAMADAS_MAPA: JSON.stringify([
+        { id: 'satelite', nome: 'Satélite', url: 'https://sat.exemplo.com/{z}/{x}/{y}.jpg', maxZoom: 20 },
+        { id: 'sem-url', nome: 'Quebrada' }
+      ])
+    });
+
+    expect(config.camadasBase.map(fonte => fonte.id)).toEqual(['osm', 'escuro', 'satelite', 'local']);
+    expect(config.camadasBase[2].maxZoom).toBe(20);
+    expect(config.camadasBase[3]).toEqual({
+      id: 'local', nome: 'Servidor local', url: 'http://tiles.local/{z}/{x}/{y}.png', atribuicao: '', maxZoom: 18
+    });
+    expect(config.camadaBasePadrao).toBe('local');
+
+    expect(configDoAmbiente({ CAMADAS_MAPA: '[quebrado', CAMADA_MAPA_PADRAO: 'inexistente' }).camadaBasePadrao).toBe('osm');
+  });
+});
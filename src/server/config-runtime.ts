@@ -0,0 +1,57 @@
+import { ConfigApp, lerConfigApp } from '../app/config/config-app';
+
+/**
+ * ⚙️ CONFIGURAÇÃO DO APP A PARTIR DAS VARIÁVEIS DE AMBIENTE
+ *
+ * O mesmo build serve para qualquer backend ou servidor de tiles: o server.ts
+ * entrega o resultado em /config.json e o usa também na renderização (SSR).
+ *
+ * Variáveis de ambiente (todas opcionais; sem elas vale CONFIG_PADRAO):
+ * - API_URL: base das chamadas do app (padrão: /api, o gateway deste servidor)
+ * - TILES_URL: servidor de tiles local/offline, ex: http://tiles.local/{z}/{x}/{y}.png
+ *   (entra como o fundo 'local' e vira o padrão); TILES_NOME e TILES_ATRIBUICAO o completam
+ * - CAMADAS_MAPA: outros fundos, em JSON: [{ "id", "nome", "url", "atribuicao", "maxZoom" }]
+ * - CAMADA_MAPA_PADRAO: id do fundo usado enquanto o usuário não escolhe outro
+ * - INTERVALO_ATUALIZACAO_MS: intervalo padrão da atualização automática
+ * - MAPA_CENTRO_LAT, MAPA_CENTRO_LNG, MAPA_ZOOM: posição inicial do mapa
+ */
+export function configDoAmbiente(ambiente: Record<string, string | undefined>): ConfigApp {
+    const camadas = listaJson(ambiente['CAMADAS_MAPA']);
+    const urlLocal = ambiente['TILES_URL'];
+    if (urlLocal) {
+        camadas.push({
+            id: 'local',
+            nome: ambiente['TILES_NOME'] || 'Servidor local',
+            url: urlLocal,
+            atribuicao: ambiente['TILES_ATRIBUICAO']
+        });
+    }
+
+    return lerConfigApp({
+        apiUrl: ambiente['API_URL'],
+        camadasBase: camadas,
+        camadaBasePadrao: ambiente['CAMADA_MAPA_PADRAO'] || (urlLocal ? 'local' : undefined),
+        intervaloAtualizacaoMs: numero(ambiente['INTERVALO_ATUALIZACAO_MS']),
+        centroMapa: {
+            lat: numero(ambiente['MAPA_CENTRO_LAT']),
+            lng: numero(ambiente['MAPA_CENTRO_LNG']),
+            zoom: numero(ambiente['MAPA_ZOOM'])
+        }
+    });
+}
+
+function numero(valor: string | undefined): number | undefined {
+    return valor === undefined || valor.trim() === '' ? undefined : Number(valor);
+}
+
+/** Lista em JSON; texto inválido é avisado e ignorado (o servidor sobe mesmo assim) */
+function listaJson(valor: string | undefined): unknown[] {
+    if (!valor) return [];
+    try {
+        const lista: unknown = JSON.parse(valor);
+        return Array.isArray(lista) ? lista : [];
+    } catch (erro) {
+        console.warn('⚠️ CAMADAS_MAPA não é um JSON válido:', erro);
+        return [];
+    }
+}
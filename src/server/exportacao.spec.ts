@@ -0,0 +1,39 @@
+import { exportarBusca } from './exportacao';
+
+describe('exportarBusca', () => {
+  const agora = new Date('2024-05-10T13:00:00Z');
+  const respostas: Record<string, unknown> = {
+    '/linhas?termo=8000': [
+      { cl: 1273, lt: '8000', tl: 10, sl: 1, tp: 'PCA. RAMOS DE AZEVEDO', ts: 'TERM. LAPA' },
+      { cl: 34041, lt: '8000', tl: 10, sl: 2, tp: 'PCA. RAMOS DE AZEVEDO', ts: 'TERM. LAPA' }
+    ],
+    '/Posicao/Linha?codigoLinha=1273': {
+      hr: '10:00',
+      vs: [{ p: '11433', a: true, ta: '2024-05-10T12:59:30Z', py: -23.55, px: -46.63 }]
+    },
+    '/Shape/Linha?codigoLinha=1273': [[-23.5, -46.6], [-23.6, -46.7]]
+  };
+  const buscarJson = (caminho: string) =>
+    caminho in respostas ? Promise.resolve(respostas[caminho]) : Promise.reject(new Error(`404 ${caminho}`));
+
+  it('exporta as linhas que responderam, com os traçados no GeoJSON', async () => {
+    const colecao = JSON.parse(await exportarBusca('8000', 'geojson', buscarJson, agora));
+
+    expect(colecao.features.map((feature: any) => feature.geometry.type)).toEqual(['LineString', 'Point']);
+    expect(colecao.features[1].properties.prefixo).toBe('11433');
+    expect(colecao.features[1].properties.capturadoEm).toBe('2024-05-10T13:00:00.000Z');
+  });
+
+  it('exporta CSV e GPX com a posição atual de cada ônibus', async () => {
+    const csv = (await exportarBusca('8000', 'csv', buscarJson, agora)).trimEnd().split('\r\n');
+    expect(csv.length).toBe(2);
+    expect(csv[1]).toContain(',11433,true,');
+
+    const gpx = await exportarBusca('8000', 'gpx', buscarJson, agora);
+    expect(gpx.match(/<trkpt /g)?.length).toBe(1);
+  });
+
+  it('rejeita quando a busca das linhas falha', async () => {
+    await expectAsync(exportarBusca('9999', 'csv', buscarJson, agora)).toBeRejected();
+  });
+});
@@ -0,0 +1,69 @@
+import { decodificarLinhas, decodificarPosicoes, decodificarTracado } from '../app/models/sptrans.decoders';
+import { TracadoLinha } from '../app/models/sptrans.model';
+import {
+    FormatoExportacao,
+    PosicoesExportadas,
+    paraCsv,
+    paraGeoJson,
+    paraGpx
+} from '../app/exportacao/formatos-exportacao';
+
+/**
+ * 📤 EXPORTAÇÃO PELO SERVIDOR (/api/export)
+ *
+ * Para uso em scripts, sem abrir o mapa: busca as linhas de um termo, as
+ * posições atuais de cada uma (e os traçados, no GeoJSON) e devolve o arquivo
+ * nos mesmos formatos do botão de exportação do app.
+ * O servidor não guarda histórico: no CSV e no GPX entra só a posição atual
+ * de cada ônibus (o rastro e as gravações existem só no navegador).
+ *
+ * Exemplo de uso:
+ * ```
+ * curl 'http://localhost:4000/api/export?termo=8000&formato=csv' -o 8000.csv
+ * ```
+ */
+
+/** Máximo de linhas de uma busca que entram no arquivo (cada uma custa uma chamada de posições) */
+export const MAXIMO_LINHAS_EXPORTACAO = 20;
+
+/**
+ * Busca um caminho da API (ex: '/linhas?termo=8000') e devolve o JSON; rejeita se o status não for 2xx
+ */
+export type BuscarJson = (caminho: string) => Promise<unknown>;
+
+/**
+ * Monta o arquivo com as linhas do `termo` e os ônibus de cada uma.
+ * Linhas cujas posições falham ficam de fora; uma falha na busca das linhas rejeita.
+ */
+export async function exportarBusca(
+    termo: string,
+    formato: FormatoExportacao,
+    buscarJson: BuscarJson,
+    agora: Date = new Date()
+): Promise<string> {
+    const resposta = await buscarJson(`/linhas?termo=${encodeURIComponent(termo)}`);
+    const linhas = Array.isArray(resposta) ? decodificarLinhas(resposta).validos.slice(0, MAXIMO_LINHAS_EXPORTACAO) : [];
+
+    const posicoes = (await Promise.all(linhas.map(linha =>
+        buscarJson(`/Posicao/Linha?codigoLinha=${linha.codigo}`)
+            .then((bruto): PosicoesExportadas => ({ linha, veiculos: decodificarPosicoes(bruto, agora).veiculos, capturadoEm: agora }))
+            .catch(() => null)
+    ))).filter((item): item is PosicoesExportadas => item !== null);
+
+    switch (formato) {
+        case 'geojson': {
+            const tracados = await Promise.all(posicoes.map(({ linha }) =>
+                buscarJson(`/Shape/Linha?codigoLinha=${linha.codigo}`)
+                    .then(bruto => decodificarTracado(bruto, linha.codigo))
+                    .catch(() => null)
+            ));
+            const validos = tracados.filter((tracado): tracado is TracadoLinha => tracado !== null);
+            return JSON.stringify(paraGeoJson(posicoes, validos), null, 2);
+        }
+        case 'csv':
+            return paraCsv(posicoes, agora);
+        case 'gpx':
+            return paraGpx(posicoes.flatMap(({ linha, veiculos }) =>
+                veiculos.map(veiculo => ({ prefixo: veiculo.prefixo, linha, pontos: [veiculo] }))));
+    }
+}
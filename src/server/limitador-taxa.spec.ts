@@ -0,0 +1,39 @@
+import { LimitadorDeTaxa } from './limitador-taxa';
+
+describe('LimitadorDeTaxa', () => {
+  let agora: number;
+  let limitador: LimitadorDeTaxa;
+
+  beforeEach(() => {
+    agora = 0;
+    limitador = new LimitadorDeTaxa(3, 3000, () => agora);
+  });
+
+  it('permite até a capacidade e depois recusa', () => {
+    expect(limitador.permitir('a').permitido).toBeTrue();
+    expect(limitador.permitir('a').permitido).toBeTrue();
+    expect(limitador.permitir('a').restantes).toBe(0);
+
+    const recusa = limitador.permitir('a');
+    expect(recusa.permitido).toBeFalse();
+    expect(recusa.tentarEmMs).toBe(1000);
+  });
+
+  it('recarrega as fichas com o tempo', () => {
+    limitador.permitir('a');
+    limitador.permitir('a');
+    limitador.permitir('a');
+
+    agora = 1000;
+    expect(limitador.permitir('a').permitido).toBeTrue();
+    expect(limitador.permitir('a').permitido).toBeFalse();
+  });
+
+  it('conta cada cliente separadamente', () => {
+    limitador.permitir('a');
+    limitador.permitir('a');
+    limitador.permitir('a');
+
+    expect(limitador.permitir('b').permitido).toBeTrue();
+  });
+});
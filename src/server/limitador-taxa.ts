@@ -0,0 +1,60 @@
+/**
+ * 🚦 LIMITADOR DE TAXA (token bucket)
+ *
+ * Cada cliente tem um "balde" com `capacidade` fichas que se recarrega
+ * continuamente até encher em `janelaMs`. Cada requisição gasta uma ficha;
+ * sem fichas, a requisição é recusada até a próxima recarga.
+ */
+
+export interface DecisaoLimite {
+    permitido: boolean;
+    restantes: number;
+    tentarEmMs: number;   // quanto esperar até haver uma ficha (0 se permitido)
+}
+
+interface Balde {
+    fichas: number;
+    atualizadoEm: number;
+}
+
+export class LimitadorDeTaxa {
+
+    private baldes = new Map<string, Balde>();
+    private readonly recargaPorMs: number;
+
+    constructor(
+        private readonly capacidade: number,
+        janelaMs: number,
+        private readonly relogio: () => number = Date.now
+    ) {
+        this.recargaPorMs = capacidade / janelaMs;
+    }
+
+    permitir(cliente: string): DecisaoLimite {
+        const agora = this.relogio();
+        const balde = this.baldes.get(cliente) ?? { fichas: this.capacidade, atualizadoEm: agora };
+
+        balde.fichas = Math.min(this.capacidade, balde.fichas + (agora - balde.atualizadoEm) * this.recargaPorMs);
+        balde.atualizadoEm = agora;
+        this.baldes.set(cliente, balde);
+
+        if (balde.fichas >= 1) {
+            balde.fichas -= 1;
+            return { permitido: true, restantes: Math.floor(balde.fichas), tentarEmMs: 0 };
+        }
+
+        return { permitido: false, restantes: 0, tentarEmMs: Math.ceil((1 - balde.fichas) / this.recargaPorMs) };
+    }
+
+    /**
+     * Remove os baldes cheios (clientes que pararam de chamar), para a memória não crescer
+     */
+    limparInativos(): void {
+        const agora = this.relogio();
+        this.baldes.forEach((balde, cliente) => {
+            if (balde.fichas + (agora - balde.atualizadoEm) * this.recargaPorMs >= this.capacidade) {
+                this.baldes.delete(cliente);
+            }
+        });
+    }
+}
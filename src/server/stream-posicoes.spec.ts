@@ -0,0 +1,65 @@
+import { MensagemPosicoes } from '../app/models/diferenca-posicoes';
+import { TransmissaoPosicoes } from './stream-posicoes';
+
+describe('TransmissaoPosicoes', () => {
+  let respostas: Record<string, unknown>;
+  let consultas: string[];
+  let transmissao: TransmissaoPosicoes;
+
+  const veiculo = (p: string, py: number) => ({ p, a: true, ta: '2024-05-10T12:59:30Z', py, px: -46.63 });
+  const esperarConsultas = () => new Promise(resolver => setTimeout(resolver));
+
+  beforeEach(() => {
+    respostas = { '/Posicao/Linha?codigoLinha=1273': { hr: '10:00', vs: [veiculo('A', -23.5), veiculo('B', -23.6)] } };
+    consultas = [];
+    transmissao = new TransmissaoPosicoes(caminho => {
+      consultas.push(caminho);
+      return caminho in respostas ? Promise.resolve(respostas[caminho]) : Promise.reject(new Error(`404 ${caminho}`));
+    }, 60_000);
+  });
+
+  afterEach(() => transmissao.parar());
+
+  it('consulta cada linha uma vez para todos os inscritos e manda a inicial a quem chega depois', async () => {
+    const primeiro: MensagemPosicoes[] = [];
+    const segundo: MensagemPosicoes[] = [];
+
+    transmissao.inscrever([1273], mensagem => primeiro.push(mensagem));
+    await esperarConsultas();
+    transmissao.inscrever([1273], mensagem => segundo.push(mensagem));
+
+    expect(consultas.length).toBe(1);
+    expect(primeiro.map(m => m.tipo)).toEqual(['inicial']);
+    expect(segundo.map(m => m.tipo)).toEqual(['inicial']);
+  });
+
+  it('manda só o que mudou e nada quando nada mudou', async () => {
+    const recebidas: MensagemPosicoes[] = [];
+    transmissao.inscrever([1273], mensagem => recebidas.push(mensagem));
+    await esperarConsultas();
+
+    await transmissao.rodada();
+    respostas['/Posicao/Linha?codigoLinha=1273'] = { hr: '10:01', vs: [veiculo('B', -23.7), veiculo('C', -23.8)] };
+    await transmissao.rodada();
+
+    expect(recebidas.length).toBe(2);
+    expect(recebidas[1]).toEqual(jasmine.objectContaining({ tipo: 'diferenca', horario: '10:01', removidos: ['A'] }));
+    const diferenca = recebidas[1] as Extract<MensagemPosicoes, { tipo: 'diferenca' }>;
+    expect(diferenca.movidos.map(v => v.prefixo)).toEqual(['B']);
+    expect(diferenca.adicionados.map(v => v.prefixo)).toEqual(['C']);
+  });
+
+  it('avisa as falhas e para de consultar as linhas sem inscritos', async () => {
+    const recebidas: MensagemPosicoes[] = [];
+    const cancelar = transmissao.inscrever([1273, 999], mensagem => recebidas.push(mensagem));
+    await esperarConsultas();
+
+    expect(recebidas).toContain({ tipo: 'falha', codigoLinha: 999 });
+    expect(transmissao.totalLinhas).toBe(2);
+
+    cancelar();
+    await transmissao.rodada();
+    expect(transmissao.totalLinhas).toBe(0);
+    expect(consultas.length).toBe(2);
+  });
+});
@@ -0,0 +1,158 @@
+import { decodificarPosicoes } from '../app/models/sptrans.decoders';
+import { Veiculo } from '../app/models/sptrans.model';
+import {
+    MensagemPosicoes,
+    diferencaPosicoes,
+    diferencaVazia,
+    paraTransmissao
+} from '../app/models/diferenca-posicoes';
+import { BuscarJson } from './exportacao';
+
+/**
+ * 📡 TRANSMISSÃO DAS POSIÇÕES (/api/stream/posicoes)
+ *
+ * Cada aba do app que acompanha linhas se inscreve aqui em vez de consultar
+ * o upstream por conta própria. Cada linha inscrita é consultada uma vez
+ * por intervalo, não importa quantos clientes a acompanham, e o resultado
+ * vai para todos como MensagemPosicoes (ver models/diferenca-posicoes.ts).
+ *
+ * Quem se inscreve recebe logo os ônibus que já se conhece da linha
+ * ('inicial'); depois, só as diferenças. Sem inscritos, a linha deixa de
+ * ser consultada.
+ *
+ * Não depende de Express: o api-gateway.ts cuida da conexão SSE.
+ *
+ * Exemplo de uso:
+ * ```ts
+ * const cancelar = transmissao.inscrever([1273, 34041], mensagem => enviar(mensagem));
+ * cancelar();   // quando o cliente desconecta
+ * ```
+ */
+
+/** Máximo de linhas por conexão; acima disso o app volta a consultar cada linha */
+export const MAXIMO_LINHAS_STREAM = 50;
+
+export type OuvintePosicoes = (mensagem: MensagemPosicoes) => void;
+
+interface LinhaTransmitida {
+    ouvintes: Set<OuvintePosicoes>;
+    horario: string;
+    veiculos: Veiculo[] | null;    // null até a primeira consulta dar certo
+    consultando: boolean;
+}
+
+export class TransmissaoPosicoes {
+
+    private linhas = new Map<number, LinhaTransmitida>();
+    private temporizador?: ReturnType<typeof setInterval>;
+
+    constructor(private readonly buscarJson: BuscarJson, private readonly intervaloMs: number) { }
+
+    /** Linhas com pelo menos um inscrito */
+    get totalLinhas(): number {
+        return this.linhas.size;
+    }
+
+    /**
+     * Passa a mandar para `ouvinte` as mensagens das linhas
+     * @returns função que cancela a inscrição
+     */
+    inscrever(codigosLinha: number[], ouvinte: OuvintePosicoes): () => void {
+        for (const codigo of codigosLinha) {
+            const linha = this.linhas.get(codigo);
+            if (linha) {
+                linha.ouvintes.add(ouvinte);
+                if (linha.veiculos) ouvinte(this.inicial(codigo, linha));
+            } else {
+                this.linhas.set(codigo, { ouvintes: new Set([ouvinte]), horario: '', veiculos: null, consultando: false });
+                void this.consultar(codigo);
+            }
+        }
+        this.ajustarTemporizador();
+
+        return () => {
+            for (const codigo of codigosLinha) {
+                const linha = this.linhas.get(codigo);
+                linha?.ouvintes.delete(ouvinte);
+                if (linha?.ouvintes.size === 0) this.linhas.delete(codigo);
+            }
+            this.ajustarTemporizador();
+        };
+    }
+
+    /**
+     * Consulta todas as linhas inscritas (o temporizador chama a cada intervalo)
+     */
+    async rodada(): Promise<void> {
+        await Promise.all([...this.linhas.keys()].map(codigo => this.consultar(codigo)));
+    }
+
+    /** Para de consultar e esquece todos os inscritos */
+    parar(): void {
+        this.linhas.clear();
+        this.ajustarTemporizador();
+    }
+
+    // ========================================
+    // MÉTODOS INTERNOS
+    // ========================================
+
+    /**
+     * Uma consulta por vez por linha: se a anterior ainda não voltou, esta rodada pula a linha
+     */
+    private async consultar(codigo: number): Promise<void> {
+        const linha = this.linhas.get(codigo);
+        if (!linha || linha.consultando) return;
+
+        linha.consultando = true;
+        try {
+            const posicoes = decodificarPosicoes(await this.buscarJson(`/Posicao/Linha?codigoLinha=${codigo}`));
+            const anteriores = linha.veiculos;
+            linha.horario = posicoes.horario;
+            linha.veiculos = posicoes.veiculos;
+
+            if (!anteriores) {
+                this.enviar(linha, this.inicial(codigo, linha));
+                return;
+            }
+            const diferenca = diferencaPosicoes(anteriores, posicoes.veiculos);
+            if (diferencaVazia(diferenca)) return;
+            this.enviar(linha, {
+                tipo: 'diferenca',
+                codigoLinha: codigo,
+                horario: posicoes.horario,
+                adicionados: diferenca.adicionados.map(paraTransmissao),
+                movidos: diferenca.movidos.map(paraTransmissao),
+                removidos: diferenca.removidos
+            });
+        } catch (erro) {
+            console.warn(`⚠️ Stream: falha ao consultar a linha ${codigo}:`, erro);
+            this.enviar(linha, { tipo: 'falha', codigoLinha: codigo });
+        } finally {
+            linha.consultando = false;
+        }
+    }
+
+    private inicial(codigo: number, linha: LinhaTransmitida): MensagemPosicoes {
+        return {
+            tipo: 'inicial',
+            codigoLinha: codigo,
+            horario: linha.horario,
+            veiculos: (linha.veiculos ?? []).map(paraTransmissao)
+        };
+    }
+
+    private enviar(linha: LinhaTransmitida, mensagem: MensagemPosicoes): void {
+        linha.ouvintes.forEach(ouvinte => ouvinte(mensagem));
+    }
+
+    /** O temporizador só existe enquanto houver linhas inscritas */
+    private ajustarTemporizador(): void {
+        if (this.linhas.size > 0 && !this.temporizador) {
+            this.temporizador = setInterval(() => void this.rodada(), this.intervaloMs);
+        } else if (this.linhas.size === 0 && this.temporizador) {
+            clearInterval(this.temporizador);
+            this.temporizador = undefined;
+        }
+    }
+}